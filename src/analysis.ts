@@ -0,0 +1,619 @@
+import {
+  CommitType,
+  CommitTypeCatalog,
+  DiffStats,
+  FileClassification,
+  PatchFile,
+  SuggestionResult,
+  SuggestionSignal,
+  TypeCandidate,
+  getTypeInfo,
+} from './types.js';
+
+/**
+ * Staged changes as seen by the suggestion engine
+ */
+export interface ChangeSet {
+  stats: DiffStats;
+  patch: PatchFile[];
+}
+
+/**
+ * Tuning for a suggestion
+ */
+export interface SuggestionOptions {
+  /** Number of ranked candidates to return (default: 3) */
+  maxCandidates?: number;
+}
+
+/**
+ * Types that usually accompany a change rather than being a concern of their own
+ */
+export const SUPPORTING_TYPES = new Set<CommitType>(['test', 'docs']);
+
+const DOC_FILE = /\.(md|txt|rst|adoc)$/i;
+const TEST_FILE = /\.(test|spec)\.(ts|js|tsx|jsx)$/i;
+const CI_FILE = /\.(yml|yaml)$/i;
+const BUILD_FILE = /^(package\.json|package-lock\.json|yarn\.lock|pnpm-lock\.yaml|Gemfile\.lock|requirements\.txt|pom\.xml|build\.gradle|Cargo\.toml|go\.mod|go\.sum)$/i;
+const CONFIG_FILE = /\.(config|conf|cfg|ini|env|rc)(\.(ts|js|json|yaml|yml))?$/i;
+export const LOCK_FILE = /(^|\/)(package-lock\.json|yarn\.lock|pnpm-lock\.yaml|Gemfile\.lock|Cargo\.lock|go\.sum|poetry\.lock|composer\.lock)$/i;
+const MANIFEST_FILE = /(^|\/)(package\.json|Cargo\.toml|pyproject\.toml|requirements[\w.-]*\.txt|go\.mod|Gemfile|composer\.json)$/i;
+const SOURCE_FILE = /\.(ts|tsx|js|jsx|mjs|cjs|py|go|rs|java|kt|rb|php|cs|swift|c|cc|cpp|h|hpp|vue|svelte)$/i;
+const GITIGNORE_FILE = /(^|\/)\.gitignore$/;
+const LICENSE_FILE = /(^|\/)(LICEN[CS]E|COPYING)(\.\w+)?$/i;
+const SNAPSHOT_FILE = /(^|\/)__snapshots__\/|\.snap$/;
+const TYPE_DEFINITION_FILE = /\.d\.[cm]?ts$/;
+const DATABASE_FILE = /(^|\/)(migrations?|seeds?)\/|\.sql$|(^|\/)schema\.prisma$/i;
+const ASSET_FILE = /\.(png|jpe?g|gif|svg|webp|ico|bmp|woff2?|ttf|otf|eot|mp3|mp4|wav|webm)$/i;
+
+const EXPORT_PATTERNS = [
+  /^\s*export\s+(?:default\s+)?(?:declare\s+)?(?:abstract\s+)?(?:async\s+)?(?:function\*?|class|const|let|var|interface|type|enum)\s+([A-Za-z_$][\w$]*)/,
+  /^\s*pub(?:\([^)]*\))?\s+(?:async\s+)?(?:fn|struct|enum|trait|type|const|mod)\s+([A-Za-z_]\w*)/,
+  /^func\s+(?:\([^)]*\)\s+)?([A-Z]\w*)/,
+  /^(?:async\s+)?def\s+([A-Za-z]\w*)/,
+  /^class\s+([A-Za-z]\w*)/,
+];
+const TEST_CASE_PATTERN = /^\s*(?:(?:it|test|describe)(?:\.\w+)?\s*\(|def\s+test_|func\s+Test|#\[test\]|@Test\b)/;
+const COMMENT_PATTERN = /^\s*(?:\/\/|#(?!include|define|if|endif|pragma)|\/\*|\*|<!--|-->|"""|''')/;
+const SECURITY_PATTERN =
+  /\b(?:sanitiz\w*|escape\w*|csrf|xss|injection|bcrypt|argon2|scrypt|timingSafeEqual|helmet|rate.?limit\w*|allowlist|denylist|permission\w*|authori[sz]\w*|verify(?:Token|Signature)?|encrypt\w*|decrypt\w*|CVE-\d+)\b/i;
+const DEPRECATION_PATTERN = /@deprecated\b|#\[deprecated|DeprecationWarning|\bdeprecate\(/;
+const PERF_PATTERN = /\b(?:memoi[sz]e\w*|useMemo|useCallback|cache\w*|debounce|throttle|lazy|batch\w*|pool\w*|benchmark)\b/i;
+const GUARD_PATTERN = /(?:\?\.|\?\?|[!=]==?\s*(?:null|undefined)\b|\bif\s*\(\s*!|\bcatch\s*\(|\bis None\b|\b!= nil\b)/;
+
+const JSON_DEPENDENCY = /^\s*"([^"]+)"\s*:\s*"([~^<>=]*\s*v?\d[^"]*)"/;
+const TOML_DEPENDENCY = /^\s*([\w-]+)\s*=\s*(?:\{[^}]*version\s*=\s*)?"([~^<>=]*\d[^"]*)"/;
+const REQUIREMENTS_DEPENDENCY = /^\s*([\w.-]+)\s*(?:[=<>~!]=|[<>])\s*(\d[\w.*-]*)/;
+const GO_DEPENDENCY = /^\s*(?:require\s+)?([\w.-]+\/[\w./-]+)\s+(v\d[\w.+-]*)/;
+
+function stripQuotes(value: string): string {
+  return value.startsWith('"') && value.endsWith('"') ? value.slice(1, -1) : value;
+}
+
+/**
+ * Parse a unified diff produced by `git diff` into per-file added and removed lines
+ */
+export function parsePatch(patch: string): PatchFile[] {
+  const files: PatchFile[] = [];
+  let current: PatchFile | undefined;
+  let inHunk = false;
+
+  for (const line of patch.split('\n')) {
+    const header = /^diff --git (?:"?a\/)(.+?)"? (?:"?b\/)(.+?)"?$/.exec(line);
+    if (header) {
+      current = { path: header[2], status: 'modified', binary: false, added: [], removed: [] };
+      files.push(current);
+      inHunk = false;
+      continue;
+    }
+
+    if (!current) {
+      continue;
+    }
+
+    if (!inHunk) {
+      if (line.startsWith('new file mode')) {
+        current.status = 'added';
+      } else if (line.startsWith('deleted file mode')) {
+        current.status = 'deleted';
+      } else if (line.startsWith('rename from ')) {
+        current.status = 'renamed';
+        current.oldPath = stripQuotes(line.substring('rename from '.length));
+      } else if (line.startsWith('rename to ')) {
+        current.path = stripQuotes(line.substring('rename to '.length));
+      } else if (line.startsWith('Binary files ')) {
+        current.binary = true;
+      } else if (line.startsWith('+++ b/')) {
+        current.path = line.substring('+++ b/'.length);
+      } else if (line.startsWith('@@')) {
+        inHunk = true;
+      }
+      continue;
+    }
+
+    if (line.startsWith('@@')) {
+      continue;
+    }
+    if (line.startsWith('+')) {
+      current.added.push(line.substring(1));
+    } else if (line.startsWith('-')) {
+      current.removed.push(line.substring(1));
+    }
+  }
+
+  return files;
+}
+
+function isDocFile(file: string): boolean {
+  return DOC_FILE.test(file) || file.includes('README') || file.includes('docs/');
+}
+
+function isTestFile(file: string): boolean {
+  return TEST_FILE.test(file) || file.includes('__tests__/') || file.includes('test/') || file.includes('tests/');
+}
+
+function isCiFile(file: string): boolean {
+  return (
+    CI_FILE.test(file) &&
+    (file.includes('.github/') || file.includes('.gitlab/') || file.includes('jenkins') || file.includes('circle'))
+  );
+}
+
+function isConfigFile(file: string): boolean {
+  return CONFIG_FILE.test(file) || file.startsWith('.');
+}
+
+function isSourceFile(file: string): boolean {
+  return SOURCE_FILE.test(file) && !isTestFile(file);
+}
+
+function getExportNames(lines: string[]): Set<string> {
+  const names = new Set<string>();
+  for (const line of lines) {
+    for (const pattern of EXPORT_PATTERNS) {
+      const match = pattern.exec(line);
+      if (match) {
+        names.add(match[1]);
+        break;
+      }
+    }
+  }
+  return names;
+}
+
+function getDependencies(file: string, lines: string[]): Map<string, string> {
+  const dependencies = new Map<string, string>();
+  const patterns = file.endsWith('.json')
+    ? [JSON_DEPENDENCY]
+    : file.endsWith('.toml')
+      ? [TOML_DEPENDENCY]
+      : file.endsWith('go.mod')
+        ? [GO_DEPENDENCY]
+        : [REQUIREMENTS_DEPENDENCY];
+
+  for (const line of lines) {
+    for (const pattern of patterns) {
+      const match = pattern.exec(line);
+      // The manifest's own version is not a dependency
+      if (match && match[1] !== 'version') {
+        dependencies.set(match[1], match[2].trim());
+      }
+    }
+  }
+
+  return dependencies;
+}
+
+function normalizeWhitespace(lines: string[]): string[] {
+  return lines.map(line => line.replace(/\s+/g, '')).filter(line => line.length > 0).sort();
+}
+
+function isWhitespaceOnly(file: PatchFile): boolean {
+  if (file.status !== 'modified' || file.binary || file.added.length + file.removed.length === 0) {
+    return false;
+  }
+
+  const added = normalizeWhitespace(file.added);
+  const removed = normalizeWhitespace(file.removed);
+  return added.length === removed.length && added.every((line, i) => line === removed[i]);
+}
+
+function isCommentOnly(file: PatchFile): boolean {
+  const lines = [...file.added, ...file.removed].filter(line => line.trim().length > 0);
+  return SOURCE_FILE.test(file.path) && !file.binary && lines.length > 0 && lines.every(line => COMMENT_PATTERN.test(line));
+}
+
+function matchingFiles(files: PatchFile[], pattern: RegExp): string[] {
+  return files
+    .filter(file => file.added.some(line => !COMMENT_PATTERN.test(line) && pattern.test(line)))
+    .map(file => file.path);
+}
+
+function signal(
+  id: string,
+  type: CommitType,
+  weight: number,
+  description: string,
+  files: string[] = [],
+  fallback?: CommitType
+): SuggestionSignal {
+  return { id, type, fallback, weight: Math.round(weight * 10) / 10, description, files };
+}
+
+/**
+ * Signals derived from file paths only, mirroring the original path heuristics
+ */
+function detectPathSignals(files: string[]): SuggestionSignal[] {
+  const signals: SuggestionSignal[] = [];
+  const all = (predicate: (file: string) => boolean) => files.length > 0 && files.every(predicate);
+
+  if (all(isDocFile)) {
+    signals.push(signal('docs-files', 'docs', 6, 'All changes are to documentation files', files));
+  }
+  if (all(isTestFile)) {
+    signals.push(signal('test-files', 'test', 6, 'All changes are to test files', files));
+  }
+  if (all(isCiFile)) {
+    signals.push(signal('ci-files', 'ci', 6, 'All changes are to CI/CD configuration files', files));
+  }
+  if (all(isConfigFile)) {
+    signals.push(signal('config-files', 'chore', 5, 'All changes are to configuration files', files));
+  }
+
+  const lockFiles = files.filter(file => LOCK_FILE.test(file));
+  if (lockFiles.length > 0) {
+    signals.push(signal('lockfile', 'deps', 3, 'Dependency lockfiles changed', lockFiles));
+  }
+
+  const buildFiles = files.filter(file => BUILD_FILE.test(file) && !LOCK_FILE.test(file));
+  if (buildFiles.length > 0) {
+    signals.push(signal('build-files', 'build', 2, 'Build configuration changed', buildFiles));
+  }
+
+  // Finer-grained gitmoji types, counted toward their conventional type when the catalog lacks them
+  if (all(file => GITIGNORE_FILE.test(file))) {
+    signals.push(signal('gitignore-files', 'gitignore', 6, 'Only .gitignore files changed', files, 'chore'));
+  }
+  if (all(file => LICENSE_FILE.test(file))) {
+    signals.push(signal('license-files', 'license', 6, 'Only license files changed', files, 'docs'));
+  }
+  if (all(file => SNAPSHOT_FILE.test(file))) {
+    signals.push(signal('snapshot-files', 'snapshots', 6, 'Only test snapshots changed', files, 'test'));
+  }
+  if (all(file => TYPE_DEFINITION_FILE.test(file))) {
+    signals.push(signal('type-definitions', 'types', 5, 'Only type definition files changed', files));
+  }
+  if (all(file => ASSET_FILE.test(file))) {
+    signals.push(signal('asset-files', 'assets', 5, 'Only assets (images, fonts, media) changed', files));
+  }
+
+  const databaseFiles = files.filter(file => DATABASE_FILE.test(file));
+  if (databaseFiles.length > 0) {
+    signals.push(signal('database-files', 'db', 4, 'Database migrations, seeds or schema changed', databaseFiles));
+  }
+
+  return signals;
+}
+
+/**
+ * Signals derived from the content of the staged patch
+ */
+function detectContentSignals(patch: PatchFile[]): SuggestionSignal[] {
+  const signals: SuggestionSignal[] = [];
+  const source = patch.filter(file => isSourceFile(file.path) && !file.binary);
+
+  // Public API added or removed
+  const addedExports: string[] = [];
+  const removedExports: string[] = [];
+  const addedExportFiles = new Set<string>();
+  const removedExportFiles = new Set<string>();
+
+  for (const file of source) {
+    const added = getExportNames(file.added);
+    const removed = getExportNames(file.removed);
+    for (const name of added) {
+      if (!removed.has(name)) {
+        addedExports.push(name);
+        addedExportFiles.add(file.path);
+      }
+    }
+    for (const name of removed) {
+      if (!added.has(name)) {
+        removedExports.push(name);
+        removedExportFiles.add(file.path);
+      }
+    }
+  }
+
+  // Exports moving between files are neither new nor removed
+  const moved = new Set(addedExports.filter(name => removedExports.includes(name)));
+  const newExports = addedExports.filter(name => !moved.has(name));
+  const deletedExports = removedExports.filter(name => !moved.has(name));
+
+  if (newExports.length > 0) {
+    signals.push(
+      signal(
+        'new-exports',
+        'feat',
+        3 + Math.min(newExports.length - 1, 2),
+        `New public API: ${newExports.slice(0, 5).join(', ')}${newExports.length > 5 ? ', ...' : ''}`,
+        [...addedExportFiles]
+      )
+    );
+  }
+
+  if (deletedExports.length > 0) {
+    signals.push(
+      signal(
+        'removed-exports',
+        'breaking',
+        4,
+        `Public API removed: ${deletedExports.slice(0, 5).join(', ')}${deletedExports.length > 5 ? ', ...' : ''}`,
+        [...removedExportFiles]
+      )
+    );
+  }
+
+  const newSourceFiles = source.filter(file => file.status === 'added').map(file => file.path);
+  if (newSourceFiles.length > 0) {
+    signals.push(signal('new-source-files', 'feat', 2, `${newSourceFiles.length} new source file(s)`, newSourceFiles));
+  }
+
+  // Moved and deleted files, weighted by their share of the change
+  const renamed = patch.filter(file => file.status === 'renamed');
+  if (renamed.length > 0) {
+    signals.push(
+      signal(
+        'moved-files',
+        'move',
+        6 * (renamed.length / patch.length),
+        `${renamed.length} file(s) moved or renamed`,
+        renamed.map(file => file.path),
+        'refactor'
+      )
+    );
+  }
+
+  const deleted = patch.filter(file => file.status === 'deleted');
+  if (deleted.length > 0) {
+    signals.push(
+      signal(
+        'deleted-files',
+        'remove',
+        5 * (deleted.length / patch.length),
+        `${deleted.length} file(s) deleted`,
+        deleted.map(file => file.path),
+        'refactor'
+      )
+    );
+  }
+
+  // Dependency versions in manifests
+  const changedDependencies: string[] = [];
+  const addedDependencies: string[] = [];
+  const removedDependencies: string[] = [];
+  const manifestFiles: string[] = [];
+  for (const file of patch.filter(file => MANIFEST_FILE.test(file.path))) {
+    const before = getDependencies(file.path, file.removed);
+    const after = getDependencies(file.path, file.added);
+    const names = [...after.keys()].filter(name => before.get(name) !== after.get(name));
+    names.push(...[...before.keys()].filter(name => !after.has(name)));
+
+    if (names.length > 0) {
+      changedDependencies.push(...names);
+      addedDependencies.push(...names.filter(name => !before.has(name)));
+      removedDependencies.push(...names.filter(name => !after.has(name)));
+      manifestFiles.push(file.path);
+    }
+  }
+  const listed = (names: string[]) => names.slice(0, 5).join(', ');
+  if (changedDependencies.length > 0 && addedDependencies.length === changedDependencies.length) {
+    signals.push(signal('dependency-added', 'add-dep', 5, `Dependencies added: ${listed(addedDependencies)}`, manifestFiles, 'deps'));
+  } else if (changedDependencies.length > 0 && removedDependencies.length === changedDependencies.length) {
+    signals.push(
+      signal('dependency-removed', 'remove-dep', 5, `Dependencies removed: ${listed(removedDependencies)}`, manifestFiles, 'deps')
+    );
+  } else if (changedDependencies.length > 0) {
+    signals.push(signal('dependency-versions', 'deps', 5, `Dependency versions changed: ${listed(changedDependencies)}`, manifestFiles));
+  }
+
+  // Test cases added anywhere
+  const testFiles = patch.filter(file => file.added.some(line => TEST_CASE_PATTERN.test(line))).map(file => file.path);
+  if (testFiles.length > 0) {
+    signals.push(signal('test-cases', 'test', 2, 'New test cases added', testFiles));
+  }
+
+  // Formatting and comment-only edits, weighted by the share of source files they cover
+  const changedSource = source.filter(file => file.added.length + file.removed.length > 0);
+  if (changedSource.length > 0) {
+    const whitespaceOnly = changedSource.filter(isWhitespaceOnly).map(file => file.path);
+    if (whitespaceOnly.length > 0) {
+      signals.push(
+        signal('whitespace-only', 'style', 6 * (whitespaceOnly.length / changedSource.length), 'Only whitespace or formatting changed', whitespaceOnly)
+      );
+    }
+
+    const commentOnly = changedSource.filter(isCommentOnly).map(file => file.path);
+    if (commentOnly.length > 0) {
+      signals.push(
+        signal('comment-only', 'docs', 6 * (commentOnly.length / changedSource.length), 'Only comments changed', commentOnly)
+      );
+    }
+  }
+
+  const securityFiles = matchingFiles(source, SECURITY_PATTERN);
+  if (securityFiles.length > 0) {
+    signals.push(signal('security-patterns', 'security', 3, 'Security-related code changed (sanitizing, crypto, auth checks)', securityFiles));
+  }
+
+  const deprecationFiles = matchingFiles(patch, DEPRECATION_PATTERN);
+  if (deprecationFiles.length > 0) {
+    signals.push(signal('deprecations', 'deprecate', 4, 'Deprecation markers added', deprecationFiles));
+  }
+
+  const perfFiles = matchingFiles(source, PERF_PATTERN);
+  if (perfFiles.length > 0) {
+    signals.push(signal('perf-patterns', 'perf', 2, 'Caching, memoization or batching introduced', perfFiles));
+  }
+
+  const guardFiles = matchingFiles(source.filter(file => file.status === 'modified'), GUARD_PATTERN);
+  if (guardFiles.length > 0) {
+    signals.push(signal('guards', 'fix', 2, 'Null checks, guards or error handling added to existing code', guardFiles));
+  }
+
+  return signals;
+}
+
+/**
+ * Signals derived from the size and balance of the change
+ */
+function detectSizeSignals(stats: DiffStats): SuggestionSignal[] {
+  const { additions, deletions } = stats;
+  const ratio = deletions > 0 ? additions / deletions : additions > 0 ? 10 : 0;
+  const signals: SuggestionSignal[] = [];
+
+  if (ratio > 2 && additions > 50) {
+    signals.push(signal('mostly-additions', 'feat', 2, `Significant additions (${additions} lines added vs ${deletions} deleted)`));
+  }
+  if (ratio > 0.7 && ratio < 1.3 && additions + deletions > 100) {
+    signals.push(signal('balanced-changes', 'refactor', 2, `Balanced changes (${additions} added, ${deletions} deleted)`));
+  }
+  if (additions + deletions < 50) {
+    signals.push(signal('small-change', 'fix', 1, 'Small change'));
+  }
+
+  return signals;
+}
+
+/**
+ * Collect every signal for a change set, strongest first
+ */
+export function detectSignals(changes: ChangeSet): SuggestionSignal[] {
+  return [
+    ...detectPathSignals(changes.stats.files),
+    ...detectContentSignals(changes.patch),
+    ...detectSizeSignals(changes.stats),
+  ].sort((a, b) => b.weight - a.weight);
+}
+
+/**
+ * Point signals whose type is missing from the catalog at their fallback type, so the
+ * built-in catalog still benefits from the finer-grained gitmoji signals
+ */
+export function resolveSignals(signals: SuggestionSignal[], types: CommitTypeCatalog): SuggestionSignal[] {
+  return signals.map(({ fallback, ...item }) =>
+    !getTypeInfo(types, item.type) && fallback && getTypeInfo(types, fallback) ? { ...item, type: fallback } : { ...item }
+  );
+}
+
+/**
+ * Sum signal weights per commit type, ignoring types missing from the catalog
+ */
+export function scoreSignals(signals: SuggestionSignal[], types: CommitTypeCatalog): Map<CommitType, number> {
+  const scores = new Map<CommitType, number>();
+
+  for (const item of signals) {
+    if (getTypeInfo(types, item.type)) {
+      scores.set(item.type, Math.round(((scores.get(item.type) ?? 0) + item.weight) * 10) / 10);
+    }
+  }
+
+  return scores;
+}
+
+function getConfidence(top: number, runnerUp: number): SuggestionResult['confidence'] {
+  if (top >= 5 && top - runnerUp >= 2) {
+    return 'high';
+  }
+  return top >= 3 ? 'medium' : 'low';
+}
+
+function describeType(type: CommitType, signals: SuggestionSignal[]): string {
+  return signals
+    .filter(item => item.type === type)
+    .map(item => item.description)
+    .join('; ');
+}
+
+function getFallbackType(types: CommitTypeCatalog): CommitType {
+  return types.feat ? 'feat' : Object.keys(types)[0];
+}
+
+/**
+ * Classify one staged file on its own
+ */
+export function classifyFile(file: PatchFile, types: CommitTypeCatalog): FileClassification {
+  const stats: DiffStats = {
+    additions: file.added.length,
+    deletions: file.removed.length,
+    files: [file.path],
+  };
+  const signals = resolveSignals(detectSignals({ stats, patch: [file] }), types);
+  const ranked = [...scoreSignals(signals, types).entries()].sort((a, b) => b[1] - a[1]);
+
+  if (ranked.length === 0) {
+    const type = getFallbackType(types);
+    return { path: file.path, type, emoji: types[type].emoji, score: 0, reason: 'No specific signal' };
+  }
+
+  const [type, score] = ranked[0];
+  return { path: file.path, type, emoji: types[type].emoji, score, reason: describeType(type, signals) };
+}
+
+/**
+ * Flag staged sets whose files point to different primary types. Tests and docs
+ * accompanying a change do not count as a separate concern.
+ */
+function detectMixedConcerns(files: FileClassification[]): { mixed: boolean; mixedReason?: string } {
+  const byType = new Map<CommitType, string[]>();
+  for (const file of files.filter(item => !SUPPORTING_TYPES.has(item.type))) {
+    byType.set(file.type, [...(byType.get(file.type) ?? []), file.path]);
+  }
+
+  if (byType.size < 2) {
+    return { mixed: false };
+  }
+
+  const groups = [...byType.entries()].map(([type, paths]) => {
+    const shown = paths.slice(0, 2).join(', ') + (paths.length > 2 ? `, +${paths.length - 2} more` : '');
+    return `${type} (${shown})`;
+  });
+
+  return {
+    mixed: true,
+    mixedReason: `Staged files look like ${byType.size} different kinds of change: ${groups.join('; ')}. Consider splitting them into separate commits.`,
+  };
+}
+
+/**
+ * Suggest a commit type from weighted signals, with ranked alternatives and a per-file breakdown
+ */
+export function analyzeChanges(
+  changes: ChangeSet,
+  types: CommitTypeCatalog,
+  options: SuggestionOptions = {}
+): SuggestionResult {
+  const signals = resolveSignals(detectSignals(changes), types);
+  const ranked = [...scoreSignals(signals, types).entries()].sort((a, b) => b[1] - a[1]);
+  const files = changes.patch.map(file => classifyFile(file, types));
+  const { mixed, mixedReason } = detectMixedConcerns(files);
+
+  const candidates: TypeCandidate[] = ranked.slice(0, options.maxCandidates ?? 3).map(([type, score]) => ({
+    type,
+    emoji: types[type].emoji,
+    score,
+    reason: describeType(type, signals),
+  }));
+
+  if (ranked.length === 0) {
+    const fallback = getFallbackType(types);
+    return {
+      type: fallback,
+      emoji: types[fallback].emoji,
+      reason: `Unable to determine specific type, defaulting to ${fallback}`,
+      confidence: 'low',
+      score: 0,
+      signals,
+      candidates,
+      files,
+      mixed,
+      mixedReason,
+    };
+  }
+
+  const [type, score] = ranked[0];
+  const runnerUp = ranked[1]?.[1] ?? 0;
+
+  return {
+    type,
+    emoji: types[type].emoji,
+    reason: describeType(type, signals),
+    confidence: mixed ? 'low' : getConfidence(score, runnerUp),
+    score,
+    signals,
+    candidates,
+    files,
+    mixed,
+    mixedReason,
+  };
+}
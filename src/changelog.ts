@@ -0,0 +1,126 @@
+import { DEFAULT_CONFIG } from './config.js';
+import { CommitInfo, GitmojiConfig, getTypeInfo } from './types.js';
+import { extractBreakingNote, getConventionalType, isBreakingCommit, parseCommitMessage } from './utils.js';
+
+/**
+ * A single line in the changelog
+ */
+export interface ChangelogEntry {
+  hash: string;
+  shortHash: string;
+  type?: string;
+  scope?: string;
+  title: string;
+  breakingNote?: string;
+}
+
+/**
+ * Entries grouped under one commit type heading
+ */
+export interface ChangelogSection {
+  type: string;
+  title: string;
+  entries: ChangelogEntry[];
+}
+
+/**
+ * Commits grouped for rendering
+ */
+export interface Changelog {
+  breaking: ChangelogEntry[];
+  sections: ChangelogSection[];
+  other: ChangelogEntry[];
+}
+
+const OTHER_TITLE = 'Other';
+const BREAKING_TITLE = 'Breaking Changes';
+
+/**
+ * Group commits by the catalog type titles. Types mapped to a conventional type that is in
+ * the catalog are listed under it (e.g. `hotfix` under `fix`). Commits that do not parse,
+ * or whose type is not in the catalog, go into the "Other" bucket.
+ */
+export function buildChangelog(commits: CommitInfo[], config: GitmojiConfig = DEFAULT_CONFIG): Changelog {
+  const grouped = new Map<string, ChangelogEntry[]>();
+  const breaking: ChangelogEntry[] = [];
+  const other: ChangelogEntry[] = [];
+
+  for (const commit of commits) {
+    const parsed = parseCommitMessage(commit.message, config);
+    const subject = commit.message.split('\n')[0];
+
+    if (!parsed || !parsed.type || !parsed.title || !getTypeInfo(config.types, parsed.type)) {
+      other.push({ hash: commit.hash, shortHash: commit.shortHash, title: subject });
+      continue;
+    }
+
+    const entry: ChangelogEntry = {
+      hash: commit.hash,
+      shortHash: commit.shortHash,
+      type: parsed.type,
+      scope: parsed.scope,
+      title: parsed.title,
+      breakingNote: parsed.breakingChange ?? extractBreakingNote(parsed.description),
+    };
+
+    if (isBreakingCommit(parsed)) {
+      breaking.push(entry);
+    }
+
+    const conventional = getConventionalType(parsed.type, config.types);
+    const section = getTypeInfo(config.types, conventional) ? conventional : parsed.type;
+
+    // The "breaking" type already has a dedicated section
+    if (section === 'breaking') {
+      continue;
+    }
+
+    const entries = grouped.get(section) ?? [];
+    entries.push(entry);
+    grouped.set(section, entries);
+  }
+
+  // Keep section order stable by following the catalog order
+  const sections: ChangelogSection[] = Object.entries(config.types)
+    .filter(([type]) => grouped.has(type))
+    .map(([type, info]) => ({ type, title: info.title, entries: grouped.get(type)! }));
+
+  return { breaking, sections, other };
+}
+
+function renderEntry(entry: ChangelogEntry, text: string): string {
+  const scope = entry.scope ? `**${entry.scope}:** ` : '';
+  return `- ${scope}${text.replace(/\s*\n\s*/g, ' ')} (${entry.shortHash})`;
+}
+
+/**
+ * Render a changelog as Markdown
+ */
+export function renderChangelog(changelog: Changelog, heading?: string): string {
+  const parts: string[] = [];
+
+  if (heading) {
+    parts.push(`## ${heading}`);
+  }
+
+  if (changelog.breaking.length > 0) {
+    const lines = changelog.breaking.map(entry => renderEntry(entry, entry.breakingNote ?? entry.title));
+    parts.push(`### ${BREAKING_TITLE}\n\n${lines.join('\n')}`);
+  }
+
+  for (const section of changelog.sections) {
+    const lines = section.entries.map(entry => renderEntry(entry, entry.title));
+    parts.push(`### ${section.title}\n\n${lines.join('\n')}`);
+  }
+
+  if (changelog.other.length > 0) {
+    const lines = changelog.other.map(entry => renderEntry(entry, entry.title));
+    parts.push(`### ${OTHER_TITLE}\n\n${lines.join('\n')}`);
+  }
+
+  if (parts.length === (heading ? 1 : 0)) {
+    parts.push('_No changes._');
+  }
+
+  return parts.join('\n\n') + '\n';
+}
@@ -0,0 +1,341 @@
+import { readFile, writeFile } from 'node:fs/promises';
+import { parseArgs } from 'node:util';
+import { createCommit, getRepoConfig, hasStagedChanges, suggestCommitType } from './git.js';
+import type { GitOperationOptions } from './git.js';
+import { MESSAGE_CONVENTIONS } from './config.js';
+import { CommitParams, EmojiFormat, GitmojiConfig, MessageConvention, Trailer, ValidationResult } from './types.js';
+import { formatCommitMessage, validateCommitMessage } from './utils.js';
+import { GitmojiError, getErrorCode } from './errors.js';
+import { enforceCommitGuards } from './guards.js';
+
+/**
+ * Process exit codes used by the CLI
+ */
+export const EXIT_OK = 0;
+export const EXIT_FAILURE = 1;
+export const EXIT_USAGE = 2;
+
+/**
+ * Error in the command line itself, reported with usage help
+ */
+class UsageError extends Error {}
+
+const USAGE = `Usage: gitmoji-commit-mcp [command] [options]
+
+Without a command the MCP server is started on stdio.
+
+Commands:
+  validate [message]   Validate a commit message (from argument, --file or stdin)
+  suggest              Suggest a commit type for the staged changes
+  format               Print a formatted commit message
+  commit               Create a commit from the staged changes
+  prefill --file <path>  Pre-fill an empty message file with the suggested emoji and type
+                         (used by the prepare-commit-msg hook)
+  help                 Show this help
+
+Options:
+  --file <path>          Read the message to validate from a file (e.g. .git/COMMIT_EDITMSG)
+  --type <type>          Commit type (format, commit)
+  --title <title>        Commit title (format, commit)
+  --scope <scope>        Optional scope (format, commit)
+  --description <text>   Optional body (format, commit)
+  --breaking             Mark as breaking change (format, commit)
+  --breaking-change <text>  Add a BREAKING CHANGE footer (format, commit)
+  --ref <issue>          Add a Refs trailer, repeatable (format, commit)
+  --closes <issue>       Add a Closes trailer, repeatable (format, commit)
+  --co-author <identity> Add a Co-authored-by trailer, "Name <email>", repeatable (format, commit)
+  --signoff <identity>   Add a Signed-off-by trailer, "Name <email>", repeatable (format, commit)
+  --trailer <key: value> Add any other trailer, repeatable (format, commit)
+  --emoji-format <format>  unicode or shortcode, overrides the repository config (format, commit)
+  --convention <name>    emoji-conventional, conventional, gitmoji or conventional-emoji-after-colon,
+                         overrides the repository config (validate, suggest, format, commit)
+  --allow-detached-head  Commit even though HEAD is detached (commit)
+  --allow-protected-branch  Commit even though the branch is protected (commit)
+  --allow-conflict-markers  Commit even though conflict markers are staged (commit)
+  --allow-large-files    Commit even though staged files exceed the size limit (commit)
+  --repo <path>          Path to the git repository
+  --json                 Print machine-readable JSON
+`;
+
+const OPTIONS = {
+  file: { type: 'string' },
+  type: { type: 'string' },
+  title: { type: 'string' },
+  scope: { type: 'string' },
+  description: { type: 'string' },
+  breaking: { type: 'boolean' },
+  'breaking-change': { type: 'string' },
+  ref: { type: 'string', multiple: true },
+  closes: { type: 'string', multiple: true },
+  'co-author': { type: 'string', multiple: true },
+  signoff: { type: 'string', multiple: true },
+  trailer: { type: 'string', multiple: true },
+  'emoji-format': { type: 'string' },
+  convention: { type: 'string' },
+  'allow-detached-head': { type: 'boolean' },
+  'allow-protected-branch': { type: 'boolean' },
+  'allow-conflict-markers': { type: 'boolean' },
+  'allow-large-files': { type: 'boolean' },
+  repo: { type: 'string' },
+  json: { type: 'boolean' },
+  help: { type: 'boolean', short: 'h' },
+} as const;
+
+type CliValues = ReturnType<typeof parseArgs<{ options: typeof OPTIONS; allowPositionals: true }>>['values'];
+
+function print(json: boolean | undefined, data: unknown, text: string): void {
+  console.log(json ? JSON.stringify(data, null, 2) : text);
+}
+
+function formatValidation(result: ValidationResult): string {
+  let text = result.valid ? '✅ Commit message is valid!' : '❌ Commit message has issues:';
+
+  result.issues.forEach((issue, i) => {
+    text += `\n${i + 1}. ${issue}`;
+  });
+
+  if (result.warnings && result.warnings.length > 0) {
+    text += '\n⚠️  Warnings:';
+    result.warnings.forEach((warning, i) => {
+      text += `\n${i + 1}. ${warning}`;
+    });
+  }
+
+  return text;
+}
+
+const SCISSORS_LINE = '# ------------------------ >8 ------------------------';
+
+/**
+ * Strip comment lines and the verbose diff git adds to the message file, and surrounding whitespace
+ */
+function cleanMessageFile(content: string): string {
+  const scissors = content.indexOf(SCISSORS_LINE);
+  const message = scissors === -1 ? content : content.substring(0, scissors);
+
+  return message
+    .split('\n')
+    .filter(line => !line.startsWith('#'))
+    .join('\n')
+    .trim();
+}
+
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+function parseTrailerOption(option: string): Trailer {
+  const match = /^([^:=]+)[:=]\s*(.*)$/.exec(option);
+
+  if (!match) {
+    throw new UsageError(`Invalid --trailer "${option}", expected "Key: value"`);
+  }
+
+  return { key: match[1].trim(), value: match[2] };
+}
+
+function getCommitParams(values: CliValues): CommitParams {
+  if (!values.type || !values.title) {
+    throw new UsageError('--type and --title are required');
+  }
+
+  return {
+    type: values.type,
+    scope: values.scope,
+    title: values.title,
+    description: values.description,
+    breaking: values.breaking || false,
+    breakingChange: values['breaking-change'],
+    refs: values.ref,
+    closes: values.closes,
+    coAuthors: values['co-author'],
+    signedOffBy: values.signoff,
+    trailers: values.trailer?.map(parseTrailerOption),
+  };
+}
+
+/**
+ * Repository config with --convention and --emoji-format applied
+ */
+async function getConfig(values: CliValues, gitOptions: GitOperationOptions): Promise<GitmojiConfig> {
+  const config = await getRepoConfig(gitOptions);
+  const convention = values.convention;
+  const format = values['emoji-format'];
+
+  if (convention !== undefined && !MESSAGE_CONVENTIONS.includes(convention as MessageConvention)) {
+    throw new UsageError(`--convention must be one of: ${MESSAGE_CONVENTIONS.join(', ')}`);
+  }
+  if (format !== undefined && format !== 'unicode' && format !== 'shortcode') {
+    throw new UsageError('--emoji-format must be unicode or shortcode');
+  }
+
+  return {
+    ...config,
+    convention: (convention as MessageConvention | undefined) ?? config.convention,
+    rules: { ...config.rules, emojiFormat: (format as EmojiFormat | undefined) ?? config.rules.emojiFormat },
+  };
+}
+
+async function runValidate(values: CliValues, positionals: string[], gitOptions: GitOperationOptions): Promise<number> {
+  let message: string;
+
+  if (values.file) {
+    message = cleanMessageFile(await readFile(values.file, 'utf8'));
+  } else if (positionals.length > 0) {
+    message = positionals.join(' ');
+  } else if (!process.stdin.isTTY) {
+    message = cleanMessageFile(await readStdin());
+  } else {
+    throw new UsageError('Provide a message, --file <path> or pipe the message on stdin');
+  }
+
+  const config = await getConfig(values, gitOptions);
+  const result = validateCommitMessage(message, config);
+  print(values.json, result, formatValidation(result));
+
+  return result.valid ? EXIT_OK : EXIT_FAILURE;
+}
+
+async function runSuggest(values: CliValues, gitOptions: GitOperationOptions): Promise<number> {
+  const config = await getConfig(values, gitOptions);
+  const suggestion = await suggestCommitType(gitOptions, config);
+
+  print(
+    values.json,
+    suggestion,
+    [
+      `${suggestion.emoji} ${suggestion.type} (confidence: ${suggestion.confidence})`,
+      suggestion.reason,
+      ...(suggestion.scope?.scope ? [`scope: ${suggestion.scope.scope}`] : []),
+    ].join('\n')
+  );
+
+  return EXIT_OK;
+}
+
+async function runFormat(values: CliValues, gitOptions: GitOperationOptions): Promise<number> {
+  const config = await getConfig(values, gitOptions);
+  const message = formatCommitMessage(getCommitParams(values), config);
+
+  print(values.json, { message }, message);
+
+  return EXIT_OK;
+}
+
+async function runCommit(values: CliValues, gitOptions: GitOperationOptions): Promise<number> {
+  const params = getCommitParams(values);
+  const config = await getConfig(values, gitOptions);
+
+  if (!(await hasStagedChanges(gitOptions))) {
+    throw new GitmojiError('NO_STAGED_CHANGES', 'No staged changes found. Please stage your changes first with git add.');
+  }
+
+  const message = formatCommitMessage(params, config);
+  const validation = validateCommitMessage(message, config);
+  if (!validation.valid) {
+    print(values.json, validation, formatValidation(validation));
+    return EXIT_FAILURE;
+  }
+
+  const guards = await enforceCommitGuards(
+    config,
+    {
+      allowDetachedHead: values['allow-detached-head'],
+      allowProtectedBranch: values['allow-protected-branch'],
+      allowConflictMarkers: values['allow-conflict-markers'],
+      allowLargeFiles: values['allow-large-files'],
+    },
+    gitOptions
+  );
+
+  const hash = await createCommit(message, gitOptions);
+  print(
+    values.json,
+    { hash, message, warnings: validation.warnings ?? [], guards },
+    [`✅ Commit created: ${hash}\n\n${message}`, ...guards.map(finding => `⚠️  ${finding.message}`)].join('\n\n')
+  );
+
+  return EXIT_OK;
+}
+
+async function runPrefill(values: CliValues, gitOptions: GitOperationOptions): Promise<number> {
+  if (!values.file) {
+    throw new UsageError('--file is required');
+  }
+
+  const content = await readFile(values.file, 'utf8');
+
+  // Leave messages that already have content (templates with text, -m, etc.) alone
+  if (cleanMessageFile(content).length > 0) {
+    return EXIT_OK;
+  }
+
+  const config = await getConfig(values, gitOptions);
+  const suggestion = await suggestCommitType(gitOptions, config);
+  const prefix = suggestion.prefix ?? '';
+
+  await writeFile(values.file, `${prefix}\n${content.replace(/^\n/, '')}`, 'utf8');
+  print(values.json, { prefix, suggestion }, prefix);
+
+  return EXIT_OK;
+}
+
+/**
+ * Run a CLI command and return the process exit code
+ */
+export async function runCli(argv: string[]): Promise<number> {
+  let values: CliValues;
+  let positionals: string[];
+
+  try {
+    ({ values, positionals } = parseArgs({ args: argv, options: OPTIONS, allowPositionals: true }));
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : String(error));
+    console.error(USAGE);
+    return EXIT_USAGE;
+  }
+
+  const [command, ...rest] = positionals;
+
+  if (values.help || command === 'help' || command === undefined) {
+    console.log(USAGE);
+    return command === undefined && !values.help ? EXIT_USAGE : EXIT_OK;
+  }
+
+  const gitOptions: GitOperationOptions = { repoPath: values.repo };
+
+  try {
+    switch (command) {
+      case 'validate':
+        return await runValidate(values, rest, gitOptions);
+      case 'suggest':
+        return await runSuggest(values, gitOptions);
+      case 'format':
+        return await runFormat(values, gitOptions);
+      case 'commit':
+        return await runCommit(values, gitOptions);
+      case 'prefill':
+        return await runPrefill(values, gitOptions);
+      default:
+        throw new UsageError(`Unknown command: ${command}`);
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+
+    if (error instanceof UsageError) {
+      console.error(`${message}\n\n${USAGE}`);
+      return EXIT_USAGE;
+    }
+
+    if (values.json) {
+      console.log(JSON.stringify({ error: message, code: getErrorCode(error) }, null, 2));
+    } else {
+      console.error(`Error: ${message}`);
+    }
+    return EXIT_FAILURE;
+  }
+}
@@ -0,0 +1,468 @@
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+import { CATALOG_PRESETS } from './presets.js';
+import {
+  BuiltinCommitType,
+  CatalogPreset,
+  CommitRules,
+  CommitTypeCatalog,
+  CommitTypeInfo,
+  COMMIT_TYPES,
+  EmojiFormat,
+  GitmojiConfig,
+  GuardLevel,
+  GuardSettings,
+  MessageConvention,
+  LintSettings,
+  ReleaseSettings,
+  SecretAllowlist,
+  SpecialCommitHandling,
+  VersionBump,
+  VersioningRules,
+  getTypeInfo,
+} from './types.js';
+import { GitmojiError } from './errors.js';
+
+/**
+ * Config file names looked up in the repository root, in order of precedence
+ */
+export const CONFIG_FILE_NAMES = ['.gitmojirc.json', '.gitmojirc'];
+
+/**
+ * Key used for inline configuration inside package.json
+ */
+export const PACKAGE_JSON_KEY = 'gitmoji';
+
+const PACKAGE_JSON_SECTION = new RegExp(`"${PACKAGE_JSON_KEY}"\\s*:`);
+
+const TYPE_NAME_PATTERN = /^[a-z][a-z0-9-]*$/;
+const SHORTCODE_PATTERN = /^:[a-z0-9_+-]+:$/;
+
+export const DEFAULT_RULES: CommitRules = {
+  titleMaxLength: 50,
+  bodyMaxLineLength: 72,
+  requireScope: false,
+  emojiFormat: 'unicode',
+};
+
+export const DEFAULT_VERSIONING: VersioningRules = {
+  bumps: {
+    breaking: 'major',
+    feat: 'minor',
+  },
+  defaultBump: 'patch',
+  tagPrefix: 'v',
+};
+
+export const DEFAULT_RELEASE: ReleaseSettings = {
+  manifests: ['package.json'],
+  changelogFile: 'CHANGELOG.md',
+};
+
+export const DEFAULT_LINT: LintSettings = {
+  merges: 'skip',
+  fixups: 'fail',
+  reverts: 'skip',
+};
+
+export const DEFAULT_GUARDS: GuardSettings = {
+  detachedHead: 'error',
+  operationInProgress: 'error',
+  protectedBranch: 'error',
+  protectedBranches: [],
+  conflictMarkers: 'error',
+  largeFiles: 'error',
+  maxFileSize: 5 * 1024 * 1024,
+  secrets: 'error',
+  secretAllowlist: { paths: [], patterns: [] },
+};
+
+/**
+ * Conventions a repository or a single call can select
+ */
+export const MESSAGE_CONVENTIONS: MessageConvention[] = [
+  'emoji-conventional',
+  'conventional',
+  'gitmoji',
+  'conventional-emoji-after-colon',
+];
+
+export const DEFAULT_CONFIG: GitmojiConfig = {
+  preset: 'default',
+  convention: 'emoji-conventional',
+  types: { ...COMMIT_TYPES },
+  rules: { ...DEFAULT_RULES },
+  versioning: { ...DEFAULT_VERSIONING, bumps: { ...DEFAULT_VERSIONING.bumps } },
+  release: { ...DEFAULT_RELEASE, manifests: [...DEFAULT_RELEASE.manifests] },
+  lint: { ...DEFAULT_LINT },
+  guards: copyGuards(DEFAULT_GUARDS),
+};
+
+const VERSION_BUMPS: VersionBump[] = ['major', 'minor', 'patch', 'none'];
+const SPECIAL_COMMIT_HANDLING: SpecialCommitHandling[] = ['skip', 'validate', 'fail'];
+const EMOJI_FORMATS: EmojiFormat[] = ['unicode', 'shortcode'];
+const GUARD_LEVELS: GuardLevel[] = ['error', 'warn', 'off'];
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+}
+
+function readOptionalString(record: Record<string, unknown>, key: string, where: string): string | undefined {
+  const value = record[key];
+  if (value === undefined) {
+    return undefined;
+  }
+
+  if (typeof value !== 'string' || value.trim().length === 0) {
+    throw new GitmojiError('INVALID_CONFIG', `${where}: "${key}" must be a non-empty string`);
+  }
+
+  return value;
+}
+
+function mergeTypes(base: CommitTypeCatalog, overrides: unknown, source: string): CommitTypeCatalog {
+  if (!isRecord(overrides)) {
+    throw new GitmojiError('INVALID_CONFIG', `${source}: "types" must be an object`);
+  }
+
+  const types: CommitTypeCatalog = { ...base };
+
+  for (const [name, value] of Object.entries(overrides)) {
+    const where = `${source}: type "${name}"`;
+
+    if (!TYPE_NAME_PATTERN.test(name)) {
+      throw new GitmojiError('INVALID_CONFIG', `${where} must be lowercase letters, digits or dashes and start with a letter`);
+    }
+
+    // `false` or `null` removes the type from the catalog
+    if (value === false || value === null) {
+      delete types[name];
+      continue;
+    }
+
+    if (!isRecord(value)) {
+      throw new GitmojiError('INVALID_CONFIG', `${where} must be an object, false or null`);
+    }
+
+    const existing = getTypeInfo(types, name);
+    const emoji = readOptionalString(value, 'emoji', where);
+    const title = readOptionalString(value, 'title', where);
+    const description = readOptionalString(value, 'description', where);
+    const code = readOptionalString(value, 'code', where);
+    const conventional = readOptionalString(value, 'conventional', where);
+
+    if (!existing && !emoji) {
+      throw new GitmojiError('INVALID_CONFIG', `${where} is new and must define an "emoji"`);
+    }
+
+    if (code && !SHORTCODE_PATTERN.test(code)) {
+      throw new GitmojiError('INVALID_CONFIG', `${where}: "code" must be a shortcode such as ":sparkles:"`);
+    }
+
+    if (conventional && !getTypeInfo(COMMIT_TYPES, conventional)) {
+      throw new GitmojiError('INVALID_CONFIG', `${where}: "conventional" must be one of: ${Object.keys(COMMIT_TYPES).join(', ')}`);
+    }
+
+    const merged: CommitTypeInfo = {
+      // New types were required to define an emoji above
+      emoji: emoji ?? existing!.emoji,
+      // A new emoji makes the built-in shortcode stale
+      code: code ?? (emoji ? undefined : existing?.code),
+      title: title ?? existing?.title ?? name.charAt(0).toUpperCase() + name.slice(1),
+      description: description ?? existing?.description ?? '',
+      conventional: (conventional as BuiltinCommitType | undefined) ?? existing?.conventional,
+    };
+
+    types[name] = merged;
+  }
+
+  if (Object.keys(types).length === 0) {
+    throw new GitmojiError('INVALID_CONFIG', `${source}: configuration removes every commit type`);
+  }
+
+  return types;
+}
+
+function mergeRules(base: CommitRules, overrides: unknown, source: string): CommitRules {
+  if (!isRecord(overrides)) {
+    throw new GitmojiError('INVALID_CONFIG', `${source}: "rules" must be an object`);
+  }
+
+  const rules: CommitRules = { ...base };
+
+  for (const key of ['titleMaxLength', 'bodyMaxLineLength'] as const) {
+    const value = overrides[key];
+    if (value === undefined) {
+      continue;
+    }
+    if (typeof value !== 'number' || !Number.isInteger(value) || value <= 0) {
+      throw new GitmojiError('INVALID_CONFIG', `${source}: rule "${key}" must be a positive integer`);
+    }
+    rules[key] = value;
+  }
+
+  if (overrides.requireScope !== undefined) {
+    if (typeof overrides.requireScope !== 'boolean') {
+      throw new GitmojiError('INVALID_CONFIG', `${source}: rule "requireScope" must be a boolean`);
+    }
+    rules.requireScope = overrides.requireScope;
+  }
+
+  if (overrides.emojiFormat !== undefined) {
+    if (typeof overrides.emojiFormat !== 'string' || !EMOJI_FORMATS.includes(overrides.emojiFormat as EmojiFormat)) {
+      throw new GitmojiError('INVALID_CONFIG', `${source}: rule "emojiFormat" must be one of: ${EMOJI_FORMATS.join(', ')}`);
+    }
+    rules.emojiFormat = overrides.emojiFormat as EmojiFormat;
+  }
+
+  return rules;
+}
+
+function readBump(value: unknown, where: string): VersionBump {
+  if (typeof value !== 'string' || !VERSION_BUMPS.includes(value as VersionBump)) {
+    throw new GitmojiError('INVALID_CONFIG', `${where} must be one of: ${VERSION_BUMPS.join(', ')}`);
+  }
+  return value as VersionBump;
+}
+
+function mergeVersioning(base: VersioningRules, overrides: unknown, source: string): VersioningRules {
+  if (!isRecord(overrides)) {
+    throw new GitmojiError('INVALID_CONFIG', `${source}: "versioning" must be an object`);
+  }
+
+  const versioning: VersioningRules = { ...base, bumps: { ...base.bumps } };
+
+  if (overrides.bumps !== undefined) {
+    if (!isRecord(overrides.bumps)) {
+      throw new GitmojiError('INVALID_CONFIG', `${source}: "versioning.bumps" must be an object`);
+    }
+    for (const [type, bump] of Object.entries(overrides.bumps)) {
+      versioning.bumps[type] = readBump(bump, `${source}: "versioning.bumps.${type}"`);
+    }
+  }
+
+  if (overrides.defaultBump !== undefined) {
+    versioning.defaultBump = readBump(overrides.defaultBump, `${source}: "versioning.defaultBump"`);
+  }
+
+  if (overrides.tagPrefix !== undefined) {
+    if (typeof overrides.tagPrefix !== 'string') {
+      throw new GitmojiError('INVALID_CONFIG', `${source}: "versioning.tagPrefix" must be a string`);
+    }
+    versioning.tagPrefix = overrides.tagPrefix;
+  }
+
+  return versioning;
+}
+
+function mergeRelease(base: ReleaseSettings, overrides: unknown, source: string): ReleaseSettings {
+  if (!isRecord(overrides)) {
+    throw new GitmojiError('INVALID_CONFIG', `${source}: "release" must be an object`);
+  }
+
+  const release: ReleaseSettings = { ...base, manifests: [...base.manifests] };
+
+  if (overrides.manifests !== undefined) {
+    if (!Array.isArray(overrides.manifests) || overrides.manifests.some(item => typeof item !== 'string')) {
+      throw new GitmojiError('INVALID_CONFIG', `${source}: "release.manifests" must be an array of file paths`);
+    }
+    release.manifests = overrides.manifests as string[];
+  }
+
+  const changelogFile = readOptionalString(overrides, 'changelogFile', `${source}: "release"`);
+  if (changelogFile) {
+    release.changelogFile = changelogFile;
+  }
+
+  return release;
+}
+
+function mergeLint(base: LintSettings, overrides: unknown, source: string): LintSettings {
+  if (!isRecord(overrides)) {
+    throw new GitmojiError('INVALID_CONFIG', `${source}: "lint" must be an object`);
+  }
+
+  const lint: LintSettings = { ...base };
+
+  for (const key of ['merges', 'fixups', 'reverts'] as const) {
+    const value = overrides[key];
+    if (value === undefined) {
+      continue;
+    }
+    if (typeof value !== 'string' || !SPECIAL_COMMIT_HANDLING.includes(value as SpecialCommitHandling)) {
+      throw new GitmojiError('INVALID_CONFIG', `${source}: "lint.${key}" must be one of: ${SPECIAL_COMMIT_HANDLING.join(', ')}`);
+    }
+    lint[key] = value as SpecialCommitHandling;
+  }
+
+  return lint;
+}
+
+function copyGuards(guards: GuardSettings): GuardSettings {
+  return {
+    ...guards,
+    protectedBranches: [...guards.protectedBranches],
+    secretAllowlist: { paths: [...guards.secretAllowlist.paths], patterns: [...guards.secretAllowlist.patterns] },
+  };
+}
+
+function mergeSecretAllowlist(base: SecretAllowlist, overrides: unknown, source: string): SecretAllowlist {
+  if (!isRecord(overrides)) {
+    throw new GitmojiError('INVALID_CONFIG', `${source}: "guards.secretAllowlist" must be an object`);
+  }
+
+  const allowlist: SecretAllowlist = { paths: [...base.paths], patterns: [...base.patterns] };
+
+  if (overrides.paths !== undefined) {
+    if (!Array.isArray(overrides.paths) || overrides.paths.some(item => typeof item !== 'string')) {
+      throw new GitmojiError('INVALID_CONFIG', `${source}: "guards.secretAllowlist.paths" must be an array of path globs`);
+    }
+    allowlist.paths = overrides.paths as string[];
+  }
+
+  if (overrides.patterns !== undefined) {
+    if (!Array.isArray(overrides.patterns) || overrides.patterns.some(item => typeof item !== 'string')) {
+      throw new GitmojiError('INVALID_CONFIG', `${source}: "guards.secretAllowlist.patterns" must be an array of regular expressions`);
+    }
+    for (const pattern of overrides.patterns as string[]) {
+      try {
+        new RegExp(pattern);
+      } catch (error) {
+        throw new GitmojiError('INVALID_CONFIG', `${source}: invalid pattern in "guards.secretAllowlist.patterns": ${pattern} (${error})`);
+      }
+    }
+    allowlist.patterns = overrides.patterns as string[];
+  }
+
+  return allowlist;
+}
+
+function mergeGuards(base: GuardSettings, overrides: unknown, source: string): GuardSettings {
+  if (!isRecord(overrides)) {
+    throw new GitmojiError('INVALID_CONFIG', `${source}: "guards" must be an object`);
+  }
+
+  const guards = copyGuards(base);
+
+  for (const key of ['detachedHead', 'operationInProgress', 'protectedBranch', 'conflictMarkers', 'largeFiles', 'secrets'] as const) {
+    const value = overrides[key];
+    if (value === undefined) {
+      continue;
+    }
+    if (typeof value !== 'string' || !GUARD_LEVELS.includes(value as GuardLevel)) {
+      throw new GitmojiError('INVALID_CONFIG', `${source}: "guards.${key}" must be one of: ${GUARD_LEVELS.join(', ')}`);
+    }
+    guards[key] = value as GuardLevel;
+  }
+
+  if (overrides.protectedBranches !== undefined) {
+    if (!Array.isArray(overrides.protectedBranches) || overrides.protectedBranches.some(item => typeof item !== 'string')) {
+      throw new GitmojiError('INVALID_CONFIG', `${source}: "guards.protectedBranches" must be an array of branch patterns`);
+    }
+    guards.protectedBranches = overrides.protectedBranches as string[];
+  }
+
+  if (overrides.maxFileSize !== undefined) {
+    if (typeof overrides.maxFileSize !== 'number' || !Number.isInteger(overrides.maxFileSize) || overrides.maxFileSize <= 0) {
+      throw new GitmojiError('INVALID_CONFIG', `${source}: "guards.maxFileSize" must be a positive integer (bytes)`);
+    }
+    guards.maxFileSize = overrides.maxFileSize;
+  }
+
+  if (overrides.secretAllowlist !== undefined) {
+    guards.secretAllowlist = mergeSecretAllowlist(base.secretAllowlist, overrides.secretAllowlist, source);
+  }
+
+  return guards;
+}
+
+/**
+ * Merge a raw config object over the defaults
+ */
+export function mergeConfig(raw: unknown, source: string, base: GitmojiConfig = DEFAULT_CONFIG): GitmojiConfig {
+  if (!isRecord(raw)) {
+    throw new GitmojiError('INVALID_CONFIG', `${source}: configuration must be a JSON object`);
+  }
+
+  let preset = base.preset;
+  let types = base.types;
+
+  if (raw.preset !== undefined) {
+    if (typeof raw.preset !== 'string' || !Object.hasOwn(CATALOG_PRESETS, raw.preset)) {
+      throw new GitmojiError('INVALID_CONFIG', `${source}: "preset" must be one of: ${Object.keys(CATALOG_PRESETS).join(', ')}`);
+    }
+    preset = raw.preset as CatalogPreset;
+    types = CATALOG_PRESETS[preset];
+  }
+
+  if (
+    raw.convention !== undefined &&
+    (typeof raw.convention !== 'string' || !MESSAGE_CONVENTIONS.includes(raw.convention as MessageConvention))
+  ) {
+    throw new GitmojiError('INVALID_CONFIG', `${source}: "convention" must be one of: ${MESSAGE_CONVENTIONS.join(', ')}`);
+  }
+
+  return {
+    preset,
+    convention: (raw.convention as MessageConvention | undefined) ?? base.convention,
+    types: raw.types === undefined ? { ...types } : mergeTypes(types, raw.types, source),
+    rules: raw.rules === undefined ? { ...base.rules } : mergeRules(base.rules, raw.rules, source),
+    versioning:
+      raw.versioning === undefined
+        ? { ...base.versioning, bumps: { ...base.versioning.bumps } }
+        : mergeVersioning(base.versioning, raw.versioning, source),
+    release:
+      raw.release === undefined
+        ? { ...base.release, manifests: [...base.release.manifests] }
+        : mergeRelease(base.release, raw.release, source),
+    lint: raw.lint === undefined ? { ...base.lint } : mergeLint(base.lint, raw.lint, source),
+    guards:
+      raw.guards === undefined ? copyGuards(base.guards) : mergeGuards(base.guards, raw.guards, source),
+    source,
+  };
+}
+
+// Read a JSON file; undefined when it does not exist, or when it fails to parse and `ignoreInvalid` accepts its content
+async function readJson(filePath: string, ignoreInvalid: (content: string) => boolean = () => false): Promise<unknown | undefined> {
+  let content: string;
+  try {
+    content = await readFile(filePath, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return undefined;
+    }
+    throw new GitmojiError('INVALID_CONFIG', `Failed to read ${filePath}: ${error}`);
+  }
+
+  try {
+    return JSON.parse(content);
+  } catch (error) {
+    if (ignoreInvalid(content)) {
+      return undefined;
+    }
+    throw new GitmojiError('INVALID_CONFIG', `Failed to parse ${filePath}: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+/**
+ * Load the effective configuration for a repository root.
+ * Looks for a dedicated config file first, then the "gitmoji" key in package.json.
+ */
+export async function loadConfig(rootDir: string): Promise<GitmojiConfig> {
+  for (const fileName of CONFIG_FILE_NAMES) {
+    const filePath = path.join(rootDir, fileName);
+    const raw = await readJson(filePath);
+    if (raw !== undefined) {
+      return mergeConfig(raw, filePath);
+    }
+  }
+
+  const packageJsonPath = path.join(rootDir, 'package.json');
+  // A broken package.json is only a config error when it holds the gitmoji section
+  const packageJson = await readJson(packageJsonPath, content => !PACKAGE_JSON_SECTION.test(content));
+  if (isRecord(packageJson) && packageJson[PACKAGE_JSON_KEY] !== undefined) {
+    return mergeConfig(packageJson[PACKAGE_JSON_KEY], `${packageJsonPath}#${PACKAGE_JSON_KEY}`);
+  }
+
+  return DEFAULT_CONFIG;
+}
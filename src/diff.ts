@@ -0,0 +1,244 @@
+import { LOCK_FILE, parsePatch } from './analysis.js';
+import { GitmojiError } from './errors.js';
+import { getStagedPatch } from './git.js';
+import type { GitOperationOptions } from './git.js';
+import { PatchFile } from './types.js';
+
+/**
+ * Why a staged file was left out of the diff
+ */
+export type ExclusionReason = 'lockfile' | 'generated' | 'binary';
+
+/**
+ * Filtering and size limits for the staged diff
+ */
+export interface StagedDiffOptions {
+  /** Only this staged file; filters do not apply to it */
+  path?: string;
+  /** Budget for the diff content, in characters (default: 20000) */
+  maxChars?: number;
+  /** Budget for the diff content, in lines (default: 800) */
+  maxLines?: number;
+  /** Unchanged lines shown around each change (default: 3) */
+  contextLines?: number;
+  includeLockfiles?: boolean;
+  includeGenerated?: boolean;
+  includeBinary?: boolean;
+}
+
+/**
+ * One file of the staged diff
+ */
+export interface StagedDiffFile {
+  path: string;
+  oldPath?: string;
+  status: PatchFile['status'];
+  binary: boolean;
+  additions: number;
+  deletions: number;
+  /** Patch of the file, cut to its share of the budget */
+  patch: string;
+  truncated: boolean;
+  /** Patch lines left out by truncation */
+  omittedLines: number;
+}
+
+/**
+ * A staged file left out of the diff, with its size
+ */
+export interface ExcludedFile {
+  path: string;
+  status: PatchFile['status'];
+  reason: ExclusionReason;
+  additions: number;
+  deletions: number;
+}
+
+/**
+ * The staged patch, filtered and fitted to a budget
+ */
+export interface StagedDiff {
+  files: StagedDiffFile[];
+  excluded: ExcludedFile[];
+  /** Whether any file was truncated */
+  truncated: boolean;
+  /** The patches of all files, joined */
+  patch: string;
+}
+
+export const DEFAULT_DIFF_MAX_CHARS = 20000;
+export const DEFAULT_DIFF_MAX_LINES = 800;
+
+const GENERATED_FILE =
+  /(^|\/)(dist|build|out|coverage|vendor|node_modules|__generated__|generated)\/|\.min\.(js|css)$|\.map$|\.generated\.\w+$|\.pb\.go$|_pb2\.py$|\.g\.dart$/i;
+const GENERATED_MARKER = /@generated|DO NOT EDIT|auto-?generated/i;
+
+interface FileChunk {
+  info: PatchFile;
+  header: string[];
+  body: string[];
+}
+
+// Split a patch into one chunk per file: the header lines up to the first hunk, then the hunks.
+// Chunks whose header does not parse are left out.
+function splitPatch(patch: string): FileChunk[] {
+  const chunks: string[][] = [];
+
+  for (const line of patch.trimEnd().split('\n')) {
+    if (line.startsWith('diff --git ')) {
+      chunks.push([]);
+    }
+    chunks[chunks.length - 1]?.push(line);
+  }
+
+  return chunks.flatMap(lines => {
+    const info = parsePatch(lines.join('\n'))[0];
+    if (!info) {
+      return [];
+    }
+
+    const hunkStart = lines.findIndex(line => line.startsWith('@@'));
+    const split = hunkStart === -1 ? lines.length : hunkStart;
+    return [{ info, header: lines.slice(0, split), body: lines.slice(split) }];
+  });
+}
+
+/**
+ * An added line of a patch, with its line number in the new file
+ */
+export interface AddedLine {
+  path: string;
+  line: number;
+  text: string;
+}
+
+/**
+ * List the lines a patch adds, with their position in the new version of each file
+ */
+export function listAddedLines(patch: string): AddedLine[] {
+  const added: AddedLine[] = [];
+
+  for (const chunk of splitPatch(patch)) {
+    let line = 0;
+    for (const text of chunk.body) {
+      const hunk = /^@@ -\d+(?:,\d+)? \+(\d+)/.exec(text);
+      if (hunk) {
+        line = parseInt(hunk[1], 10);
+      } else if (text.startsWith('+')) {
+        added.push({ path: chunk.info.path, line: line++, text: text.substring(1) });
+      } else if (text.startsWith(' ')) {
+        line++;
+      }
+    }
+  }
+
+  return added;
+}
+
+function getExclusionReason(file: PatchFile, options: StagedDiffOptions): ExclusionReason | undefined {
+  if (file.binary && !options.includeBinary) {
+    return 'binary';
+  }
+  if (LOCK_FILE.test(file.path) && !options.includeLockfiles) {
+    return 'lockfile';
+  }
+  if (!options.includeGenerated && (GENERATED_FILE.test(file.path) || file.added.slice(0, 5).some(line => GENERATED_MARKER.test(line)))) {
+    return 'generated';
+  }
+  return undefined;
+}
+
+/**
+ * Split a budget so that small items get all they need and large ones share the rest equally
+ */
+export function shareBudget(sizes: number[], budget: number): number[] {
+  const order = sizes.map((_size, index) => index).sort((a, b) => sizes[a] - sizes[b]);
+  const shares = new Array<number>(sizes.length).fill(0);
+  let remaining = Math.max(budget, 0);
+
+  order.forEach((index, position) => {
+    const fair = Math.floor(remaining / (order.length - position));
+    shares[index] = Math.min(sizes[index], fair);
+    remaining -= shares[index];
+  });
+
+  return shares;
+}
+
+function summarizeOmitted(lines: string[]): string {
+  const added = lines.filter(line => line.startsWith('+')).length;
+  const removed = lines.filter(line => line.startsWith('-')).length;
+  const hunks = lines.filter(line => line.startsWith('@@')).length;
+  const inHunks = hunks > 0 ? ` in ${hunks} more hunk(s)` : '';
+  return `... [${lines.length} line(s) omitted${inHunks}: +${added} -${removed}]`;
+}
+
+function fitChunk(chunk: FileChunk, maxLines: number, maxChars: number): StagedDiffFile {
+  let chars = 0;
+  let kept = 0;
+
+  while (kept < chunk.body.length && kept < maxLines && chars + chunk.body[kept].length + 1 <= maxChars) {
+    chars += chunk.body[kept].length + 1;
+    kept++;
+  }
+
+  const omitted = chunk.body.slice(kept);
+  const lines = [...chunk.header, ...chunk.body.slice(0, kept)];
+  if (omitted.length > 0) {
+    lines.push(summarizeOmitted(omitted));
+  }
+
+  return {
+    path: chunk.info.path,
+    oldPath: chunk.info.oldPath,
+    status: chunk.info.status,
+    binary: chunk.info.binary,
+    additions: chunk.info.added.length,
+    deletions: chunk.info.removed.length,
+    patch: lines.join('\n'),
+    truncated: omitted.length > 0,
+    omittedLines: omitted.length,
+  };
+}
+
+/**
+ * Read the staged patch for a model to review: lockfiles, generated and binary files are left
+ * out unless asked for, and the remaining files share the line and character budget fairly,
+ * each cut short with a summary of what was omitted
+ */
+export async function collectStagedDiff(options: StagedDiffOptions = {}, gitOptions?: GitOperationOptions): Promise<StagedDiff> {
+  const maxChars = options.maxChars ?? DEFAULT_DIFF_MAX_CHARS;
+  const maxLines = options.maxLines ?? DEFAULT_DIFF_MAX_LINES;
+  let chunks = splitPatch(await getStagedPatch(gitOptions, options.contextLines ?? 3));
+  const excluded: ExcludedFile[] = [];
+
+  if (options.path) {
+    chunks = chunks.filter(chunk => chunk.info.path === options.path || chunk.info.oldPath === options.path);
+    if (chunks.length === 0) {
+      throw new GitmojiError('INVALID_ARGUMENT', `${options.path} is not staged`);
+    }
+  } else {
+    chunks = chunks.filter(chunk => {
+      const reason = getExclusionReason(chunk.info, options);
+      if (reason) {
+        const { path, status, added, removed } = chunk.info;
+        excluded.push({ path, status, reason, additions: added.length, deletions: removed.length });
+      }
+      return !reason;
+    });
+  }
+
+  const lineShares = shareBudget(chunks.map(chunk => chunk.body.length), maxLines);
+  const charShares = shareBudget(
+    chunks.map(chunk => chunk.body.reduce((sum, line) => sum + line.length + 1, 0)),
+    maxChars
+  );
+  const files = chunks.map((chunk, i) => fitChunk(chunk, lineShares[i], charShares[i]));
+
+  return {
+    files,
+    excluded,
+    truncated: files.some(file => file.truncated),
+    patch: files.map(file => file.patch).join('\n'),
+  };
+}
@@ -0,0 +1,79 @@
+/**
+ * Machine-readable error codes reported by the tools and the command line
+ */
+export type ErrorCode =
+  | 'INVALID_ARGUMENT'
+  | 'UNKNOWN_TOOL'
+  | 'UNKNOWN_RESOURCE'
+  | 'UNKNOWN_PROMPT'
+  | 'REPO_NOT_FOUND'
+  | 'INVALID_CONFIG'
+  | 'NO_STAGED_CHANGES'
+  | 'CONFIRMATION_MISMATCH'
+  | 'DETACHED_HEAD'
+  | 'OPERATION_IN_PROGRESS'
+  | 'PROTECTED_BRANCH'
+  | 'CONFLICT_MARKERS'
+  | 'FILE_TOO_LARGE'
+  | 'SECRETS_DETECTED'
+  | 'NOTHING_TO_COMMIT'
+  | 'NOTHING_TO_RELEASE'
+  | 'INVALID_TYPE'
+  | 'INVALID_MESSAGE'
+  | 'UNKNOWN_REF'
+  | 'HOOK_REJECTED'
+  | 'DIRTY_WORKING_TREE'
+  | 'PUBLISHED_COMMIT'
+  | 'REVERT_CONFLICT'
+  | 'TAG_EXISTS'
+  | 'GIT_ERROR'
+  | 'INTERNAL_ERROR';
+
+export const ERROR_CODES: ErrorCode[] = [
+  'INVALID_ARGUMENT',
+  'UNKNOWN_TOOL',
+  'UNKNOWN_RESOURCE',
+  'UNKNOWN_PROMPT',
+  'REPO_NOT_FOUND',
+  'INVALID_CONFIG',
+  'NO_STAGED_CHANGES',
+  'CONFIRMATION_MISMATCH',
+  'DETACHED_HEAD',
+  'OPERATION_IN_PROGRESS',
+  'PROTECTED_BRANCH',
+  'CONFLICT_MARKERS',
+  'FILE_TOO_LARGE',
+  'SECRETS_DETECTED',
+  'NOTHING_TO_COMMIT',
+  'NOTHING_TO_RELEASE',
+  'INVALID_TYPE',
+  'INVALID_MESSAGE',
+  'UNKNOWN_REF',
+  'HOOK_REJECTED',
+  'DIRTY_WORKING_TREE',
+  'PUBLISHED_COMMIT',
+  'REVERT_CONFLICT',
+  'TAG_EXISTS',
+  'GIT_ERROR',
+  'INTERNAL_ERROR',
+];
+
+/**
+ * An error with a machine-readable code
+ */
+export class GitmojiError extends Error {
+  constructor(
+    readonly code: ErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = 'GitmojiError';
+  }
+}
+
+/**
+ * Code of any thrown value; errors without one are internal
+ */
+export function getErrorCode(error: unknown): ErrorCode {
+  return error instanceof GitmojiError ? error.code : 'INTERNAL_ERROR';
+}
@@ -1,5 +1,12 @@
+import path from 'node:path';
 import { simpleGit, SimpleGit } from 'simple-git';
-import { CommitType, DiffStats, SuggestionResult, COMMIT_TYPES } from './types.js';
+import { analyzeChanges, parsePatch } from './analysis.js';
+import type { SuggestionOptions } from './analysis.js';
+import { DEFAULT_CONFIG, loadConfig } from './config.js';
+import { inferScope } from './scope.js';
+import { CommitDetails, CommitInfo, CommitType, ConflictedFile, DiffStats, GitmojiConfig, SuggestionResult } from './types.js';
+import { formatHeader } from './utils.js';
+import { ErrorCode, GitmojiError, getErrorCode } from './errors.js';
 
 export interface GitOperationOptions {
   repoPath?: string;
@@ -8,6 +15,7 @@ export interface GitOperationOptions {
 
 interface GitContext {
   git: SimpleGit;
+  root: string;
 }
 
 let cachedRepoPath: string | undefined;
@@ -92,6 +100,7 @@ async function resolveGitContext(options?: GitOperationOptions): Promise<GitCont
       cachedRepoPath = resolvedTopLevel;
       return {
         git: simpleGit({ baseDir: resolvedTopLevel }),
+        root: resolvedTopLevel,
       };
     } catch {
       continue;
@@ -99,7 +108,8 @@ async function resolveGitContext(options?: GitOperationOptions): Promise<GitCont
   }
 
   const tried = triedDirs.length > 0 ? triedDirs.join(', ') : 'none';
-  throw new Error(
+  throw new GitmojiError(
+    'REPO_NOT_FOUND',
     `Unable to locate git repository context. Tried directories: ${tried}. ` +
       `Pass "repo_path" in tool arguments or set GITMOJI_REPO_PATH.`
   );
@@ -113,6 +123,52 @@ export async function getGit(options?: GitOperationOptions): Promise<SimpleGit>
   return context.git;
 }
 
+/**
+ * Get the absolute path of the resolved repository root
+ */
+export async function getRepoRoot(options?: GitOperationOptions): Promise<string> {
+  const context = await resolveGitContext(options);
+  return context.root;
+}
+
+/**
+ * Load the effective configuration for the resolved repository.
+ * Falls back to the built-in defaults when no repository can be located.
+ */
+export async function getRepoConfig(options?: GitOperationOptions): Promise<GitmojiConfig> {
+  let root: string;
+  try {
+    root = await getRepoRoot(options);
+  } catch {
+    return DEFAULT_CONFIG;
+  }
+
+  return loadConfig(root);
+}
+
+/**
+ * Get the raw staged patch with renames detected, without context lines unless asked for.
+ * Prefixes are fixed so the patch parses whatever diff.noprefix or diff.mnemonicPrefix say.
+ */
+export async function getStagedPatch(options?: GitOperationOptions, contextLines: number = 0): Promise<string> {
+  const git = await getGit(options);
+
+  try {
+    return await git.raw([
+      'diff',
+      '--staged',
+      '--find-renames',
+      '--no-color',
+      '--no-ext-diff',
+      '--src-prefix=a/',
+      '--dst-prefix=b/',
+      `--unified=${contextLines}`,
+    ]);
+  } catch (error) {
+    throw new GitmojiError('GIT_ERROR', `Failed to get staged patch: ${error}`);
+  }
+}
+
 /**
  * Get statistics about staged changes
  */
@@ -158,174 +214,615 @@ export async function getStagedDiff(options?: GitOperationOptions): Promise<Diff
       files: allFiles,
     };
   } catch (error) {
-    throw new Error(`Failed to get staged diff: ${error}`);
+    throw new GitmojiError('GIT_ERROR', `Failed to get staged diff: ${error}`);
   }
 }
 
 /**
- * Suggest a commit type based on staged changes
+ * Suggest a commit type based on staged changes, using file paths, change size
+ * and the content of the staged patch
  */
-export async function suggestCommitType(options?: GitOperationOptions): Promise<SuggestionResult> {
+export async function suggestCommitType(
+  options?: GitOperationOptions,
+  config?: GitmojiConfig,
+  suggestionOptions?: SuggestionOptions
+): Promise<SuggestionResult> {
   const stats = await getStagedDiff(options);
+  const repoConfig = config ?? (await getRepoConfig(options));
 
   if (stats.files.length === 0) {
-    throw new Error('No staged changes found');
+    throw new GitmojiError('NO_STAGED_CHANGES', 'No staged changes found');
   }
 
-  // Analyze files to suggest commit type
-  const { files, additions, deletions } = stats;
+  const patch = parsePatch(await getStagedPatch(options));
+  const result = analyzeChanges({ stats, patch }, repoConfig.types, suggestionOptions);
+  const { root } = await resolveGitContext(options);
+  const scope = await inferScope(root, stats.files);
 
-  // Check for documentation changes
-  const docFiles = files.filter(f =>
-    f.match(/\.(md|txt|rst|adoc)$/i) ||
-    f.includes('README') ||
-    f.includes('docs/')
-  );
+  return { ...result, scope, prefix: formatHeader({ type: result.type, scope: scope.scope, title: '' }, repoConfig) };
+}
 
-  if (docFiles.length > 0 && docFiles.length === files.length) {
-    return {
-      type: 'docs',
-      emoji: COMMIT_TYPES.docs.emoji,
-      reason: 'All changes are to documentation files',
-      confidence: 'high',
-    };
+// Keep the hook rejection code when wrapping a failed commit
+function commitErrorCode(error: unknown): ErrorCode {
+  return getErrorCode(error) === 'HOOK_REJECTED' ? 'HOOK_REJECTED' : 'GIT_ERROR';
+}
+
+/**
+ * Create a commit with the given message
+ */
+export async function createCommit(message: string, options?: GitOperationOptions): Promise<string> {
+  const git = await getGit(options);
+
+  try {
+    const result = await git.commit(message);
+
+    // simple-git resolves without a hash when a hook rejects the commit
+    if (!result.commit) {
+      throw new GitmojiError('HOOK_REJECTED', 'git did not create a commit (rejected by a hook?)');
+    }
+
+    return result.commit;
+  } catch (error) {
+    throw new GitmojiError(commitErrorCode(error), `Failed to create commit: ${error}`);
   }
+}
 
-  // Check for test changes
-  const testFiles = files.filter(f =>
-    f.match(/\.(test|spec)\.(ts|js|tsx|jsx)$/i) ||
-    f.includes('__tests__/') ||
-    f.includes('test/') ||
-    f.includes('tests/')
-  );
+/**
+ * Replace the last commit with one that has the given message and the current index
+ */
+export async function amendCommit(message: string, options?: GitOperationOptions): Promise<string> {
+  const git = await getGit(options);
 
-  if (testFiles.length > 0 && testFiles.length === files.length) {
-    return {
-      type: 'test',
-      emoji: COMMIT_TYPES.test.emoji,
-      reason: 'All changes are to test files',
-      confidence: 'high',
-    };
+  try {
+    const result = await git.commit(message, undefined, { '--amend': null, '--allow-empty': null });
+
+    if (!result.commit) {
+      throw new GitmojiError('HOOK_REJECTED', 'git did not amend the commit (rejected by a hook?)');
+    }
+
+    return await resolveRef('HEAD', options);
+  } catch (error) {
+    throw new GitmojiError(commitErrorCode(error), `Failed to amend commit: ${error}`);
   }
+}
 
-  // Check for CI/CD changes
-  const ciFiles = files.filter(f =>
-    f.match(/\.(yml|yaml)$/i) &&
-    (f.includes('.github/') || f.includes('.gitlab/') || f.includes('jenkins') || f.includes('circle'))
-  );
+/**
+ * Check if there are staged changes
+ */
+export async function hasStagedChanges(options?: GitOperationOptions): Promise<boolean> {
+  const git = await getGit(options);
 
-  if (ciFiles.length > 0 && ciFiles.length === files.length) {
-    return {
-      type: 'ci',
-      emoji: COMMIT_TYPES.ci.emoji,
-      reason: 'All changes are to CI/CD configuration files',
-      confidence: 'high',
-    };
+  try {
+    const status = await git.status();
+    return status.staged.length > 0 || status.created.length > 0;
+  } catch (error) {
+    throw new GitmojiError('GIT_ERROR', `Failed to check git status: ${error}`);
   }
+}
 
-  // Check for build/dependency changes
-  const buildFiles = files.filter(f =>
-    f.match(/^(package\.json|package-lock\.json|yarn\.lock|pnpm-lock\.yaml|Gemfile\.lock|requirements\.txt|pom\.xml|build\.gradle|Cargo\.toml|go\.mod|go\.sum)$/i)
-  );
+/**
+ * Get the size in bytes of every staged file that is added or modified (submodules excluded)
+ */
+export async function getStagedFileSizes(options?: GitOperationOptions): Promise<{ path: string; size: number }[]> {
+  const git = await getGit(options);
+
+  try {
+    // -z output: ":<old mode> <new mode> <old blob> <new blob> <status>\0<path>\0"
+    const fields = (await git.raw(['diff', '--staged', '--raw', '--no-renames', '--diff-filter=d', '--no-abbrev', '-z'])).split('\0');
+    const sizes: { path: string; size: number }[] = [];
+
+    for (let i = 0; i + 1 < fields.length; i += 2) {
+      const [, mode, , blob] = fields[i].split(' ');
+      if (mode === '160000') {
+        continue;
+      }
+      sizes.push({ path: fields[i + 1], size: parseInt((await git.raw(['cat-file', '-s', blob])).trim(), 10) });
+    }
+
+    return sizes;
+  } catch (error) {
+    throw new GitmojiError('GIT_ERROR', `Failed to read staged file sizes: ${error}`);
+  }
+}
+
+const FIELD_SEPARATOR = '\x1f';
+const RECORD_SEPARATOR = '\x1e';
+
+/**
+ * Reject a ref or revision range that git would read as an option, such as "--output=<file>"
+ */
+export function assertRef(ref: string, name: string = 'ref'): void {
+  if (ref.startsWith('-')) {
+    throw new GitmojiError('INVALID_ARGUMENT', `Invalid ${name} "${ref}": refs cannot start with "-"`);
+  }
+}
+
+/**
+ * Get the most recent tag reachable from the given ref, if any
+ */
+export async function getLatestTag(ref: string = 'HEAD', options?: GitOperationOptions): Promise<string | undefined> {
+  assertRef(ref);
+
+  const git = await getGit(options);
+
+  try {
+    const tag = (await git.raw(['describe', '--tags', '--abbrev=0', '--end-of-options', ref])).trim();
+    return tag.length > 0 ? tag : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * List tags reachable from the given ref
+ */
+export async function getTags(ref: string = 'HEAD', options?: GitOperationOptions): Promise<string[]> {
+  assertRef(ref);
+
+  const git = await getGit(options);
+
+  try {
+    const output = await git.raw(['tag', '--merged', ref]);
+    return output.split('\n').map(tag => tag.trim()).filter(tag => tag.length > 0);
+  } catch (error) {
+    throw new GitmojiError('GIT_ERROR', `Failed to list tags: ${error}`);
+  }
+}
+
+/**
+ * Read the commits selected by a revision range such as "origin/main..HEAD", newest first
+ */
+export async function getCommitsInRange(
+  range: string,
+  options?: GitOperationOptions & { includeMerges?: boolean; maxCount?: number }
+): Promise<CommitInfo[]> {
+  assertRef(range, 'range');
 
-  if (buildFiles.length > 0) {
-    if (buildFiles.some(f => f.match(/lock|package\.json/i))) {
+  const git = await getGit(options);
+  const format = ['%H', '%h', '%P', '%an', '%aI', '%B'].join('%x1f') + '%x1e';
+  const args = ['log', `--format=${format}`, '--end-of-options', range];
+
+  if (!options?.includeMerges) {
+    args.splice(1, 0, '--no-merges');
+  }
+  if (options?.maxCount !== undefined) {
+    args.splice(1, 0, `--max-count=${options.maxCount}`);
+  }
+
+  let output: string;
+  try {
+    output = await git.raw(args);
+  } catch (error) {
+    throw new GitmojiError('GIT_ERROR', `Failed to read commits for ${range}: ${error}`);
+  }
+
+  return output
+    .split(RECORD_SEPARATOR)
+    .map(record => record.replace(/^\n+/, ''))
+    .filter(record => record.length > 0)
+    .map(record => {
+      const [hash, shortHash, parents, author, date, message] = record.split(FIELD_SEPARATOR);
       return {
-        type: 'deps',
-        emoji: COMMIT_TYPES.deps.emoji,
-        reason: 'Changes to dependency files detected',
-        confidence: 'high',
+        hash,
+        shortHash,
+        parents: parents ? parents.split(' ') : [],
+        author,
+        date,
+        message: (message ?? '').trim(),
       };
+    });
+}
+
+/**
+ * Read commits reachable from `to` but not from `from` (all history when `from` is omitted),
+ * newest first, skipping merge commits
+ */
+export async function getCommits(
+  from: string | undefined,
+  to: string = 'HEAD',
+  options?: GitOperationOptions
+): Promise<CommitInfo[]> {
+  if (from !== undefined) {
+    assertRef(from, 'from');
+  }
+  assertRef(to, 'to');
+
+  return getCommitsInRange(from ? `${from}..${to}` : to, options);
+}
+
+/**
+ * Check that there are no staged or unstaged changes to tracked files
+ */
+export async function isWorkingTreeClean(options?: GitOperationOptions): Promise<boolean> {
+  const git = await getGit(options);
+
+  try {
+    const output = await git.raw(['status', '--porcelain', '--untracked-files=no']);
+    return output.trim().length === 0;
+  } catch (error) {
+    throw new GitmojiError('GIT_ERROR', `Failed to check git status: ${error}`);
+  }
+}
+
+/**
+ * Resolve a ref to a full commit hash
+ */
+export async function resolveRef(ref: string, options?: GitOperationOptions): Promise<string> {
+  assertRef(ref);
+
+  const git = await getGit(options);
+
+  try {
+    return (await git.revparse(['--verify', '--end-of-options', `${ref}^{commit}`])).trim();
+  } catch (error) {
+    throw new GitmojiError('UNKNOWN_REF', `Unknown ref "${ref}": ${error}`);
+  }
+}
+
+/**
+ * Check whether a tag exists
+ */
+export async function tagExists(tag: string, options?: GitOperationOptions): Promise<boolean> {
+  const git = await getGit(options);
+
+  try {
+    const output = await git.raw(['tag', '--list', tag]);
+    return output.trim() === tag;
+  } catch (error) {
+    throw new GitmojiError('GIT_ERROR', `Failed to list tags: ${error}`);
+  }
+}
+
+/**
+ * Create an annotated tag on HEAD
+ */
+export async function createAnnotatedTag(tag: string, message: string, options?: GitOperationOptions): Promise<void> {
+  const git = await getGit(options);
+
+  try {
+    await git.raw(['tag', '--annotate', tag, '--message', message]);
+  } catch (error) {
+    throw new GitmojiError('GIT_ERROR', `Failed to create tag ${tag}: ${error}`);
+  }
+}
+
+/**
+ * Stage the given paths
+ */
+export async function stageFiles(files: string[], options?: GitOperationOptions): Promise<void> {
+  const git = await getGit(options);
+
+  try {
+    await git.add(files);
+  } catch (error) {
+    throw new GitmojiError('GIT_ERROR', `Failed to stage files: ${error}`);
+  }
+}
+
+/**
+ * Reset HEAD, index and tracked files to the given commit
+ */
+export async function resetHard(ref: string, options?: GitOperationOptions): Promise<void> {
+  const git = await getGit(options);
+
+  try {
+    await git.raw(['reset', '--hard', ref]);
+  } catch (error) {
+    throw new GitmojiError('GIT_ERROR', `Failed to reset to ${ref}: ${error}`);
+  }
+}
+
+/**
+ * Resolve a path inside the git directory (e.g. "hooks"), honouring settings such as core.hooksPath
+ */
+export async function getGitPath(name: string, options?: GitOperationOptions): Promise<string> {
+  const context = await resolveGitContext(options);
+
+  try {
+    const resolved = (await context.git.raw(['rev-parse', '--git-path', name])).trim();
+    return path.resolve(context.root, resolved);
+  } catch (error) {
+    throw new GitmojiError('GIT_ERROR', `Failed to resolve git path ${name}: ${error}`);
+  }
+}
+
+/**
+ * Read a git config value, if set
+ */
+export async function getConfigValue(key: string, options?: GitOperationOptions): Promise<string | undefined> {
+  const git = await getGit(options);
+
+  try {
+    const value = (await git.raw(['config', '--get', key])).trim();
+    return value.length > 0 ? value : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Write the current index as a tree object and return its hash
+ */
+export async function writeIndexTree(options?: GitOperationOptions): Promise<string> {
+  const git = await getGit(options);
+
+  try {
+    return (await git.raw(['write-tree'])).trim();
+  } catch (error) {
+    throw new GitmojiError('GIT_ERROR', `Failed to write index tree: ${error}`);
+  }
+}
+
+/**
+ * Replace the index with the contents of a tree (an empty index when no tree is given)
+ */
+export async function readTreeIntoIndex(tree: string | undefined, options?: GitOperationOptions): Promise<void> {
+  const git = await getGit(options);
+
+  try {
+    await git.raw(['read-tree', tree ?? '--empty']);
+    // Refresh stat info so unchanged files don't show up as modified
+    await git.raw(['update-index', '-q', '--refresh']).catch(() => undefined);
+  } catch (error) {
+    throw new GitmojiError('GIT_ERROR', `Failed to read tree into index: ${error}`);
+  }
+}
+
+/**
+ * Copy the given paths from a tree into the index, removing paths the tree doesn't contain.
+ * Unlike `git add`, this stages exactly the tree's content regardless of the working tree.
+ */
+export async function stageFromTree(tree: string, files: string[], options?: GitOperationOptions): Promise<void> {
+  const git = await getGit(options);
+
+  try {
+    for (const file of files) {
+      const entry = (await git.raw(['ls-tree', tree, '--', file])).trim();
+      const match = /^(\d+) \w+ ([0-9a-f]+)\t/.exec(entry);
+
+      if (match) {
+        await git.raw(['update-index', '--add', '--cacheinfo', `${match[1]},${match[2]},${file}`]);
+      } else {
+        await git.raw(['update-index', '--force-remove', '--', file]);
+      }
     }
-    return {
-      type: 'build',
-      emoji: COMMIT_TYPES.build.emoji,
-      reason: 'Changes to build configuration detected',
-      confidence: 'high',
-    };
+  } catch (error) {
+    throw new GitmojiError('GIT_ERROR', `Failed to stage files from tree: ${error}`);
   }
+}
 
-  // Check for config changes
-  const configFiles = files.filter(f =>
-    f.match(/\.(config|conf|cfg|ini|env|rc)(\.(ts|js|json|yaml|yml))?$/i) ||
-    f.startsWith('.')
-  );
+/**
+ * Move HEAD to the given commit without touching the index or working tree.
+ * Without a commit, HEAD goes back to an unborn branch.
+ */
+export async function resetSoft(ref: string | undefined, options?: GitOperationOptions): Promise<void> {
+  const git = await getGit(options);
 
-  if (configFiles.length > 0 && configFiles.length === files.length) {
-    return {
-      type: 'chore',
-      emoji: COMMIT_TYPES.chore.emoji,
-      reason: 'All changes are to configuration files',
-      confidence: 'high',
-    };
+  try {
+    await git.raw(ref ? ['reset', '--soft', ref] : ['update-ref', '-d', 'HEAD']);
+  } catch (error) {
+    throw new GitmojiError('GIT_ERROR', `Failed to reset to ${ref ?? 'an unborn branch'}: ${error}`);
   }
+}
+
+/**
+ * Read a single commit
+ */
+export async function getCommitDetails(ref: string, options?: GitOperationOptions): Promise<CommitDetails> {
+  assertRef(ref);
 
-  // Analyze code changes
-  const ratio = deletions > 0 ? additions / deletions : additions > 0 ? 10 : 0;
+  const git = await getGit(options);
+  const format = ['%H', '%T', '%P', '%an', '%ae', '%aI', '%B'].join('%x1f');
 
-  // More additions than deletions suggests new feature
-  if (ratio > 2 && additions > 50) {
+  try {
+    const output = await git.raw(['show', '--no-patch', `--format=${format}`, '--end-of-options', `${ref}^{commit}`]);
+    const [hash, tree, parents, authorName, authorEmail, authorDate, message] = output.split(FIELD_SEPARATOR);
     return {
-      type: 'feat',
-      emoji: COMMIT_TYPES.feat.emoji,
-      reason: `Significant additions (${additions} lines added vs ${deletions} deleted) suggest new feature`,
-      confidence: 'medium',
+      hash,
+      tree,
+      parents: parents ? parents.split(' ') : [],
+      authorName,
+      authorEmail,
+      authorDate,
+      message: (message ?? '').trim(),
     };
+  } catch (error) {
+    throw new GitmojiError('UNKNOWN_REF', `Failed to read commit ${ref}: ${error}`);
   }
+}
 
-  // Balanced changes suggest refactoring
-  if (ratio > 0.7 && ratio < 1.3 && (additions + deletions) > 100) {
-    return {
-      type: 'refactor',
-      emoji: COMMIT_TYPES.refactor.emoji,
-      reason: `Balanced changes (${additions} added, ${deletions} deleted) suggest refactoring`,
-      confidence: 'medium',
-    };
+/**
+ * Get the name of the current branch; undefined when HEAD is detached
+ */
+export async function getCurrentBranch(options?: GitOperationOptions): Promise<string | undefined> {
+  const git = await getGit(options);
+
+  try {
+    const branch = (await git.raw(['symbolic-ref', '--short', '-q', 'HEAD'])).trim();
+    return branch.length > 0 ? branch : undefined;
+  } catch {
+    return undefined;
   }
+}
 
-  // Small changes might be fixes
-  if ((additions + deletions) < 50) {
-    return {
-      type: 'fix',
-      emoji: COMMIT_TYPES.fix.emoji,
-      reason: 'Small changes suggest bug fix',
-      confidence: 'low',
-    };
+/**
+ * Get the commit HEAD points to; undefined on a branch without commits
+ */
+export async function getHeadCommit(options?: GitOperationOptions): Promise<string | undefined> {
+  const git = await getGit(options);
+
+  try {
+    return (await git.raw(['rev-parse', '--verify', '-q', 'HEAD'])).trim() || undefined;
+  } catch {
+    return undefined;
   }
+}
+
+/**
+ * Get the identity git would record as author or committer of a new commit
+ */
+export async function getIdentity(
+  role: 'author' | 'committer',
+  options?: GitOperationOptions
+): Promise<{ name: string; email: string }> {
+  const git = await getGit(options);
 
-  // Default to feat for other cases
-  return {
-    type: 'feat',
-    emoji: COMMIT_TYPES.feat.emoji,
-    reason: 'Unable to determine specific type, defaulting to feature',
-    confidence: 'low',
-  };
+  try {
+    const ident = (await git.raw(['var', role === 'author' ? 'GIT_AUTHOR_IDENT' : 'GIT_COMMITTER_IDENT'])).trim();
+    const match = /^(.*?)\s*<([^>]*)>/.exec(ident);
+    return { name: match ? match[1] : ident, email: match ? match[2] : '' };
+  } catch (error) {
+    throw new GitmojiError('GIT_ERROR', `Failed to read the ${role} identity: ${error}`);
+  }
 }
 
 /**
- * Create a commit with the given message
+ * Get the upstream tracking branch of the current branch, if any
  */
-export async function createCommit(message: string, options?: GitOperationOptions): Promise<string> {
+export async function getUpstreamBranch(options?: GitOperationOptions): Promise<string | undefined> {
   const git = await getGit(options);
 
   try {
-    const result = await git.commit(message);
-    return result.commit;
+    const upstream = (await git.raw(['rev-parse', '--abbrev-ref', '--symbolic-full-name', '@{upstream}'])).trim();
+    return upstream.length > 0 ? upstream : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Check whether `ancestor` is reachable from `ref`
+ */
+export async function isAncestor(ancestor: string, ref: string, options?: GitOperationOptions): Promise<boolean> {
+  const git = await getGit(options);
+
+  try {
+    const base = (await git.raw(['merge-base', ancestor, ref])).trim();
+    return base.length > 0 && base === (await resolveRef(ancestor, options));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * List the commits between `from` (exclusive) and `to` that descend from `from`, oldest first
+ */
+export async function getDescendants(from: string, to: string = 'HEAD', options?: GitOperationOptions): Promise<string[]> {
+  const git = await getGit(options);
+
+  try {
+    const output = await git.raw(['rev-list', '--reverse', '--topo-order', '--ancestry-path', `${from}..${to}`]);
+    return output.split('\n').map(hash => hash.trim()).filter(hash => hash.length > 0);
   } catch (error) {
-    throw new Error(`Failed to create commit: ${error}`);
+    throw new GitmojiError('GIT_ERROR', `Failed to list commits after ${from}: ${error}`);
   }
 }
 
 /**
- * Check if there are staged changes
+ * Create a commit object without touching HEAD, the index or the working tree.
+ * Author identity and date are preserved; hooks do not run.
  */
-export async function hasStagedChanges(options?: GitOperationOptions): Promise<boolean> {
+export async function commitTree(
+  details: Omit<CommitDetails, 'hash'>,
+  options?: GitOperationOptions
+): Promise<string> {
+  const git = (await getGit(options)).env({
+    ...process.env,
+    GIT_AUTHOR_NAME: details.authorName,
+    GIT_AUTHOR_EMAIL: details.authorEmail,
+    GIT_AUTHOR_DATE: details.authorDate,
+  });
+
+  try {
+    const parents = details.parents.flatMap(parent => ['-p', parent]);
+    return (await git.raw(['commit-tree', details.tree, ...parents, '-m', details.message])).trim();
+  } catch (error) {
+    throw new GitmojiError('GIT_ERROR', `Failed to create commit object: ${error}`);
+  }
+}
+
+/**
+ * Point the current branch (or detached HEAD) at a new commit, if it still points at `expected`
+ */
+export async function updateHead(
+  commit: string,
+  expected: string,
+  reason: string,
+  options?: GitOperationOptions
+): Promise<void> {
   const git = await getGit(options);
 
   try {
-    const status = await git.status();
-    return status.staged.length > 0 || status.created.length > 0;
+    await git.raw(['update-ref', '-m', reason, 'HEAD', commit, expected]);
+  } catch (error) {
+    throw new GitmojiError('GIT_ERROR', `Failed to update HEAD: ${error}`);
+  }
+}
+
+const CONFLICT_CODES: Record<string, string> = {
+  DD: 'deleted on both sides',
+  AU: 'added by us',
+  UD: 'deleted by them',
+  UA: 'added by them',
+  DU: 'deleted by us',
+  AA: 'added on both sides',
+  UU: 'modified on both sides',
+};
+
+/**
+ * List files with unresolved conflicts
+ */
+export async function getConflictedFiles(options?: GitOperationOptions): Promise<ConflictedFile[]> {
+  const git = await getGit(options);
+
+  try {
+    const output = await git.raw(['status', '--porcelain=v1', '--untracked-files=no']);
+    return output
+      .split('\n')
+      .filter(line => CONFLICT_CODES[line.substring(0, 2)])
+      .map(line => {
+        const code = line.substring(0, 2);
+        return { path: line.substring(3), code, description: CONFLICT_CODES[code] };
+      });
+  } catch (error) {
+    throw new GitmojiError('GIT_ERROR', `Failed to check git status: ${error}`);
+  }
+}
+
+/**
+ * Apply the inverse of a commit to the index and working tree without committing.
+ * For merge commits, `mainline` is the 1-based parent whose side is kept.
+ */
+export async function revertNoCommit(
+  commit: string,
+  mainline?: number,
+  options?: GitOperationOptions
+): Promise<void> {
+  assertRef(commit, 'commit');
+
+  const git = await getGit(options);
+  const args = ['revert', '--no-commit', '--no-edit'];
+
+  if (mainline !== undefined) {
+    args.push('--mainline', String(mainline));
+  }
+
+  try {
+    await git.raw([...args, '--end-of-options', commit]);
+  } catch (error) {
+    throw new GitmojiError('GIT_ERROR', `Failed to revert ${commit}: ${error}`);
+  }
+}
+
+/**
+ * Abort a revert in progress, restoring HEAD, the index and the working tree
+ */
+export async function abortRevert(options?: GitOperationOptions): Promise<void> {
+  const git = await getGit(options);
+
+  try {
+    await git.raw(['revert', '--abort']);
   } catch (error) {
-    throw new Error(`Failed to check git status: ${error}`);
+    throw new GitmojiError('GIT_ERROR', `Failed to abort revert: ${error}`);
   }
 }
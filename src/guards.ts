@@ -0,0 +1,196 @@
+import { access } from 'node:fs/promises';
+import { listAddedLines } from './diff.js';
+import { ErrorCode, GitmojiError } from './errors.js';
+import { getCurrentBranch, getGitPath, getStagedFileSizes, getStagedPatch } from './git.js';
+import type { GitOperationOptions } from './git.js';
+import { formatSecretLocation, scanStagedSecrets } from './secrets.js';
+import { GitmojiConfig, GuardLevel, GuardSettings } from './types.js';
+import { matchesGlob } from './utils.js';
+
+/**
+ * Guards a caller may skip for one commit. An operation in progress and staged secrets cannot
+ * be overridden, only disabled or allowlisted in the config: committing in the middle of an
+ * operation is never what was meant, and secrets must not be waved through by whoever commits.
+ */
+export interface GuardOverrides {
+  allowDetachedHead?: boolean;
+  allowProtectedBranch?: boolean;
+  allowConflictMarkers?: boolean;
+  allowLargeFiles?: boolean;
+}
+
+/**
+ * A guard that found a problem with the repository state or the staged files
+ */
+export interface GuardFinding {
+  guard: keyof Omit<GuardSettings, 'protectedBranches' | 'maxFileSize' | 'secretAllowlist'>;
+  code: ErrorCode;
+  level: Exclude<GuardLevel, 'off'>;
+  message: string;
+  /** Offending locations, as "path" or "path:line" */
+  files?: string[];
+}
+
+// Files git leaves in the git directory while an operation waits to be continued or aborted
+const OPERATION_MARKERS: { path: string; operation: string; abort: string }[] = [
+  { path: 'MERGE_HEAD', operation: 'merge', abort: 'git merge --abort' },
+  { path: 'rebase-merge', operation: 'rebase', abort: 'git rebase --abort' },
+  { path: 'rebase-apply', operation: 'rebase', abort: 'git rebase --abort' },
+  { path: 'CHERRY_PICK_HEAD', operation: 'cherry-pick', abort: 'git cherry-pick --abort' },
+  { path: 'REVERT_HEAD', operation: 'revert', abort: 'git revert --abort' },
+  { path: 'BISECT_LOG', operation: 'bisect', abort: 'git bisect reset' },
+];
+
+const CONFLICT_MARKER = /^(<{7}|>{7}|\|{7})(\s|$)/;
+
+// Locations listed in a finding message before the rest are counted
+const MAX_LISTED = 10;
+
+function listLocations(locations: string[]): string {
+  const listed = locations.slice(0, MAX_LISTED).join(', ');
+  return locations.length > MAX_LISTED ? `${listed} and ${locations.length - MAX_LISTED} more` : listed;
+}
+
+async function exists(filePath: string): Promise<boolean> {
+  try {
+    await access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function findOperationInProgress(options?: GitOperationOptions) {
+  for (const marker of OPERATION_MARKERS) {
+    if (await exists(await getGitPath(marker.path, options))) {
+      return marker;
+    }
+  }
+  return undefined;
+}
+
+function formatSize(bytes: number): string {
+  if (bytes >= 1024 * 1024) {
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  }
+  return bytes >= 1024 ? `${(bytes / 1024).toFixed(1)} KB` : `${bytes} bytes`;
+}
+
+/**
+ * Run the commit guards enabled in the config, leaving out the ones overridden for this commit
+ */
+export async function checkCommitGuards(
+  config: GitmojiConfig,
+  overrides: GuardOverrides = {},
+  options?: GitOperationOptions
+): Promise<GuardFinding[]> {
+  const guards = config.guards;
+  const findings: GuardFinding[] = [];
+
+  if (guards.operationInProgress !== 'off') {
+    const marker = await findOperationInProgress(options);
+    if (marker) {
+      findings.push({
+        guard: 'operationInProgress',
+        code: 'OPERATION_IN_PROGRESS',
+        level: guards.operationInProgress,
+        message: `A ${marker.operation} is in progress. Finish it with git, or run "${marker.abort}" first.`,
+      });
+    }
+  }
+
+  const checkBranch = guards.detachedHead !== 'off' || guards.protectedBranch !== 'off';
+  const branch = checkBranch ? await getCurrentBranch(options) : undefined;
+
+  if (checkBranch && branch === undefined && guards.detachedHead !== 'off' && !overrides.allowDetachedHead) {
+    findings.push({
+      guard: 'detachedHead',
+      code: 'DETACHED_HEAD',
+      level: guards.detachedHead,
+      message: 'HEAD is detached: the commit would not be on any branch. Check out a branch first.',
+    });
+  }
+
+  if (branch !== undefined && guards.protectedBranch !== 'off' && !overrides.allowProtectedBranch) {
+    const pattern = guards.protectedBranches.find(item => matchesGlob(branch, item));
+    if (pattern) {
+      findings.push({
+        guard: 'protectedBranch',
+        code: 'PROTECTED_BRANCH',
+        level: guards.protectedBranch,
+        message: `Branch ${branch} is protected (matches "${pattern}"). Commit on a feature branch instead.`,
+      });
+    }
+  }
+
+  if (guards.conflictMarkers !== 'off' && !overrides.allowConflictMarkers) {
+    const markers = listAddedLines(await getStagedPatch(options))
+      .filter(line => CONFLICT_MARKER.test(line.text))
+      .map(line => `${line.path}:${line.line}`);
+    if (markers.length > 0) {
+      findings.push({
+        guard: 'conflictMarkers',
+        code: 'CONFLICT_MARKERS',
+        level: guards.conflictMarkers,
+        message: `Staged changes contain unresolved conflict markers: ${listLocations(markers)}`,
+        files: markers,
+      });
+    }
+  }
+
+  if (guards.largeFiles !== 'off' && !overrides.allowLargeFiles) {
+    const large = (await getStagedFileSizes(options)).filter(file => file.size > guards.maxFileSize);
+    if (large.length > 0) {
+      findings.push({
+        guard: 'largeFiles',
+        code: 'FILE_TOO_LARGE',
+        level: guards.largeFiles,
+        message: `Staged files exceed ${formatSize(guards.maxFileSize)}: ${listLocations(
+          large.map(file => `${file.path} (${formatSize(file.size)})`)
+        )}`,
+        files: large.map(file => file.path),
+      });
+    }
+  }
+
+  if (guards.secrets !== 'off') {
+    const { findings: secrets } = await scanStagedSecrets(guards.secretAllowlist, options);
+    if (secrets.length > 0) {
+      const listed = secrets.slice(0, MAX_LISTED).map(secret => {
+        const excerpt = secret.excerpt ? `: ${secret.excerpt}` : '';
+        return `- ${formatSecretLocation(secret)} ${secret.description}${excerpt}`;
+      });
+      if (secrets.length > MAX_LISTED) {
+        listed.push(`- and ${secrets.length - MAX_LISTED} more`);
+      }
+      findings.push({
+        guard: 'secrets',
+        code: 'SECRETS_DETECTED',
+        level: guards.secrets,
+        message: `Staged changes contain possible secrets. Unstage them, or add false positives to guards.secretAllowlist in the repository config:\n${listed.join('\n')}`,
+        files: secrets.map(formatSecretLocation),
+      });
+    }
+  }
+
+  return findings;
+}
+
+/**
+ * Refuse the commit if any guard set to "error" fails, with the code of the first one.
+ * Returns the findings of guards set to "warn".
+ */
+export async function enforceCommitGuards(
+  config: GitmojiConfig,
+  overrides: GuardOverrides = {},
+  options?: GitOperationOptions
+): Promise<GuardFinding[]> {
+  const findings = await checkCommitGuards(config, overrides, options);
+  const errors = findings.filter(finding => finding.level === 'error');
+
+  if (errors.length > 0) {
+    throw new GitmojiError(errors[0].code, errors.map(finding => finding.message).join('\n'));
+  }
+
+  return findings.filter(finding => finding.level === 'warn');
+}
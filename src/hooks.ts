@@ -0,0 +1,280 @@
+import { chmod, mkdir, readFile, rename, stat, unlink, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { getConfigValue, getGitPath } from './git.js';
+import type { GitOperationOptions } from './git.js';
+import { GitmojiError } from './errors.js';
+
+/**
+ * Git hooks managed by this package
+ */
+export type HookName = 'commit-msg' | 'prepare-commit-msg';
+
+export const HOOK_NAMES: HookName[] = ['commit-msg', 'prepare-commit-msg'];
+
+/**
+ * Where hooks are installed and how
+ */
+export interface HooksLocation {
+  dir: string;
+  /** Value of core.hooksPath, if set */
+  hooksPath?: string;
+  /**
+   * Husky keeps user hooks as tracked shell snippets, so we add a marked block
+   * to them instead of replacing the file
+   */
+  husky: boolean;
+}
+
+/**
+ * Result of installing or uninstalling one hook
+ */
+export interface HookChange {
+  hook: HookName;
+  path: string;
+  action: 'created' | 'updated' | 'chained' | 'appended' | 'removed' | 'restored' | 'skipped';
+  detail?: string;
+}
+
+const MARKER = '# Installed by gitmoji-commit-mcp';
+const BLOCK_START = '# >>> gitmoji-commit-mcp >>>';
+const BLOCK_END = '# <<< gitmoji-commit-mcp <<<';
+const CHAINED_SUFFIX = '.gitmoji-chained';
+
+// Messages git generates itself are never validated by the hook
+const SKIP_PATTERN = '"Merge "*|"Revert \\""*|"fixup! "*|"squash! "*|"amend! "*';
+
+async function readOptionalFile(filePath: string): Promise<string | undefined> {
+  try {
+    return await readFile(filePath, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return undefined;
+    }
+    throw new Error(`Failed to read ${filePath}: ${error}`);
+  }
+}
+
+async function exists(filePath: string): Promise<boolean> {
+  try {
+    await stat(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Shell function that runs the CLI, preferring the binary on PATH and falling back
+ * to the installation that wrote the hook
+ */
+function getRunnerFunction(): string {
+  const entryPoint = fileURLToPath(new URL('./index.js', import.meta.url)).replace(/\\/g, '/');
+
+  return [
+    'gitmoji_commit_mcp() {',
+    '  if command -v gitmoji-commit-mcp >/dev/null 2>&1; then',
+    '    gitmoji-commit-mcp "$@"',
+    `  elif [ -f "${entryPoint}" ]; then`,
+    `    node "${entryPoint}" "$@"`,
+    '  else',
+    '    npx --no-install gitmoji-commit-mcp "$@"',
+    '  fi',
+    '}',
+  ].join('\n');
+}
+
+function getHookBody(hook: HookName): string {
+  const runner = getRunnerFunction();
+
+  if (hook === 'commit-msg') {
+    return [
+      runner,
+      'case "$(head -n 1 "$1")" in',
+      `  ${SKIP_PATTERN}) ;;`,
+      '  *) gitmoji_commit_mcp validate --file "$1" || exit 1 ;;',
+      'esac',
+    ].join('\n');
+  }
+
+  // Only pre-fill plain `git commit` invocations, never merges, amends or -m messages
+  return [
+    runner,
+    'if [ -z "$2" ] || [ "$2" = "template" ]; then',
+    '  gitmoji_commit_mcp prefill --file "$1" >/dev/null 2>&1 || true',
+    'fi',
+  ].join('\n');
+}
+
+function getHookScript(hook: HookName, chained: boolean): string {
+  const lines = ['#!/bin/sh', MARKER];
+
+  // Git only runs executable hooks, so a chained hook that was not executable stays disabled
+  if (chained) {
+    const chainedPath = `"$(dirname "$0")/${hook}${CHAINED_SUFFIX}"`;
+    lines.push(`if [ -x ${chainedPath} ]; then`, `  ${chainedPath} "$@" || exit $?`, 'fi');
+  }
+
+  lines.push(getHookBody(hook));
+  return lines.join('\n') + '\n';
+}
+
+function getHookBlock(hook: HookName): string {
+  return `${BLOCK_START}\n${getHookBody(hook)}\n${BLOCK_END}\n`;
+}
+
+function stripHookBlock(content: string): string {
+  const start = content.indexOf(BLOCK_START);
+  const end = content.indexOf(BLOCK_END);
+
+  if (start === -1 || end === -1) {
+    return content;
+  }
+
+  return (content.substring(0, start) + content.substring(end + BLOCK_END.length + 1)).replace(/\n{3,}$/, '\n\n');
+}
+
+/**
+ * Locate the directory hooks should be written to, following core.hooksPath and husky layouts
+ */
+export async function getHooksLocation(options?: GitOperationOptions): Promise<HooksLocation> {
+  const hooksPath = await getConfigValue('core.hooksPath', options);
+  let dir = await getGitPath('hooks', options);
+
+  // Husky v9 points core.hooksPath at .husky/_ whose scripts are regenerated on install;
+  // user hooks live one level up
+  if (path.basename(dir) === '_' && path.basename(path.dirname(dir)) === '.husky') {
+    dir = path.dirname(dir);
+  }
+
+  const husky = path.basename(dir) === '.husky';
+
+  // e.g. core.hooksPath=/dev/null, which disables hooks entirely
+  const info = await stat(dir).catch(() => undefined);
+  if (info && !info.isDirectory()) {
+    throw new GitmojiError('GIT_ERROR', `Git hooks are disabled: core.hooksPath points to ${dir}, which is not a directory`);
+  }
+
+  return { dir, hooksPath, husky };
+}
+
+async function installHook(hook: HookName, location: HooksLocation): Promise<HookChange> {
+  const hookPath = path.join(location.dir, hook);
+  const existing = await readOptionalFile(hookPath);
+
+  if (location.husky) {
+    if (existing === undefined) {
+      await writeFile(hookPath, `#!/usr/bin/env sh\n${getHookBlock(hook)}`, 'utf8');
+      await chmod(hookPath, 0o755);
+      return { hook, path: hookPath, action: 'created' };
+    }
+
+    const hadBlock = existing.includes(BLOCK_START);
+    const base = stripHookBlock(existing);
+    const separator = base.length === 0 || base.endsWith('\n') ? '' : '\n';
+    await writeFile(hookPath, `${base}${separator}${getHookBlock(hook)}`, 'utf8');
+    return { hook, path: hookPath, action: hadBlock ? 'updated' : 'appended', detail: 'added to existing husky hook' };
+  }
+
+  if (existing !== undefined && existing.includes(MARKER)) {
+    const chained = await exists(`${hookPath}${CHAINED_SUFFIX}`);
+    await writeFile(hookPath, getHookScript(hook, chained), 'utf8');
+    await chmod(hookPath, 0o755);
+    return { hook, path: hookPath, action: 'updated' };
+  }
+
+  if (existing !== undefined) {
+    // Keep the existing hook, with its mode, and run it before ours
+    const executable = ((await stat(hookPath)).mode & 0o111) !== 0;
+    await rename(hookPath, `${hookPath}${CHAINED_SUFFIX}`);
+    await writeFile(hookPath, getHookScript(hook, true), 'utf8');
+    await chmod(hookPath, 0o755);
+    const detail = `existing hook moved to ${hook}${CHAINED_SUFFIX}${executable ? '' : ', not run as it is not executable'}`;
+    return { hook, path: hookPath, action: 'chained', detail };
+  }
+
+  await writeFile(hookPath, getHookScript(hook, false), 'utf8');
+  await chmod(hookPath, 0o755);
+  return { hook, path: hookPath, action: 'created' };
+}
+
+async function uninstallHook(hook: HookName, location: HooksLocation): Promise<HookChange> {
+  const hookPath = path.join(location.dir, hook);
+  const existing = await readOptionalFile(hookPath);
+
+  if (existing === undefined || !(existing.includes(MARKER) || existing.includes(BLOCK_START))) {
+    return { hook, path: hookPath, action: 'skipped', detail: 'not installed' };
+  }
+
+  if (location.husky || !existing.includes(MARKER)) {
+    const remaining = stripHookBlock(existing);
+    if (remaining.replace(/^#!.*$/m, '').trim().length === 0) {
+      await unlink(hookPath);
+      return { hook, path: hookPath, action: 'removed' };
+    }
+    await writeFile(hookPath, remaining, 'utf8');
+    return { hook, path: hookPath, action: 'updated', detail: 'removed gitmoji block' };
+  }
+
+  await unlink(hookPath);
+
+  if (await exists(`${hookPath}${CHAINED_SUFFIX}`)) {
+    await rename(`${hookPath}${CHAINED_SUFFIX}`, hookPath);
+    return { hook, path: hookPath, action: 'restored', detail: 'previous hook restored' };
+  }
+
+  return { hook, path: hookPath, action: 'removed' };
+}
+
+/**
+ * Hooks `git commit` runs, in order
+ */
+export const COMMIT_HOOKS = ['pre-commit', 'prepare-commit-msg', 'commit-msg', 'post-commit'];
+
+/**
+ * List the commit hooks git would run: executable files in the effective hooks directory
+ */
+export async function getActiveCommitHooks(options?: GitOperationOptions): Promise<{ hook: string; path: string }[]> {
+  const dir = await getGitPath('hooks', options);
+  const active: { hook: string; path: string }[] = [];
+
+  for (const hook of COMMIT_HOOKS) {
+    const hookPath = path.join(dir, hook);
+    const info = await stat(hookPath).catch(() => undefined);
+    if (info?.isFile() && (info.mode & 0o111) !== 0) {
+      active.push({ hook, path: hookPath });
+    }
+  }
+
+  return active;
+}
+
+/**
+ * Install the given hooks, chaining with any hooks already present
+ */
+export async function installHooks(hooks: HookName[], options?: GitOperationOptions): Promise<HookChange[]> {
+  const location = await getHooksLocation(options);
+  const changes: HookChange[] = [];
+
+  await mkdir(location.dir, { recursive: true });
+
+  for (const hook of hooks) {
+    changes.push(await installHook(hook, location));
+  }
+
+  return changes;
+}
+
+/**
+ * Remove the given hooks, restoring hooks that were chained on install
+ */
+export async function uninstallHooks(hooks: HookName[] = HOOK_NAMES, options?: GitOperationOptions): Promise<HookChange[]> {
+  const location = await getHooksLocation(options);
+  const changes: HookChange[] = [];
+
+  for (const hook of hooks) {
+    changes.push(await uninstallHook(hook, location));
+  }
+
+  return changes;
+}
@@ -0,0 +1,144 @@
+import { getCommitsInRange } from './git.js';
+import type { GitOperationOptions } from './git.js';
+import { CommitInfo, GitmojiConfig, LintSettings, SpecialCommitHandling } from './types.js';
+import { validateCommitMessage } from './utils.js';
+
+/**
+ * What kind of commit a history entry is
+ */
+export type CommitKind = 'normal' | 'merge' | 'fixup' | 'revert';
+
+/**
+ * Lint outcome for one commit
+ */
+export interface CommitLintReport {
+  hash: string;
+  shortHash: string;
+  subject: string;
+  kind: CommitKind;
+  status: 'passed' | 'failed' | 'skipped';
+  issues: string[];
+  warnings: string[];
+}
+
+/**
+ * Lint outcome for a whole range
+ */
+export interface RangeLintResult {
+  range: string;
+  passed: boolean;
+  commits: CommitLintReport[];
+  summary: {
+    total: number;
+    passed: number;
+    failed: number;
+    skipped: number;
+    withWarnings: number;
+  };
+}
+
+const FIXUP_PREFIXES = ['fixup! ', 'squash! ', 'amend! '];
+
+/**
+ * Classify a commit so merges, fixups and git-generated reverts can be handled separately
+ */
+export function getCommitKind(commit: CommitInfo): CommitKind {
+  const subject = commit.message.split('\n')[0];
+
+  if (commit.parents.length > 1) {
+    return 'merge';
+  }
+  if (FIXUP_PREFIXES.some(prefix => subject.startsWith(prefix))) {
+    return 'fixup';
+  }
+  if (/^Revert ".*"$/.test(subject)) {
+    return 'revert';
+  }
+  return 'normal';
+}
+
+function getHandling(kind: CommitKind, settings: LintSettings): SpecialCommitHandling {
+  switch (kind) {
+    case 'merge':
+      return settings.merges;
+    case 'fixup':
+      return settings.fixups;
+    case 'revert':
+      return settings.reverts;
+    default:
+      return 'validate';
+  }
+}
+
+const FAIL_REASONS: Record<Exclude<CommitKind, 'normal'>, string> = {
+  merge: 'Merge commits are not allowed in this range',
+  fixup: 'Fixup/squash commits must be squashed before merging',
+  revert: 'Use the convention for reverts instead of the message generated by git revert',
+};
+
+/**
+ * Validate every commit against the convention
+ */
+export function lintCommits(
+  commits: CommitInfo[],
+  range: string,
+  config: GitmojiConfig,
+  settings: LintSettings = config.lint
+): RangeLintResult {
+  const reports: CommitLintReport[] = commits.map(commit => {
+    const kind = getCommitKind(commit);
+    const handling = getHandling(kind, settings);
+    const report: CommitLintReport = {
+      hash: commit.hash,
+      shortHash: commit.shortHash,
+      subject: commit.message.split('\n')[0],
+      kind,
+      status: 'passed',
+      issues: [],
+      warnings: [],
+    };
+
+    if (handling === 'skip') {
+      report.status = 'skipped';
+    } else if (handling === 'fail' && kind !== 'normal') {
+      report.status = 'failed';
+      report.issues.push(FAIL_REASONS[kind]);
+    } else {
+      const validation = validateCommitMessage(commit.message, config);
+      report.status = validation.valid ? 'passed' : 'failed';
+      report.issues = validation.issues;
+      report.warnings = validation.warnings ?? [];
+    }
+
+    return report;
+  });
+
+  const count = (status: CommitLintReport['status']) => reports.filter(report => report.status === status).length;
+  const failed = count('failed');
+
+  return {
+    range,
+    passed: failed === 0,
+    commits: reports,
+    summary: {
+      total: reports.length,
+      passed: count('passed'),
+      failed,
+      skipped: count('skipped'),
+      withWarnings: reports.filter(report => report.warnings.length > 0).length,
+    },
+  };
+}
+
+/**
+ * Read a revision range and validate every commit in it
+ */
+export async function lintRange(
+  range: string,
+  config: GitmojiConfig,
+  settings: Partial<LintSettings> = {},
+  gitOptions?: GitOperationOptions
+): Promise<RangeLintResult> {
+  const commits = await getCommitsInRange(range, { ...gitOptions, includeMerges: true });
+  return lintCommits(commits, range, config, { ...config.lint, ...settings });
+}
@@ -0,0 +1,395 @@
+import { Diagnostic, DiagnosticSeverity, MessageConvention, Span } from './types.js';
+
+/**
+ * Parsed first line, e.g. `<emoji> <type>(<scope>)!: <title>`. The emoji is kept as written
+ * (Unicode, with or without a variation selector, or a shortcode). In the gitmoji
+ * convention there is no type; it follows from the emoji.
+ */
+export interface ParsedHeader {
+  text: string;
+  span: Span;
+  emoji?: string;
+  emojiSpan?: Span;
+  type?: string;
+  typeSpan?: Span;
+  scope?: string;
+  scopeSpan?: Span;
+  /** `!` before the colon */
+  breaking: boolean;
+  title?: string;
+  titleSpan?: Span;
+}
+
+/**
+ * A footer such as `Refs: #12`, `Closes #12` or `BREAKING CHANGE: ...`
+ */
+export interface ParsedFooter {
+  token: string;
+  separator: ':' | '#';
+  /** Value with continuation lines unfolded; `#` footers keep their `#` */
+  value: string;
+  span: Span;
+  tokenSpan: Span;
+  valueSpan: Span;
+}
+
+/**
+ * Body paragraphs between the header and the footers
+ */
+export interface ParsedBody {
+  text: string;
+  span: Span;
+  paragraphs: Span[];
+}
+
+/**
+ * A commit message split into header, body and footers, with character offsets
+ * (string indices into the message) for every part
+ */
+export interface ParsedCommit {
+  header: ParsedHeader;
+  body?: ParsedBody;
+  footers: ParsedFooter[];
+  /** `!` in the header or a `BREAKING CHANGE`/`BREAKING-CHANGE` footer */
+  breaking: boolean;
+  breakingNote?: string;
+  /** Syntax problems; an error means the message does not follow the specification */
+  diagnostics: Diagnostic[];
+  valid: boolean;
+}
+
+/**
+ * Emoji (or other symbol) prefix before the type, or a gitmoji shortcode such as `:sparkles:`
+ */
+const EMOJI_REGEX = /^(?::[a-z0-9_+-]+:|[^\sA-Za-z0-9(:]+)/;
+const TYPE_REGEX = /^[A-Za-z][A-Za-z0-9-]*/;
+const FOOTER_REGEX = /^(BREAKING[ -]CHANGE|[A-Za-z0-9][A-Za-z0-9-]*)(:[ \t]*| #)(.*)$/i;
+const BREAKING_TOKEN_REGEX = /^BREAKING[ -]CHANGE$/i;
+const SPACED_TOKEN_REGEX = /^([A-Za-z][A-Za-z0-9-]*(?: [A-Za-z0-9-]+){1,2}):\s+\S/;
+
+/**
+ * Header layout of each convention
+ */
+export const CONVENTION_FORMATS: Record<MessageConvention, string> = {
+  'emoji-conventional': '<emoji> <type>(<scope>): <title>',
+  conventional: '<type>(<scope>): <title>',
+  gitmoji: '<emoji> (<scope>): <title>',
+  'conventional-emoji-after-colon': '<type>(<scope>): <emoji> <title>',
+};
+
+interface Line {
+  text: string;
+  start: number;
+}
+
+/**
+ * Turn a character offset into a 1-based line and column
+ */
+export function getPosition(text: string, offset: number): { line: number; column: number } {
+  const before = text.substring(0, offset);
+  const line = before.split('\n').length;
+  return { line, column: offset - (before.lastIndexOf('\n') + 1) + 1 };
+}
+
+/**
+ * Build a diagnostic for a span of the message
+ */
+export function createDiagnostic(
+  text: string,
+  severity: DiagnosticSeverity,
+  code: string,
+  message: string,
+  span: Span
+): Diagnostic {
+  return { severity, code, message, ...span, ...getPosition(text, span.start) };
+}
+
+function splitLines(message: string): Line[] {
+  const lines: Line[] = [];
+  let start = 0;
+
+  for (const text of message.split('\n')) {
+    lines.push({ text, start });
+    start += text.length + 1;
+  }
+
+  return lines;
+}
+
+function matchFooter(line: string): RegExpExecArray | null {
+  const match = FOOTER_REGEX.exec(line);
+
+  // "https://example.com" is not a footer with token "https"
+  if (match && match[2] === ':' && match[3].startsWith('/')) {
+    return null;
+  }
+
+  return match;
+}
+
+function parseHeader(
+  message: string,
+  line: Line,
+  convention: MessageConvention,
+  report: (d: Diagnostic) => void
+): ParsedHeader {
+  const text = line.text;
+  const header: ParsedHeader = { text, span: { start: 0, end: text.length }, breaking: false };
+  const expected = `Expected: ${CONVENTION_FORMATS[convention]}`;
+  const error = (code: string, msg: string, start: number, end: number = start + 1) =>
+    report(createDiagnostic(message, 'error', code, msg, { start, end: Math.min(Math.max(end, start), text.length) }));
+
+  let pos = 0;
+
+  const readEmoji = () => {
+    const emoji = EMOJI_REGEX.exec(text.substring(pos));
+    if (!emoji) {
+      return;
+    }
+
+    header.emoji = emoji[0];
+    header.emojiSpan = { start: pos, end: pos + emoji[0].length };
+    pos += emoji[0].length;
+
+    const space = /^\s+/.exec(text.substring(pos));
+    if (!space) {
+      error('missing-space-after-emoji', 'Expected a space after the emoji', pos);
+    } else {
+      pos += space[0].length;
+    }
+  };
+
+  // `(<scope>)!:` after the type (or after the emoji in the gitmoji convention)
+  const readScopeAndColon = (after: string): boolean => {
+    if (text[pos] === '(') {
+      const close = text.indexOf(')', pos);
+      if (close === -1) {
+        error('unclosed-scope', 'Scope is missing its closing parenthesis', pos, text.length);
+        return false;
+      }
+
+      const scope = text.substring(pos + 1, close);
+      if (scope.trim().length === 0) {
+        error('empty-scope', 'Scope cannot be empty', pos, close + 1);
+      } else {
+        header.scope = scope;
+        header.scopeSpan = { start: pos + 1, end: close };
+      }
+      pos = close + 1;
+    }
+
+    if (text[pos] === '!') {
+      header.breaking = true;
+      pos++;
+    }
+
+    if (text[pos] !== ':') {
+      const found = text[pos] === undefined ? 'end of line' : `"${text[pos]}"`;
+      error('missing-colon', `Expected ":" after the ${after}${header.scope ? ' and scope' : ''}, found ${found}`, pos);
+      return false;
+    }
+    pos++;
+
+    const space = /^\s*/.exec(text.substring(pos))![0];
+    if (space.length === 0 && pos < text.length) {
+      error('missing-space', 'Expected a space after ":"', pos);
+    }
+    pos += space.length;
+    return true;
+  };
+
+  if (convention === 'gitmoji') {
+    readEmoji();
+
+    // The scope part is optional: `<emoji> <title>` or `<emoji> (<scope>): <title>`
+    if ((text[pos] === '(' || text[pos] === '!') && !readScopeAndColon('emoji')) {
+      return header;
+    }
+  } else {
+    if (convention !== 'conventional-emoji-after-colon') {
+      readEmoji();
+    }
+
+    const type = TYPE_REGEX.exec(text.substring(pos));
+    if (!type) {
+      error('missing-type', `Expected a commit type. ${expected}`, pos);
+      return header;
+    }
+    header.type = type[0];
+    header.typeSpan = { start: pos, end: pos + type[0].length };
+    pos += type[0].length;
+
+    if (!readScopeAndColon('type')) {
+      return header;
+    }
+
+    if (convention === 'conventional-emoji-after-colon') {
+      readEmoji();
+    }
+  }
+
+  const title = text.substring(pos).replace(/\s+$/, '');
+  if (title.length === 0) {
+    error('empty-title', 'Title cannot be empty', pos);
+  } else {
+    header.title = title;
+    header.titleSpan = { start: pos, end: pos + title.length };
+  }
+
+  return header;
+}
+
+/**
+ * Group non-blank lines into paragraphs, as [first, last] line indexes
+ */
+function getParagraphs(lines: Line[], from: number): [number, number][] {
+  const paragraphs: [number, number][] = [];
+
+  for (let i = from; i < lines.length; i++) {
+    if (lines[i].text.trim() === '') {
+      continue;
+    }
+    if (i > from && lines[i - 1].text.trim() !== '' && paragraphs.length > 0) {
+      paragraphs[paragraphs.length - 1][1] = i;
+    } else {
+      paragraphs.push([i, i]);
+    }
+  }
+
+  return paragraphs;
+}
+
+function parseFooters(message: string, lines: Line[], from: number, report: (d: Diagnostic) => void): ParsedFooter[] {
+  const footers: ParsedFooter[] = [];
+
+  for (let i = from; i < lines.length; i++) {
+    const line = lines[i];
+    const match = matchFooter(line.text);
+
+    if (match) {
+      const [, token, separator, rawValue] = match;
+      const valueStart = line.start + token.length + separator.length - (separator === ' #' ? 1 : 0);
+      const value = (separator === ' #' ? '#' : '') + rawValue.replace(/\s+$/, '');
+      const tokenSpan = { start: line.start, end: line.start + token.length };
+
+      footers.push({
+        token,
+        separator: separator === ' #' ? '#' : ':',
+        value,
+        span: { start: line.start, end: valueStart + value.length },
+        tokenSpan,
+        valueSpan: { start: valueStart, end: valueStart + value.length },
+      });
+
+      if (BREAKING_TOKEN_REGEX.test(token) && token !== token.toUpperCase()) {
+        report(createDiagnostic(message, 'error', 'breaking-change-case', `"${token}" must be uppercase (BREAKING CHANGE)`, tokenSpan));
+      }
+      if (separator.startsWith(':') && rawValue.trim().length === 0) {
+        report(createDiagnostic(message, 'error', 'empty-footer', `Footer "${token}" has no value`, tokenSpan));
+      } else if (separator === ':') {
+        report(
+          createDiagnostic(message, 'warning', 'footer-spacing', `Put a single space after the colon in footer "${token}"`, tokenSpan)
+        );
+      }
+      continue;
+    }
+
+    const footer = footers[footers.length - 1];
+    const spacedToken = SPACED_TOKEN_REGEX.exec(line.text);
+
+    if (spacedToken) {
+      report(
+        createDiagnostic(
+          message,
+          'error',
+          'invalid-footer-token',
+          `Invalid footer "${spacedToken[1]}": tokens cannot contain spaces (use "${spacedToken[1].replace(/ /g, '-')}")`,
+          { start: line.start, end: line.start + spacedToken[1].length }
+        )
+      );
+    } else if (line.text.trim() !== '' && !/^\s/.test(line.text)) {
+      report(
+        createDiagnostic(
+          message,
+          'warning',
+          'footer-continuation',
+          `Indent continuation lines of footer "${footer.token}" so git recognizes the footers as trailers`,
+          { start: line.start, end: line.start + line.text.length }
+        )
+      );
+    }
+
+    // Continuation of the previous footer's value (blank lines included)
+    footer.value += `\n${line.text.trim()}`;
+    if (line.text.trim() !== '') {
+      footer.valueSpan.end = footer.span.end = line.start + line.text.replace(/\s+$/, '').length;
+    }
+  }
+
+  for (const footer of footers) {
+    footer.value = footer.value.replace(/\n+$/, '');
+  }
+
+  return footers;
+}
+
+/**
+ * Parse a commit message following the Conventional Commits specification, with the emoji
+ * placed as the convention expects it (the emoji is optional to the parser). Footers start
+ * at the first paragraph of the trailing run of paragraphs that each begin with a
+ * `token: value` or `token #value` line; lines that are not footers continue the previous
+ * footer's value.
+ */
+export function parseConventionalCommit(
+  message: string,
+  convention: MessageConvention = 'emoji-conventional'
+): ParsedCommit {
+  const diagnostics: Diagnostic[] = [];
+  const report = (diagnostic: Diagnostic) => diagnostics.push(diagnostic);
+  const lines = splitLines(message);
+
+  const header = parseHeader(message, lines[0], convention, report);
+
+  if (lines.length > 1 && lines[1].text.trim() !== '') {
+    report(
+      createDiagnostic(message, 'warning', 'missing-blank-line', 'Second line should be blank (separate title from description)', {
+        start: lines[1].start,
+        end: lines[1].start + lines[1].text.length,
+      })
+    );
+  }
+
+  const paragraphs = getParagraphs(lines, 1);
+
+  let footerIndex = paragraphs.length;
+  while (footerIndex > 0 && matchFooter(lines[paragraphs[footerIndex - 1][0]].text)) {
+    footerIndex--;
+  }
+
+  const bodyParagraphs = paragraphs.slice(0, footerIndex);
+  let body: ParsedBody | undefined;
+
+  if (bodyParagraphs.length > 0) {
+    const spans = bodyParagraphs.map(([first, last]) => ({
+      start: lines[first].start,
+      end: lines[last].start + lines[last].text.length,
+    }));
+    const span = { start: spans[0].start, end: spans[spans.length - 1].end };
+    body = { text: message.substring(span.start, span.end), span, paragraphs: spans };
+  }
+
+  const footers =
+    footerIndex < paragraphs.length ? parseFooters(message, lines, paragraphs[footerIndex][0], report) : [];
+
+  const breakingFooter = footers.find(footer => BREAKING_TOKEN_REGEX.test(footer.token));
+
+  return {
+    header,
+    body,
+    footers,
+    breaking: header.breaking || Boolean(breakingFooter),
+    breakingNote: breakingFooter?.value || undefined,
+    diagnostics,
+    valid: !diagnostics.some(diagnostic => diagnostic.severity === 'error'),
+  };
+}
@@ -0,0 +1,285 @@
+import path from 'node:path';
+import { classifyFile, parsePatch, SUPPORTING_TYPES } from './analysis.js';
+import {
+  createCommit,
+  getRepoRoot,
+  getStagedPatch,
+  readTreeIntoIndex,
+  resetSoft,
+  resolveRef,
+  stageFromTree,
+  writeIndexTree,
+} from './git.js';
+import type { GitOperationOptions } from './git.js';
+import { inferScope } from './scope.js';
+import { CommitParams, CommitType, FileClassification, GitmojiConfig } from './types.js';
+import { formatCommitMessage, validateCommitMessage } from './utils.js';
+import { GitmojiError, getErrorCode } from './errors.js';
+
+/**
+ * One commit of a plan, with a suggested message
+ */
+export interface PlannedCommit {
+  type: CommitType;
+  emoji: string;
+  scope?: string;
+  title: string;
+  files: string[];
+  reason: string;
+}
+
+/**
+ * Staged files grouped into logical commits
+ */
+export interface CommitPlan {
+  commits: PlannedCommit[];
+}
+
+/**
+ * A commit to create when executing a plan
+ */
+export type PlanStep = CommitParams & { files: string[] };
+
+/**
+ * Outcome of executing a plan
+ */
+export interface PlanExecutionResult {
+  commits: { hash: string; message: string; files: string[] }[];
+  /** Staged files that were not part of any commit and are still staged */
+  remaining: string[];
+}
+
+type ClassifiedFile = FileClassification & { scope?: string };
+
+interface FileGroup {
+  type: CommitType;
+  scope?: string;
+  files: ClassifiedFile[];
+}
+
+/**
+ * How a suggested title starts for each type; the subject (file, directory or scope) follows
+ */
+const TITLE_VERBS: Record<string, string> = {
+  feat: 'add',
+  fix: 'fix',
+  docs: 'document',
+  style: 'format',
+  refactor: 'refactor',
+  perf: 'improve performance of',
+  test: 'add tests for',
+  build: 'update build for',
+  ci: 'update CI for',
+  chore: 'update',
+  revert: 'revert',
+  security: 'harden',
+  deprecate: 'deprecate',
+  breaking: 'change',
+  i18n: 'update translations for',
+  a11y: 'improve accessibility of',
+  release: 'release',
+};
+
+/**
+ * Titles that read better without a subject
+ */
+const FIXED_TITLES: Record<string, string> = {
+  deps: 'update dependencies',
+  ci: 'update CI configuration',
+};
+
+/**
+ * File name without directories, extensions and test markers, used to pair tests with sources
+ */
+function getStem(file: string): string {
+  return path.posix
+    .basename(file)
+    .replace(/\..*$/, '')
+    .replace(/^test_|_test$|_spec$/, '')
+    .toLowerCase();
+}
+
+function getCommonDirectory(files: string[]): string | undefined {
+  const dirs = files.map(file => path.posix.dirname(file).split('/'));
+  const common: string[] = [];
+
+  for (let i = 0; dirs.every(dir => i < dir.length && dir[i] === dirs[0][i]); i++) {
+    common.push(dirs[0][i]);
+  }
+
+  const dir = common.join('/');
+  return dir.length > 0 && dir !== '.' ? path.posix.basename(dir) : undefined;
+}
+
+function suggestTitle(group: FileGroup, config: GitmojiConfig): string {
+  // Name the sources a commit is about, not the tests and docs that came along
+  const main = group.files.filter(file => SUPPORTING_TYPES.has(group.type) || !SUPPORTING_TYPES.has(file.type));
+  const files = main.map(file => file.path);
+  const names = [...new Set(files.map(file => path.posix.basename(file).replace(/\.[^.]+$/, '')))];
+  const directory = getCommonDirectory(files);
+
+  const subject =
+    names.length <= 2
+      ? names.join(' and ')
+      : (directory !== group.scope ? directory : undefined) ?? group.scope ?? `${files.length} files`;
+
+  const title =
+    files.length > 1 && FIXED_TITLES[group.type]
+      ? FIXED_TITLES[group.type]
+      : `${TITLE_VERBS[group.type] ?? 'update'} ${subject}`;
+
+  return title.substring(0, config.rules.titleMaxLength);
+}
+
+/**
+ * Group classified files by type and scope. Tests and docs join the commit of the source
+ * they cover (same file stem, then same scope) instead of forming commits of their own.
+ */
+function groupFiles(files: ClassifiedFile[], config: GitmojiConfig): FileGroup[] {
+  const groups: FileGroup[] = [];
+  const primary = files.filter(file => !SUPPORTING_TYPES.has(file.type));
+  const supporting = files.filter(file => SUPPORTING_TYPES.has(file.type));
+
+  const addToGroup = (file: ClassifiedFile, group?: FileGroup) => {
+    if (group) {
+      group.files.push(file);
+    } else {
+      groups.push({ type: file.type, scope: file.scope, files: [file] });
+    }
+  };
+
+  for (const file of primary) {
+    addToGroup(file, groups.find(group => group.type === file.type && group.scope === file.scope));
+  }
+
+  const primaryGroups = [...groups];
+  for (const file of supporting) {
+    const stem = getStem(file.path);
+    const target =
+      primaryGroups.find(group => group.files.some(other => getStem(other.path) === stem)) ??
+      (file.scope ? primaryGroups.find(group => group.scope === file.scope) : undefined) ??
+      groups.find(group => group.type === file.type && group.scope === file.scope);
+    addToGroup(file, target);
+  }
+
+  // Catalog order, with commits made only of tests or docs last
+  const order = Object.keys(config.types);
+  const rank = (group: FileGroup) =>
+    (SUPPORTING_TYPES.has(group.type) ? order.length : 0) + order.indexOf(group.type);
+
+  return groups.sort((a, b) => rank(a) - rank(b));
+}
+
+/**
+ * Split the staged files into a plan of logical commits
+ */
+export async function planCommits(config: GitmojiConfig, gitOptions?: GitOperationOptions): Promise<CommitPlan> {
+  const patch = parsePatch(await getStagedPatch(gitOptions));
+
+  if (patch.length === 0) {
+    throw new GitmojiError('NO_STAGED_CHANGES', 'No staged changes found');
+  }
+
+  const root = await getRepoRoot(gitOptions);
+  const scopes = await inferScope(root, patch.map(file => file.path));
+  const scopeByPath = new Map(scopes.files.map(file => [file.path, file.scope]));
+
+  const classified = patch.map(file => ({
+    ...classifyFile(file, config.types),
+    scope: scopeByPath.get(file.path),
+  }));
+
+  const commits = groupFiles(classified, config).map(group => ({
+    type: group.type,
+    emoji: config.types[group.type].emoji,
+    scope: group.scope,
+    title: suggestTitle(group, config),
+    files: group.files.map(file => file.path),
+    reason: [...new Set(group.files.map(file => file.reason))].join('; '),
+  }));
+
+  return { commits };
+}
+
+/**
+ * Create one commit per plan step, staging exactly the originally staged content of its files.
+ * On failure, HEAD and the index are restored to where they were before the first step.
+ */
+export async function executePlan(
+  steps: PlanStep[],
+  config: GitmojiConfig,
+  gitOptions?: GitOperationOptions
+): Promise<PlanExecutionResult> {
+  if (steps.length === 0) {
+    throw new GitmojiError('INVALID_ARGUMENT', 'The plan has no commits');
+  }
+
+  const staged = new Map(parsePatch(await getStagedPatch(gitOptions)).map(file => [file.path, file]));
+  const planned = new Set<string>();
+
+  for (const step of steps) {
+    if (step.files.length === 0) {
+      throw new GitmojiError('INVALID_ARGUMENT', `Commit "${step.title}" has no files`);
+    }
+    for (const file of step.files) {
+      if (!staged.has(file)) {
+        throw new GitmojiError('INVALID_ARGUMENT', `${file} is not staged`);
+      }
+      if (planned.has(file)) {
+        throw new GitmojiError('INVALID_ARGUMENT', `${file} is listed in more than one commit`);
+      }
+      planned.add(file);
+    }
+  }
+
+  const messages = steps.map(step => formatCommitMessage(step, config));
+  messages.forEach((message, i) => {
+    const validation = validateCommitMessage(message, config);
+    if (!validation.valid) {
+      throw new GitmojiError('INVALID_MESSAGE', `Commit ${i + 1} ("${steps[i].title}") is invalid: ${validation.issues.join('; ')}`);
+    }
+  });
+
+  const originalTree = await writeIndexTree(gitOptions);
+  const originalHead = await resolveRef('HEAD', gitOptions).catch(() => undefined);
+  const commits: PlanExecutionResult['commits'] = [];
+
+  try {
+    await readTreeIntoIndex(originalHead, gitOptions);
+
+    for (const [i, step] of steps.entries()) {
+      // Renames need their old path staged too, so the deletion lands in the same commit
+      const paths = step.files.flatMap(file => {
+        const oldPath = staged.get(file)?.oldPath;
+        return oldPath ? [file, oldPath] : [file];
+      });
+
+      await stageFromTree(originalTree, paths, gitOptions);
+      const hash = await createCommit(messages[i], gitOptions);
+      commits.push({ hash, message: messages[i], files: step.files });
+    }
+
+    // Files left out of the plan stay staged
+    await readTreeIntoIndex(originalTree, gitOptions);
+  } catch (error) {
+    try {
+      await resetSoft(originalHead, gitOptions);
+      await readTreeIntoIndex(originalTree, gitOptions);
+    } catch (restoreError) {
+      throw new GitmojiError(
+        getErrorCode(error),
+        `Failed to execute commit plan at commit ${commits.length + 1}: ${error}. Restoring the original state also failed: ${restoreError}. The original index tree is ${originalTree}.`
+      );
+    }
+
+    throw new GitmojiError(
+      getErrorCode(error),
+      `Failed to execute commit plan at commit ${commits.length + 1} of ${steps.length}: ${error}. The original index was restored and ${commits.length} created commit(s) were undone.`
+    );
+  }
+
+  return {
+    commits,
+    remaining: [...staged.keys()].filter(file => !planned.has(file)),
+  };
+}
@@ -0,0 +1,541 @@
+import { CatalogPreset, CommitTypeCatalog, COMMIT_TYPES } from './types.js';
+
+/**
+ * The complete gitmoji.dev catalog. Types that have a built-in counterpart keep its name;
+ * every type maps to the conventional type used for changelogs and version bumps.
+ */
+export const GITMOJI_TYPES: CommitTypeCatalog = {
+  style: {
+    emoji: '🎨',
+    code: ':art:',
+    title: 'Code Structure',
+    description: 'Improve structure / format of the code',
+    conventional: 'style',
+  },
+  perf: {
+    emoji: '⚡️',
+    code: ':zap:',
+    title: 'Performance Improvements',
+    description: 'Improve performance',
+    conventional: 'perf',
+  },
+  remove: {
+    emoji: '🔥',
+    code: ':fire:',
+    title: 'Removals',
+    description: 'Remove code or files',
+    conventional: 'refactor',
+  },
+  fix: {
+    emoji: '🐛',
+    code: ':bug:',
+    title: 'Bug Fixes',
+    description: 'Fix a bug',
+    conventional: 'fix',
+  },
+  hotfix: {
+    emoji: '🚑️',
+    code: ':ambulance:',
+    title: 'Hotfixes',
+    description: 'Critical hotfix',
+    conventional: 'fix',
+  },
+  feat: {
+    emoji: '✨',
+    code: ':sparkles:',
+    title: 'Features',
+    description: 'Introduce new features',
+    conventional: 'feat',
+  },
+  docs: {
+    emoji: '📝',
+    code: ':memo:',
+    title: 'Documentation',
+    description: 'Add or update documentation',
+    conventional: 'docs',
+  },
+  deploy: {
+    emoji: '🚀',
+    code: ':rocket:',
+    title: 'Deployment',
+    description: 'Deploy stuff',
+    conventional: 'chore',
+  },
+  ui: {
+    emoji: '💄',
+    code: ':lipstick:',
+    title: 'UI',
+    description: 'Add or update the UI and style files',
+    conventional: 'feat',
+  },
+  init: {
+    emoji: '🎉',
+    code: ':tada:',
+    title: 'Initial Commit',
+    description: 'Begin a project',
+    conventional: 'chore',
+  },
+  test: {
+    emoji: '✅',
+    code: ':white_check_mark:',
+    title: 'Tests',
+    description: 'Add, update, or pass tests',
+    conventional: 'test',
+  },
+  security: {
+    emoji: '🔒️',
+    code: ':lock:',
+    title: 'Security Fixes',
+    description: 'Fix security or privacy issues',
+    conventional: 'security',
+  },
+  secrets: {
+    emoji: '🔐',
+    code: ':closed_lock_with_key:',
+    title: 'Secrets',
+    description: 'Add or update secrets',
+    conventional: 'chore',
+  },
+  release: {
+    emoji: '🔖',
+    code: ':bookmark:',
+    title: 'Releases',
+    description: 'Release / Version tags',
+    conventional: 'release',
+  },
+  lint: {
+    emoji: '🚨',
+    code: ':rotating_light:',
+    title: 'Linter Warnings',
+    description: 'Fix compiler / linter warnings',
+    conventional: 'style',
+  },
+  wip: {
+    emoji: '🚧',
+    code: ':construction:',
+    title: 'Work in Progress',
+    description: 'Work in progress',
+    conventional: 'chore',
+  },
+  'fix-ci': {
+    emoji: '💚',
+    code: ':green_heart:',
+    title: 'CI Fixes',
+    description: 'Fix CI Build',
+    conventional: 'ci',
+  },
+  downgrade: {
+    emoji: '⬇️',
+    code: ':arrow_down:',
+    title: 'Dependency Downgrades',
+    description: 'Downgrade dependencies',
+    conventional: 'deps',
+  },
+  deps: {
+    emoji: '⬆️',
+    code: ':arrow_up:',
+    title: 'Dependencies',
+    description: 'Upgrade dependencies',
+    conventional: 'deps',
+  },
+  pin: {
+    emoji: '📌',
+    code: ':pushpin:',
+    title: 'Pinned Dependencies',
+    description: 'Pin dependencies to specific versions',
+    conventional: 'deps',
+  },
+  ci: {
+    emoji: '👷',
+    code: ':construction_worker:',
+    title: 'Continuous Integration',
+    description: 'Add or update CI build system',
+    conventional: 'ci',
+  },
+  analytics: {
+    emoji: '📈',
+    code: ':chart_with_upwards_trend:',
+    title: 'Analytics',
+    description: 'Add or update analytics or track code',
+    conventional: 'feat',
+  },
+  refactor: {
+    emoji: '♻️',
+    code: ':recycle:',
+    title: 'Code Refactoring',
+    description: 'Refactor code',
+    conventional: 'refactor',
+  },
+  'add-dep': {
+    emoji: '➕',
+    code: ':heavy_plus_sign:',
+    title: 'Added Dependencies',
+    description: 'Add a dependency',
+    conventional: 'deps',
+  },
+  'remove-dep': {
+    emoji: '➖',
+    code: ':heavy_minus_sign:',
+    title: 'Removed Dependencies',
+    description: 'Remove a dependency',
+    conventional: 'deps',
+  },
+  chore: {
+    emoji: '🔧',
+    code: ':wrench:',
+    title: 'Configuration',
+    description: 'Add or update configuration files',
+    conventional: 'chore',
+  },
+  scripts: {
+    emoji: '🔨',
+    code: ':hammer:',
+    title: 'Development Scripts',
+    description: 'Add or update development scripts',
+    conventional: 'build',
+  },
+  i18n: {
+    emoji: '🌐',
+    code: ':globe_with_meridians:',
+    title: 'Internationalization',
+    description: 'Internationalization and localization',
+    conventional: 'i18n',
+  },
+  typo: {
+    emoji: '✏️',
+    code: ':pencil2:',
+    title: 'Typos',
+    description: 'Fix typos',
+    conventional: 'fix',
+  },
+  poop: {
+    emoji: '💩',
+    code: ':poop:',
+    title: 'Bad Code',
+    description: 'Write bad code that needs to be improved',
+    conventional: 'chore',
+  },
+  revert: {
+    emoji: '⏪️',
+    code: ':rewind:',
+    title: 'Reverts',
+    description: 'Revert changes',
+    conventional: 'revert',
+  },
+  merge: {
+    emoji: '🔀',
+    code: ':twisted_rightwards_arrows:',
+    title: 'Merges',
+    description: 'Merge branches',
+    conventional: 'chore',
+  },
+  build: {
+    emoji: '📦️',
+    code: ':package:',
+    title: 'Builds',
+    description: 'Add or update compiled files or packages',
+    conventional: 'build',
+  },
+  'external-api': {
+    emoji: '👽️',
+    code: ':alien:',
+    title: 'External API Changes',
+    description: 'Update code due to external API changes',
+    conventional: 'fix',
+  },
+  move: {
+    emoji: '🚚',
+    code: ':truck:',
+    title: 'Moves and Renames',
+    description: 'Move or rename resources (e.g.: files, paths, routes)',
+    conventional: 'refactor',
+  },
+  license: {
+    emoji: '📄',
+    code: ':page_facing_up:',
+    title: 'License',
+    description: 'Add or update license',
+    conventional: 'docs',
+  },
+  breaking: {
+    emoji: '💥',
+    code: ':boom:',
+    title: 'Breaking Changes',
+    description: 'Introduce breaking changes',
+    conventional: 'breaking',
+  },
+  assets: {
+    emoji: '🍱',
+    code: ':bento:',
+    title: 'Assets',
+    description: 'Add or update assets',
+    conventional: 'chore',
+  },
+  a11y: {
+    emoji: '♿️',
+    code: ':wheelchair:',
+    title: 'Accessibility',
+    description: 'Improve accessibility',
+    conventional: 'a11y',
+  },
+  comments: {
+    emoji: '💡',
+    code: ':bulb:',
+    title: 'Source Comments',
+    description: 'Add or update comments in source code',
+    conventional: 'docs',
+  },
+  beer: {
+    emoji: '🍻',
+    code: ':beers:',
+    title: 'Drunk Code',
+    description: 'Write code drunkenly',
+    conventional: 'chore',
+  },
+  texts: {
+    emoji: '💬',
+    code: ':speech_balloon:',
+    title: 'Texts and Literals',
+    description: 'Add or update text and literals',
+    conventional: 'chore',
+  },
+  db: {
+    emoji: '🗃️',
+    code: ':card_file_box:',
+    title: 'Database',
+    description: 'Perform database related changes',
+    conventional: 'feat',
+  },
+  logs: {
+    emoji: '🔊',
+    code: ':loud_sound:',
+    title: 'Logs',
+    description: 'Add or update logs',
+    conventional: 'chore',
+  },
+  'remove-logs': {
+    emoji: '🔇',
+    code: ':mute:',
+    title: 'Removed Logs',
+    description: 'Remove logs',
+    conventional: 'chore',
+  },
+  contributors: {
+    emoji: '👥',
+    code: ':busts_in_silhouette:',
+    title: 'Contributors',
+    description: 'Add or update contributor(s)',
+    conventional: 'docs',
+  },
+  ux: {
+    emoji: '🚸',
+    code: ':children_crossing:',
+    title: 'User Experience',
+    description: 'Improve user experience / usability',
+    conventional: 'feat',
+  },
+  arch: {
+    emoji: '🏗️',
+    code: ':building_construction:',
+    title: 'Architecture',
+    description: 'Make architectural changes',
+    conventional: 'refactor',
+  },
+  responsive: {
+    emoji: '📱',
+    code: ':iphone:',
+    title: 'Responsive Design',
+    description: 'Work on responsive design',
+    conventional: 'feat',
+  },
+  mock: {
+    emoji: '🤡',
+    code: ':clown_face:',
+    title: 'Mocks',
+    description: 'Mock things',
+    conventional: 'test',
+  },
+  'easter-egg': {
+    emoji: '🥚',
+    code: ':egg:',
+    title: 'Easter Eggs',
+    description: 'Add or update an easter egg',
+    conventional: 'feat',
+  },
+  gitignore: {
+    emoji: '🙈',
+    code: ':see_no_evil:',
+    title: 'Gitignore',
+    description: 'Add or update a .gitignore file',
+    conventional: 'chore',
+  },
+  snapshots: {
+    emoji: '📸',
+    code: ':camera_flash:',
+    title: 'Snapshots',
+    description: 'Add or update snapshots',
+    conventional: 'test',
+  },
+  experiment: {
+    emoji: '⚗️',
+    code: ':alembic:',
+    title: 'Experiments',
+    description: 'Perform experiments',
+    conventional: 'chore',
+  },
+  seo: {
+    emoji: '🔍️',
+    code: ':mag:',
+    title: 'SEO',
+    description: 'Improve SEO',
+    conventional: 'feat',
+  },
+  types: {
+    emoji: '🏷️',
+    code: ':label:',
+    title: 'Types',
+    description: 'Add or update types',
+    conventional: 'refactor',
+  },
+  seed: {
+    emoji: '🌱',
+    code: ':seedling:',
+    title: 'Seed Files',
+    description: 'Add or update seed files',
+    conventional: 'chore',
+  },
+  flags: {
+    emoji: '🚩',
+    code: ':triangular_flag_on_post:',
+    title: 'Feature Flags',
+    description: 'Add, update, or remove feature flags',
+    conventional: 'feat',
+  },
+  catch: {
+    emoji: '🥅',
+    code: ':goal_net:',
+    title: 'Error Handling',
+    description: 'Catch errors',
+    conventional: 'fix',
+  },
+  animation: {
+    emoji: '💫',
+    code: ':dizzy:',
+    title: 'Animations',
+    description: 'Add or update animations and transitions',
+    conventional: 'feat',
+  },
+  deprecate: {
+    emoji: '🗑️',
+    code: ':wastebasket:',
+    title: 'Deprecations',
+    description: 'Deprecate code that needs to be cleaned up',
+    conventional: 'deprecate',
+  },
+  auth: {
+    emoji: '🛂',
+    code: ':passport_control:',
+    title: 'Authorization',
+    description: 'Work on code related to authorization, roles and permissions',
+    conventional: 'feat',
+  },
+  quickfix: {
+    emoji: '🩹',
+    code: ':adhesive_bandage:',
+    title: 'Quick Fixes',
+    description: 'Simple fix for a non-critical issue',
+    conventional: 'fix',
+  },
+  data: {
+    emoji: '🧐',
+    code: ':monocle_face:',
+    title: 'Data Exploration',
+    description: 'Data exploration/inspection',
+    conventional: 'chore',
+  },
+  'dead-code': {
+    emoji: '⚰️',
+    code: ':coffin:',
+    title: 'Dead Code',
+    description: 'Remove dead code',
+    conventional: 'refactor',
+  },
+  'failing-test': {
+    emoji: '🧪',
+    code: ':test_tube:',
+    title: 'Failing Tests',
+    description: 'Add a failing test',
+    conventional: 'test',
+  },
+  business: {
+    emoji: '👔',
+    code: ':necktie:',
+    title: 'Business Logic',
+    description: 'Add or update business logic',
+    conventional: 'feat',
+  },
+  healthcheck: {
+    emoji: '🩺',
+    code: ':stethoscope:',
+    title: 'Healthchecks',
+    description: 'Add or update healthcheck',
+    conventional: 'feat',
+  },
+  infra: {
+    emoji: '🧱',
+    code: ':bricks:',
+    title: 'Infrastructure',
+    description: 'Infrastructure related changes',
+    conventional: 'build',
+  },
+  dx: {
+    emoji: '🧑‍💻',
+    code: ':technologist:',
+    title: 'Developer Experience',
+    description: 'Improve developer experience',
+    conventional: 'chore',
+  },
+  money: {
+    emoji: '💸',
+    code: ':money_with_wings:',
+    title: 'Sponsorships',
+    description: 'Add sponsorships or money related infrastructure',
+    conventional: 'chore',
+  },
+  concurrency: {
+    emoji: '🧵',
+    code: ':thread:',
+    title: 'Concurrency',
+    description: 'Add or update code related to multithreading or concurrency',
+    conventional: 'feat',
+  },
+  validation: {
+    emoji: '🦺',
+    code: ':safety_vest:',
+    title: 'Validation',
+    description: 'Add or update code related to validation',
+    conventional: 'feat',
+  },
+  offline: {
+    emoji: '✈️',
+    code: ':airplane:',
+    title: 'Offline Support',
+    description: 'Improve offline support',
+    conventional: 'feat',
+  },
+  compat: {
+    emoji: '🦖',
+    code: ':t-rex:',
+    title: 'Backwards Compatibility',
+    description: 'Code that adds backwards compatibility',
+    conventional: 'fix',
+  },
+};
+
+/**
+ * Catalogs a repository can start from with the `preset` config key
+ */
+export const CATALOG_PRESETS: Record<CatalogPreset, CommitTypeCatalog> = {
+  default: COMMIT_TYPES,
+  gitmoji: GITMOJI_TYPES,
+};
@@ -0,0 +1,76 @@
+import { createHmac, randomBytes } from 'node:crypto';
+import { GitmojiError } from './errors.js';
+import { getCurrentBranch, getHeadCommit, getIdentity, writeIndexTree } from './git.js';
+import type { GitOperationOptions } from './git.js';
+import { getActiveCommitHooks } from './hooks.js';
+import { StagedFileSummary, getStagedFiles } from './resources.js';
+
+/**
+ * Everything `git commit` would do, worked out without committing
+ */
+export interface CommitPreview {
+  message: string;
+  /** Branch the commit goes to; undefined when HEAD is detached */
+  branch?: string;
+  /** Parent commit; undefined on a branch without commits */
+  head?: string;
+  author: { name: string; email: string };
+  committer: { name: string; email: string };
+  files: StagedFileSummary[];
+  additions: number;
+  deletions: number;
+  /** Hooks git will run, in order */
+  hooks: { hook: string; path: string }[];
+  /** Tree of the staged index */
+  tree: string;
+  /** Pass to the real commit to make sure nothing changed since the preview */
+  confirmToken: string;
+}
+
+// Tokens are only valid for the lifetime of the server process
+const TOKEN_SECRET = randomBytes(32);
+
+function getConfirmationToken(tree: string, head: string | undefined, message: string): string {
+  return createHmac('sha256', TOKEN_SECRET)
+    .update([tree, head ?? '', message].join('\0'))
+    .digest('hex')
+    .substring(0, 32);
+}
+
+/**
+ * Preview a commit of the staged changes with the given message
+ */
+export async function previewCommit(message: string, options?: GitOperationOptions): Promise<CommitPreview> {
+  const files = await getStagedFiles(options);
+  const tree = await writeIndexTree(options);
+  const head = await getHeadCommit(options);
+
+  return {
+    message,
+    branch: await getCurrentBranch(options),
+    head,
+    author: await getIdentity('author', options),
+    committer: await getIdentity('committer', options),
+    files,
+    additions: files.reduce((sum, file) => sum + file.additions, 0),
+    deletions: files.reduce((sum, file) => sum + file.deletions, 0),
+    hooks: await getActiveCommitHooks(options),
+    tree,
+    confirmToken: getConfirmationToken(tree, head, message),
+  };
+}
+
+/**
+ * Check that the index, HEAD and message are still those of the preview that issued the token
+ */
+export async function verifyConfirmationToken(token: string, message: string, options?: GitOperationOptions): Promise<void> {
+  const tree = await writeIndexTree(options);
+  const head = await getHeadCommit(options);
+
+  if (token !== getConfirmationToken(tree, head, message)) {
+    throw new GitmojiError(
+      'CONFIRMATION_MISMATCH',
+      'The confirmation token does not match: the staged changes, HEAD or the message changed since the preview. Run a dry run again.'
+    );
+  }
+}
@@ -0,0 +1,266 @@
+import type { GetPromptResult, Prompt, PromptArgument } from '@modelcontextprotocol/sdk/types.js';
+import { collectStagedDiff } from './diff.js';
+import { GitmojiError } from './errors.js';
+import { assertRef, getCommits, getUpstreamBranch, suggestCommitType } from './git.js';
+import type { GitOperationOptions } from './git.js';
+import { CONVENTION_FORMATS } from './parser.js';
+import { CommitType, GitmojiConfig, getTypeInfo } from './types.js';
+import { formatHeader, renderEmoji } from './utils.js';
+
+/**
+ * How much the client model should write
+ */
+export type PromptVerbosity = 'short' | 'normal' | 'detailed';
+
+export const PROMPT_VERBOSITIES: PromptVerbosity[] = ['short', 'normal', 'detailed'];
+
+/**
+ * Character budget of the staged diff embedded in a prompt
+ */
+export const PROMPT_DIFF_LIMIT = 12000;
+
+/**
+ * Arguments shared by every prompt
+ */
+export interface PromptOptions {
+  type?: CommitType;
+  scope?: string;
+  /** Language of the generated text (default: English) */
+  language?: string;
+  verbosity?: PromptVerbosity;
+  /** Base ref of the pull request, for write-pr-description */
+  base?: string;
+}
+
+const COMMON_ARGUMENTS: PromptArgument[] = [
+  { name: 'type', description: 'Commit type to use instead of the one suggested from the staged changes' },
+  { name: 'scope', description: 'Scope to use instead of the one inferred from the staged paths' },
+  { name: 'language', description: 'Language to write in (default: English)' },
+  { name: 'verbosity', description: `How much to write: ${PROMPT_VERBOSITIES.join(', ')} (default: normal)` },
+];
+
+/**
+ * Prompt templates offered to clients
+ */
+export const PROMPTS: Prompt[] = [
+  {
+    name: 'write-commit-message',
+    title: 'Write commit message',
+    description: 'Draft a commit message for the staged changes that follows the repository convention',
+    arguments: COMMON_ARGUMENTS,
+  },
+  {
+    name: 'explain-staged-changes',
+    title: 'Explain staged changes',
+    description: 'Explain what the staged changes do and whether they belong in one commit',
+    arguments: COMMON_ARGUMENTS,
+  },
+  {
+    name: 'write-pr-description',
+    title: 'Write pull request description',
+    description: 'Draft a pull request title in the repository convention and a description from the branch commits and staged changes',
+    arguments: [
+      ...COMMON_ARGUMENTS,
+      { name: 'base', description: 'Base ref of the pull request, e.g. origin/main (default: the upstream branch)' },
+    ],
+  },
+];
+
+const VERBOSITY_INSTRUCTIONS: Record<string, Record<PromptVerbosity, string>> = {
+  'write-commit-message': {
+    short: 'Write only the header line.',
+    normal: 'Write the header line and, only when the change is not obvious from it, a short body.',
+    detailed: 'Write the header line and a body explaining what changed and why.',
+  },
+  'explain-staged-changes': {
+    short: 'Answer in two or three sentences.',
+    normal: 'Write one short paragraph per concern the changes address.',
+    detailed: 'Walk through the changes file by file, then summarise the overall intent and any risks.',
+  },
+  'write-pr-description': {
+    short: 'Write the title and a one-paragraph summary.',
+    normal: 'Write the title, a summary and a bullet list of the main changes.',
+    detailed: 'Write the title, a summary, a bullet list of the changes, how they were tested and any risks or follow-ups.',
+  },
+};
+
+function describeCatalog(config: GitmojiConfig): string {
+  return Object.entries(config.types)
+    .map(([type, info]) => {
+      const emoji = config.convention === 'conventional' ? '' : `${renderEmoji(info, config.rules.emojiFormat)} `;
+      return `- ${emoji}${type}: ${info.description}`;
+    })
+    .join('\n');
+}
+
+function describeRules(config: GitmojiConfig): string {
+  const { convention, rules } = config;
+  const exampleType = config.types.feat ? 'feat' : Object.keys(config.types)[0];
+  const example = formatHeader({ type: exampleType, scope: 'auth', title: 'add token refresh' }, config);
+  const emojiRule =
+    convention === 'conventional'
+      ? 'Do not use emojis.'
+      : `Use the emoji of the type from the list below, written ${rules.emojiFormat === 'shortcode' ? 'as its :shortcode:' : 'as the Unicode character'}.`;
+
+  return [
+    `- Header format: ${CONVENTION_FORMATS[convention]}, e.g. "${example}"`,
+    convention === 'gitmoji' ? '- The emoji alone names the type; do not write the type name.' : undefined,
+    `- ${emojiRule}`,
+    rules.requireScope ? '- A scope is required.' : '- The scope is optional; leave out the parentheses when there is none.',
+    `- Title: imperative mood ("add", not "added"), lowercase first letter, no trailing period, at most ${rules.titleMaxLength} characters.`,
+    `- Body: separated from the header by a blank line, lines wrapped at ${rules.bodyMaxLineLength} characters.`,
+    '- Breaking changes: add "!" before the colon and a "BREAKING CHANGE: <description>" footer.',
+    '- Footers go last as git trailers, e.g. "Closes: #12", "Refs: #34".',
+  ]
+    .filter(line => line !== undefined)
+    .join('\n');
+}
+
+// Staged files with line counts, then the patch fitted to PROMPT_DIFF_LIMIT characters
+async function describeStagedChanges(options?: GitOperationOptions): Promise<string | undefined> {
+  const diff = await collectStagedDiff({ maxChars: PROMPT_DIFF_LIMIT }, options);
+  if (diff.files.length === 0 && diff.excluded.length === 0) {
+    return undefined;
+  }
+
+  const files = [
+    ...diff.files.map(file => `- ${file.path} (${file.status}${file.binary ? ', binary' : `, +${file.additions} -${file.deletions}`})`),
+    ...diff.excluded.map(file => {
+      const size = file.reason === 'binary' ? '' : `, +${file.additions} -${file.deletions}`;
+      return `- ${file.path} (${file.status}, ${file.reason}${size}, diff not shown)`;
+    }),
+  ].join('\n');
+
+  return `Staged files:\n${files}\n\nStaged diff:\n\`\`\`diff\n${diff.patch}\n\`\`\``;
+}
+
+function describeChoices(options: PromptOptions, config: GitmojiConfig, suggestion?: string): string {
+  const lines: string[] = [];
+
+  const info = options.type ? getTypeInfo(config.types, options.type) : undefined;
+  if (options.type && info) {
+    const emoji = config.convention === 'conventional' ? '' : ` (${renderEmoji(info, config.rules.emojiFormat)})`;
+    lines.push(`Use the type "${options.type}"${emoji}.`);
+  } else if (suggestion) {
+    lines.push(suggestion);
+  }
+
+  if (options.scope) {
+    lines.push(`Use the scope "${options.scope}".`);
+  }
+
+  const language = options.language || 'English';
+  lines.push(
+    language.toLowerCase() === 'english'
+      ? 'Write in English.'
+      : `Write in ${language}; keep commit types, scopes and footer keys as they are.`
+  );
+
+  return lines.join('\n');
+}
+
+async function describeSuggestion(config: GitmojiConfig, options?: GitOperationOptions): Promise<string> {
+  const suggestion = await suggestCommitType(options, config);
+  const scope = suggestion.scope?.scope ? `, scope "${suggestion.scope.scope}"` : '';
+  let text = `Analysis of the staged changes suggests the type "${suggestion.type}"${scope} (${suggestion.confidence} confidence: ${suggestion.reason}). Use it unless the diff clearly calls for another type.`;
+
+  if (suggestion.mixed) {
+    text += `\nNote: ${suggestion.mixedReason}`;
+  }
+
+  return text;
+}
+
+function validateOptions(options: PromptOptions, config: GitmojiConfig): void {
+  if (options.type && !getTypeInfo(config.types, options.type)) {
+    throw new GitmojiError('INVALID_TYPE', `Invalid commit type: ${options.type}`);
+  }
+  if (options.verbosity && !PROMPT_VERBOSITIES.includes(options.verbosity)) {
+    throw new GitmojiError('INVALID_ARGUMENT', `verbosity must be one of: ${PROMPT_VERBOSITIES.join(', ')}`);
+  }
+  if (options.base) {
+    assertRef(options.base, 'base');
+  }
+}
+
+/**
+ * Render a prompt with the repository's catalog, rules and staged changes embedded
+ */
+export async function getPrompt(
+  name: string,
+  options: PromptOptions,
+  config: GitmojiConfig,
+  gitOptions?: GitOperationOptions
+): Promise<GetPromptResult> {
+  const prompt = PROMPTS.find(item => item.name === name);
+  if (!prompt) {
+    throw new GitmojiError('UNKNOWN_PROMPT', `Unknown prompt: ${name}`);
+  }
+
+  validateOptions(options, config);
+
+  const staged = await describeStagedChanges(gitOptions);
+  const verbosity = VERBOSITY_INSTRUCTIONS[name][options.verbosity ?? 'normal'];
+  const convention = `Commit message convention:\n${describeRules(config)}\n\nCommit types:\n${describeCatalog(config)}`;
+  const sections: string[] = [];
+
+  switch (name) {
+    case 'write-commit-message': {
+      if (!staged) {
+        throw new GitmojiError('NO_STAGED_CHANGES', 'No staged changes found. Please stage your changes first with git add.');
+      }
+      const suggestion = options.type ? undefined : await describeSuggestion(config, gitOptions);
+      sections.push(
+        'Write a git commit message for the staged changes below.',
+        convention,
+        describeChoices(options, config, suggestion),
+        `${verbosity} Reply with the commit message only, without code fences or commentary.`,
+        staged
+      );
+      break;
+    }
+    case 'explain-staged-changes': {
+      if (!staged) {
+        throw new GitmojiError('NO_STAGED_CHANGES', 'No staged changes found. Please stage your changes first with git add.');
+      }
+      const suggestion = options.type ? undefined : await describeSuggestion(config, gitOptions);
+      sections.push(
+        'Explain what the staged changes below do. Say which commit type they correspond to and, if they mix unrelated concerns, how to split them into separate commits.',
+        convention,
+        describeChoices(options, config, suggestion),
+        verbosity,
+        staged
+      );
+      break;
+    }
+    default: {
+      const base = options.base || (await getUpstreamBranch(gitOptions));
+      const commits = base ? await getCommits(base, 'HEAD', gitOptions) : [];
+      if (commits.length === 0 && !staged) {
+        throw new GitmojiError(
+          'INVALID_ARGUMENT',
+          base ? `No commits since ${base} and no staged changes to describe` : 'Pass a base ref or stage changes to describe'
+        );
+      }
+      const log = commits.map(commit => `- ${commit.message.split('\n')[0]} (${commit.shortHash})`).join('\n');
+      sections.push(
+        'Write a pull request title and description for the changes below. The title follows the commit message convention, since it becomes the commit message when the pull request is squashed.',
+        convention,
+        describeChoices(options, config),
+        `${verbosity} Use Markdown for the description. Reply with the title on the first line, a blank line, then the description.`,
+        ...(commits.length > 0 ? [`Commits since ${base}:\n${log}`] : []),
+        ...(staged ? [staged] : [])
+      );
+    }
+  }
+
+  return {
+    description: prompt.description,
+    messages: [
+      {
+        role: 'user',
+        content: { type: 'text', text: sections.join('\n\n') },
+      },
+    ],
+  };
+}
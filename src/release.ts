@@ -0,0 +1,315 @@
+import { lstat, readFile, realpath, unlink, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { buildChangelog, renderChangelog } from './changelog.js';
+import {
+  createAnnotatedTag,
+  createCommit,
+  getRepoRoot,
+  isWorkingTreeClean,
+  resetHard,
+  resolveRef,
+  stageFiles,
+  tagExists,
+} from './git.js';
+import type { GitOperationOptions } from './git.js';
+import { GuardFinding, GuardOverrides, checkCommitGuards, enforceCommitGuards } from './guards.js';
+import { GitmojiConfig, VersionBump } from './types.js';
+import { formatCommitMessage } from './utils.js';
+import {
+  compareVersions,
+  formatVersion,
+  NextVersionOptions,
+  parseVersion,
+  recommendNextVersion,
+} from './version.js';
+import { GitmojiError, getErrorCode } from './errors.js';
+
+/**
+ * Options for planning or running a release
+ */
+export interface ReleaseOptions extends NextVersionOptions {
+  /** Explicit version to release instead of the recommended one */
+  version?: string;
+  /** Manifest files to bump, overrides the configured list */
+  manifests?: string[];
+  /** Changelog file, overrides the configured one */
+  changelogFile?: string;
+  /** Release date used in the changelog heading (YYYY-MM-DD), defaults to today */
+  date?: string;
+}
+
+/**
+ * A file change the release will make
+ */
+export interface ReleaseFileEdit {
+  path: string;
+  action: 'create' | 'update';
+  summary: string;
+}
+
+/**
+ * Everything a release will do, computed without touching the repository
+ */
+export interface ReleasePlan {
+  currentTag?: string;
+  version: string;
+  tag: string;
+  bump: VersionBump;
+  commitCount: number;
+  notes: string;
+  commitMessage: string;
+  tagMessage: string;
+  edits: ReleaseFileEdit[];
+}
+
+/**
+ * Outcome of a release run
+ */
+export interface ReleaseResult {
+  plan: ReleasePlan;
+  dryRun: boolean;
+  commitHash?: string;
+  /** Steps performed, in order */
+  log: string[];
+  /** Guards set to "warn" that failed; on dry run, every guard that fails right now */
+  guards: GuardFinding[];
+}
+
+interface PendingWrite {
+  absolutePath: string;
+  original?: string;
+  updated: string;
+}
+
+const JSON_VERSION_REGEX = /("version"\s*:\s*")([^"]*)(")/;
+const TEXT_VERSION_REGEX = /^(\s*version\s*=\s*["'])([^"']*)(["'])/m;
+
+async function readOptionalFile(filePath: string): Promise<string | undefined> {
+  try {
+    return await readFile(filePath, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return undefined;
+    }
+    throw new GitmojiError('INVALID_ARGUMENT', `Failed to read ${filePath}: ${error}`);
+  }
+}
+
+/**
+ * Replace the first version field of a manifest, keeping its formatting intact
+ */
+export function updateManifestVersion(fileName: string, content: string, version: string): { content: string; previous: string } {
+  const regex = fileName.endsWith('.json') ? JSON_VERSION_REGEX : TEXT_VERSION_REGEX;
+  const match = regex.exec(content);
+
+  if (!match) {
+    throw new GitmojiError('INVALID_CONFIG', `No version field found in ${fileName}`);
+  }
+
+  return {
+    content: content.replace(regex, `$1${version}$3`),
+    previous: match[2],
+  };
+}
+
+/**
+ * Insert release notes at the top of a changelog, below its main title if it has one
+ */
+export function prependChangelog(existing: string | undefined, notes: string): string {
+  if (!existing || existing.trim().length === 0) {
+    return `# Changelog\n\n${notes}`;
+  }
+
+  const title = /^# .*\n+/.exec(existing);
+  if (title) {
+    return `${existing.substring(0, title[0].length)}${notes}\n${existing.substring(title[0].length)}`;
+  }
+
+  return `${notes}\n${existing}`;
+}
+
+function isInside(root: string, filePath: string): boolean {
+  const relativePath = path.relative(root, filePath);
+  return relativePath !== '' && !relativePath.startsWith('..') && !path.isAbsolute(relativePath);
+}
+
+// Where a write to the path ends up once symlinks are followed, for files that may not exist yet:
+// the real path of the closest existing ancestor, with the missing part appended
+async function resolveWriteTarget(filePath: string): Promise<string | undefined> {
+  const missing: string[] = [];
+  let existing = filePath;
+
+  for (;;) {
+    try {
+      return path.join(await realpath(existing), ...missing);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw new GitmojiError('INVALID_ARGUMENT', `Failed to resolve ${filePath}: ${error}`);
+      }
+    }
+
+    // A dangling symlink would be written through to wherever it points
+    if (await lstat(existing).then(() => true, () => false)) {
+      return undefined;
+    }
+
+    missing.unshift(path.basename(existing));
+    existing = path.dirname(existing);
+  }
+}
+
+/**
+ * Resolve a file the release writes, refusing paths that leave the repository,
+ * directly or through a symlink
+ */
+async function resolveReleaseFile(root: string, file: string): Promise<string> {
+  const absolutePath = path.resolve(root, file);
+  const target = isInside(root, absolutePath) ? await resolveWriteTarget(absolutePath) : undefined;
+
+  if (!target || !isInside(await realpath(root), target)) {
+    throw new GitmojiError('INVALID_ARGUMENT', `Release file must be inside the repository: ${file}`);
+  }
+
+  return absolutePath;
+}
+
+async function buildPlan(
+  config: GitmojiConfig,
+  options: ReleaseOptions,
+  gitOptions?: GitOperationOptions
+): Promise<{ plan: ReleasePlan; writes: PendingWrite[] }> {
+  const root = await getRepoRoot(gitOptions);
+  const recommendation = await recommendNextVersion(config, options, gitOptions);
+
+  let version = recommendation.nextVersion;
+  let tag = recommendation.nextTag;
+
+  if (options.version) {
+    const requested = parseVersion(options.version);
+    const current = parseVersion(recommendation.currentVersion)!;
+    if (!requested) {
+      throw new GitmojiError('INVALID_ARGUMENT', `Invalid version: ${options.version}`);
+    }
+    if (recommendation.currentTag && compareVersions(requested, current) <= 0) {
+      throw new GitmojiError('INVALID_ARGUMENT', `Version ${options.version} is not greater than the current version ${recommendation.currentVersion}`);
+    }
+    version = formatVersion(requested);
+    tag = `${tag.substring(0, tag.length - recommendation.nextVersion.length)}${version}`;
+  } else if (recommendation.bump === 'none') {
+    throw new GitmojiError(
+      'NOTHING_TO_RELEASE',
+      `No release needed: the ${recommendation.commits.length} commits since ${recommendation.currentTag ?? 'the start of history'} require no version bump`
+    );
+  }
+
+  if (await tagExists(tag, gitOptions)) {
+    throw new GitmojiError('TAG_EXISTS', `Tag ${tag} already exists`);
+  }
+
+  if (!config.types.release) {
+    throw new GitmojiError('INVALID_TYPE', 'The "release" commit type is disabled in the repository config');
+  }
+
+  const date = options.date ?? new Date().toISOString().slice(0, 10);
+  const notes = renderChangelog(buildChangelog(recommendation.commits, config), `${tag} (${date})`);
+  const commitMessage = formatCommitMessage({ type: 'release', title: tag }, config);
+
+  const edits: ReleaseFileEdit[] = [];
+  const writes: PendingWrite[] = [];
+
+  for (const manifest of options.manifests ?? config.release.manifests) {
+    const absolutePath = await resolveReleaseFile(root, manifest);
+    const original = await readOptionalFile(absolutePath);
+    if (original === undefined) {
+      throw new GitmojiError('INVALID_ARGUMENT', `Manifest file not found: ${manifest}`);
+    }
+
+    const { content, previous } = updateManifestVersion(manifest, original, version);
+    writes.push({ absolutePath, original, updated: content });
+    edits.push({ path: manifest, action: 'update', summary: `version ${previous} → ${version}` });
+  }
+
+  const changelogFile = options.changelogFile ?? config.release.changelogFile;
+  const changelogPath = await resolveReleaseFile(root, changelogFile);
+  const changelog = await readOptionalFile(changelogPath);
+  writes.push({ absolutePath: changelogPath, original: changelog, updated: prependChangelog(changelog, notes) });
+  edits.push({
+    path: changelogFile,
+    action: changelog === undefined ? 'create' : 'update',
+    summary: `prepend release notes for ${tag}`,
+  });
+
+  return {
+    plan: {
+      currentTag: recommendation.currentTag,
+      version,
+      tag,
+      bump: recommendation.bump,
+      commitCount: recommendation.commits.length,
+      notes,
+      commitMessage,
+      tagMessage: `${commitMessage}\n\n${notes}`,
+      edits,
+    },
+    writes,
+  };
+}
+
+async function restoreFiles(writes: PendingWrite[]): Promise<void> {
+  for (const write of writes) {
+    if (write.original === undefined) {
+      await unlink(write.absolutePath).catch(() => undefined);
+    } else {
+      await writeFile(write.absolutePath, write.original, 'utf8');
+    }
+  }
+}
+
+/**
+ * Compute the next version, bump manifests, prepend the changelog, commit and tag.
+ * The release commit goes through the commit guards like any other.
+ * With `dryRun` only the plan is returned. Any failure rolls the repository back.
+ */
+export async function runRelease(
+  config: GitmojiConfig,
+  options: ReleaseOptions & { dryRun?: boolean; overrides?: GuardOverrides },
+  gitOptions?: GitOperationOptions
+): Promise<ReleaseResult> {
+  if (!(await isWorkingTreeClean(gitOptions))) {
+    throw new GitmojiError('DIRTY_WORKING_TREE', 'Working tree has uncommitted changes. Commit or stash them before releasing.');
+  }
+
+  const { plan, writes } = await buildPlan(config, options, gitOptions);
+
+  if (options.dryRun) {
+    return { plan, dryRun: true, log: [], guards: await checkCommitGuards(config, options.overrides, gitOptions) };
+  }
+
+  const log: string[] = [];
+  const originalHead = await resolveRef('HEAD', gitOptions);
+
+  try {
+    for (const write of writes) {
+      await writeFile(write.absolutePath, write.updated, 'utf8');
+    }
+    log.push(`Updated ${plan.edits.map(edit => edit.path).join(', ')}`);
+
+    await stageFiles(plan.edits.map(edit => edit.path), gitOptions);
+    log.push('Staged release files');
+
+    const guards = await enforceCommitGuards(config, options.overrides, gitOptions);
+
+    const commitHash = await createCommit(plan.commitMessage, gitOptions);
+    log.push(`Created commit ${commitHash}: ${plan.commitMessage}`);
+
+    await createAnnotatedTag(plan.tag, plan.tagMessage, gitOptions);
+    log.push(`Created annotated tag ${plan.tag}`);
+
+    return { plan, dryRun: false, commitHash, log, guards };
+  } catch (error) {
+    await resetHard(originalHead, gitOptions);
+    await restoreFiles(writes);
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new GitmojiError(getErrorCode(error), `Release failed and was rolled back: ${reason}`);
+  }
+}
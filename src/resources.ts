@@ -0,0 +1,258 @@
+import { watch, FSWatcher } from 'node:fs';
+import path from 'node:path';
+import type { Resource, ResourceTemplate } from '@modelcontextprotocol/sdk/types.js';
+import { parsePatch } from './analysis.js';
+import { CONFIG_FILE_NAMES } from './config.js';
+import { GitmojiError } from './errors.js';
+import { assertRef, getCommitsInRange, getGitPath, getRepoConfig, getRepoRoot, getStagedPatch, suggestCommitType } from './git.js';
+import type { GitOperationOptions } from './git.js';
+import { CommitType, GitmojiConfig, PatchFile, SuggestionResult } from './types.js';
+import { isBreakingCommit, parseCommitMessage } from './utils.js';
+
+/**
+ * Number of commits returned by the log resource when no range is given
+ */
+export const RECENT_COMMIT_COUNT = 20;
+
+const MIME_TYPE = 'application/json';
+
+/**
+ * Fixed resources, always readable
+ */
+export const RESOURCES: Resource[] = [
+  {
+    uri: 'gitmoji://types',
+    name: 'types',
+    title: 'Commit types',
+    description: 'The effective commit type catalog with emoji, shortcodes and descriptions',
+    mimeType: MIME_TYPE,
+  },
+  {
+    uri: 'gitmoji://config',
+    name: 'config',
+    title: 'Repository config',
+    description: 'The resolved repository settings: convention, rules, versioning, release and lint settings',
+    mimeType: MIME_TYPE,
+  },
+  {
+    uri: 'gitmoji://repo/staged',
+    name: 'staged',
+    title: 'Staged changes',
+    description: 'Summary of the staged files with line counts and the suggested commit type and scope',
+    mimeType: MIME_TYPE,
+  },
+];
+
+/**
+ * Parameterised resources
+ */
+export const RESOURCE_TEMPLATES: ResourceTemplate[] = [
+  {
+    uriTemplate: 'gitmoji://repo/log{?range}',
+    name: 'log',
+    title: 'Commit history',
+    description: `Parsed commits of a revision range such as "v1.2.0..HEAD", or the ${RECENT_COMMIT_COUNT} most recent commits without one`,
+    mimeType: MIME_TYPE,
+  },
+];
+
+/**
+ * A staged file in the staged summary
+ */
+export interface StagedFileSummary {
+  path: string;
+  oldPath?: string;
+  status: PatchFile['status'];
+  binary: boolean;
+  additions: number;
+  deletions: number;
+}
+
+/**
+ * Content of `gitmoji://repo/staged`
+ */
+export interface StagedSummary {
+  files: StagedFileSummary[];
+  additions: number;
+  deletions: number;
+  /** Suggested type for the staged files, when anything is staged */
+  suggestion?: SuggestionResult;
+}
+
+/**
+ * A commit of `gitmoji://repo/log`, with its message parsed by the convention
+ */
+export interface LogEntry {
+  hash: string;
+  shortHash: string;
+  author: string;
+  date: string;
+  subject: string;
+  /** Set when the message follows the convention */
+  type?: CommitType;
+  scope?: string;
+  title?: string;
+  breaking?: boolean;
+}
+
+function splitUri(uri: string): { base: string; query: URLSearchParams } {
+  const index = uri.indexOf('?');
+  return index === -1
+    ? { base: uri, query: new URLSearchParams() }
+    : { base: uri.substring(0, index), query: new URLSearchParams(uri.substring(index + 1)) };
+}
+
+function describeTypes(config: GitmojiConfig) {
+  return {
+    preset: config.preset,
+    convention: config.convention,
+    emojiFormat: config.rules.emojiFormat,
+    types: Object.entries(config.types).map(([type, info]) => ({
+      type,
+      emoji: info.emoji,
+      code: info.code,
+      conventional: info.conventional,
+      title: info.title,
+      description: info.description,
+    })),
+  };
+}
+
+/**
+ * List the staged files with their line counts
+ */
+export async function getStagedFiles(options?: GitOperationOptions): Promise<StagedFileSummary[]> {
+  return parsePatch(await getStagedPatch(options)).map(file => ({
+    path: file.path,
+    oldPath: file.oldPath,
+    status: file.status,
+    binary: file.binary,
+    additions: file.added.length,
+    deletions: file.removed.length,
+  }));
+}
+
+async function getStagedSummary(config: GitmojiConfig, options?: GitOperationOptions): Promise<StagedSummary> {
+  const files = await getStagedFiles(options);
+
+  return {
+    files,
+    additions: files.reduce((sum, file) => sum + file.additions, 0),
+    deletions: files.reduce((sum, file) => sum + file.deletions, 0),
+    suggestion: files.length > 0 ? await suggestCommitType(options, config) : undefined,
+  };
+}
+
+async function getLog(range: string | null, config: GitmojiConfig, options?: GitOperationOptions) {
+  // The range comes from the resource URI, which any client can choose
+  if (range) {
+    assertRef(range, 'range');
+  }
+
+  const commits = await getCommitsInRange(range ?? 'HEAD', {
+    ...options,
+    maxCount: range ? undefined : RECENT_COMMIT_COUNT,
+  });
+
+  const entries = commits.map((commit): LogEntry => {
+    const parsed = parseCommitMessage(commit.message, config);
+    return {
+      hash: commit.hash,
+      shortHash: commit.shortHash,
+      author: commit.author,
+      date: commit.date,
+      subject: commit.message.split('\n')[0],
+      type: parsed?.type,
+      scope: parsed?.scope,
+      title: parsed?.title,
+      breaking: parsed ? isBreakingCommit(parsed) : undefined,
+    };
+  });
+
+  return { range: range ?? undefined, commits: entries };
+}
+
+/**
+ * Read a resource as JSON-serialisable data
+ */
+export async function readResource(uri: string, options?: GitOperationOptions): Promise<unknown> {
+  const { base, query } = splitUri(uri);
+  const config = await getRepoConfig(options);
+
+  switch (base) {
+    case 'gitmoji://types':
+      return describeTypes(config);
+    case 'gitmoji://config':
+      return config;
+    case 'gitmoji://repo/staged':
+      return getStagedSummary(config, options);
+    case 'gitmoji://repo/log':
+      return getLog(query.get('range') || null, config, options);
+    default:
+      throw new GitmojiError('UNKNOWN_RESOURCE', `Unknown resource: ${uri}`);
+  }
+}
+
+// Files whose changes update a resource, as a directory to watch and the names inside it
+async function getWatchTargets(uri: string, options?: GitOperationOptions): Promise<{ dir: string; names: string[] }[]> {
+  const { base } = splitUri(uri);
+  const root = await getRepoRoot(options);
+  const configFiles = { dir: root, names: [...CONFIG_FILE_NAMES, 'package.json'] };
+
+  switch (base) {
+    case 'gitmoji://types':
+    case 'gitmoji://config':
+      return [configFiles];
+    case 'gitmoji://repo/staged': {
+      // git replaces the index by renaming index.lock, so watch its directory rather than the file
+      const index = await getGitPath('index', options);
+      return [{ dir: path.dirname(index), names: [path.basename(index)] }, configFiles];
+    }
+    case 'gitmoji://repo/log': {
+      // Every commit, amend, reset or checkout appends to the HEAD reflog
+      const reflog = await getGitPath('logs/HEAD', options);
+      return [{ dir: path.dirname(reflog), names: [path.basename(reflog)] }, configFiles];
+    }
+    default:
+      throw new GitmojiError('UNKNOWN_RESOURCE', `Unknown resource: ${uri}`);
+  }
+}
+
+/**
+ * Call `onChange` whenever the content of a resource may have changed.
+ * Returns a function that stops watching.
+ */
+export async function watchResource(
+  uri: string,
+  onChange: () => void,
+  options?: GitOperationOptions
+): Promise<() => void> {
+  const targets = await getWatchTargets(uri, options);
+  const watchers: FSWatcher[] = [];
+  let timer: NodeJS.Timeout | undefined;
+
+  // A single git operation touches the same files several times
+  const notify = () => {
+    clearTimeout(timer);
+    timer = setTimeout(onChange, 100);
+  };
+
+  for (const target of targets) {
+    try {
+      const watcher = watch(target.dir, (_event, fileName) => {
+        if (fileName && target.names.includes(fileName.toString())) {
+          notify();
+        }
+      });
+      watcher.on('error', () => watcher.close());
+      watchers.push(watcher);
+    } catch {
+      // The directory may not exist yet, e.g. logs/ before the first commit
+    }
+  }
+
+  return () => {
+    clearTimeout(timer);
+    watchers.forEach(watcher => watcher.close());
+  };
+}
@@ -0,0 +1,147 @@
+import {
+  abortRevert,
+  assertRef,
+  createCommit,
+  getCommitDetails,
+  getConflictedFiles,
+  hasStagedChanges,
+  isWorkingTreeClean,
+  revertNoCommit,
+} from './git.js';
+import type { GitOperationOptions } from './git.js';
+import { GuardFinding, GuardOverrides, enforceCommitGuards } from './guards.js';
+import { ConflictedFile, GitmojiConfig, ValidationResult } from './types.js';
+import { formatCommitMessage, parseCommitMessage, validateCommitMessage, wrapText } from './utils.js';
+import { GitmojiError } from './errors.js';
+
+/**
+ * Options for reverting a commit
+ */
+export interface RevertOptions {
+  /** Why the commit is reverted, added to the message body */
+  reason?: string;
+  /** For merge commits, the 1-based parent whose side is kept */
+  mainline?: number;
+  /** Commit guards to skip for the revert commit */
+  overrides?: GuardOverrides;
+}
+
+/**
+ * Outcome of a revert. When `conflicts` is non-empty the revert was aborted and
+ * the repository is unchanged.
+ */
+export interface RevertResult {
+  reverted: string;
+  message: string;
+  hash?: string;
+  mainline?: number;
+  conflicts: ConflictedFile[];
+  validation: ValidationResult;
+  /** Guards set to "warn" that failed */
+  guards: GuardFinding[];
+}
+
+// Once the revert is applied only the guards on the staged changes are left to run:
+// the others ran before, and the revert itself now counts as an operation in progress
+function withStagedGuardsOnly(config: GitmojiConfig): GitmojiConfig {
+  return {
+    ...config,
+    guards: { ...config.guards, detachedHead: 'off', operationInProgress: 'off', protectedBranch: 'off' },
+  };
+}
+
+/**
+ * Build the revert message from the original commit: `⏪ revert(<scope>): <title>`
+ */
+export function buildRevertMessage(
+  original: { hash: string; message: string; parents: string[] },
+  options: RevertOptions,
+  config: GitmojiConfig
+): string {
+  const parsed = parseCommitMessage(original.message, config);
+  const title = parsed?.title ?? original.message.split('\n')[0];
+
+  let body = `This reverts commit ${original.hash}`;
+  if (options.mainline !== undefined) {
+    body += `, reversing changes made to ${original.parents[options.mainline - 1]}`;
+  }
+  body = wrapText(`${body}.`, config.rules.bodyMaxLineLength);
+
+  if (options.reason) {
+    body += `\n\n${options.reason}`;
+  }
+
+  return formatCommitMessage({ type: 'revert', scope: parsed?.scope, title, description: body }, config);
+}
+
+/**
+ * Revert a commit with a message following the convention. Conflicts abort the revert
+ * and are reported instead of leaving a half-reverted working tree.
+ */
+export async function revertCommit(
+  ref: string,
+  config: GitmojiConfig,
+  options: RevertOptions = {},
+  gitOptions?: GitOperationOptions
+): Promise<RevertResult> {
+  assertRef(ref, 'commit');
+
+  if (!(await isWorkingTreeClean(gitOptions))) {
+    throw new GitmojiError('DIRTY_WORKING_TREE', 'Working tree has uncommitted changes. Commit or stash them before reverting.');
+  }
+
+  const original = await getCommitDetails(ref, gitOptions);
+  const { mainline } = options;
+
+  if (original.parents.length > 1 && mainline === undefined) {
+    const parents = original.parents.map((parent, i) => `${i + 1} = ${parent.substring(0, 7)}`).join(', ');
+    throw new GitmojiError('INVALID_ARGUMENT', `Commit ${original.hash.substring(0, 7)} is a merge; pass mainline to choose the parent to keep (${parents})`);
+  }
+
+  if (mainline !== undefined && (original.parents.length < 2 || mainline < 1 || mainline > original.parents.length)) {
+    throw new GitmojiError(
+      'INVALID_ARGUMENT',
+      original.parents.length < 2
+        ? `Commit ${original.hash.substring(0, 7)} is not a merge; mainline only applies to merge commits`
+        : `Mainline must be between 1 and ${original.parents.length}`
+    );
+  }
+
+  const message = buildRevertMessage(original, options, config);
+  const validation = validateCommitMessage(message, config);
+
+  if (!validation.valid) {
+    throw new GitmojiError('INVALID_MESSAGE', `Invalid commit message:\n${validation.issues.join('\n')}`);
+  }
+
+  const guards = await enforceCommitGuards(config, options.overrides, gitOptions);
+  const result: RevertResult = { reverted: original.hash, message, mainline, conflicts: [], validation, guards };
+
+  try {
+    await revertNoCommit(original.hash, mainline, gitOptions);
+  } catch (error) {
+    const conflicts = await getConflictedFiles(gitOptions);
+    await abortRevert(gitOptions).catch(() => undefined);
+
+    if (conflicts.length === 0) {
+      throw error;
+    }
+
+    return { ...result, conflicts };
+  }
+
+  if (!(await hasStagedChanges(gitOptions))) {
+    await abortRevert(gitOptions);
+    throw new GitmojiError('NOTHING_TO_COMMIT', `Reverting ${original.hash.substring(0, 7)} produces no changes; it may already be reverted`);
+  }
+
+  try {
+    result.guards.push(...(await enforceCommitGuards(withStagedGuardsOnly(config), options.overrides, gitOptions)));
+    result.hash = await createCommit(message, gitOptions);
+  } catch (error) {
+    await abortRevert(gitOptions);
+    throw error;
+  }
+
+  return result;
+}
@@ -0,0 +1,141 @@
+import {
+  amendCommit,
+  assertRef,
+  commitTree,
+  getCommitDetails,
+  getDescendants,
+  getUpstreamBranch,
+  hasStagedChanges,
+  isAncestor,
+  resolveRef,
+  updateHead,
+} from './git.js';
+import type { GitOperationOptions } from './git.js';
+import { CommitParams, GitmojiConfig, ValidationResult } from './types.js';
+import { formatCommitMessage, validateCommitMessage } from './utils.js';
+import { GitmojiError } from './errors.js';
+
+/**
+ * Options shared by amend and reword
+ */
+export interface RewriteOptions {
+  /** Rewrite commits that are already on the upstream tracking branch */
+  force?: boolean;
+}
+
+/**
+ * Outcome of amending or rewording a commit
+ */
+export interface RewriteResult {
+  oldHash: string;
+  newHash: string;
+  message: string;
+  validation: ValidationResult;
+  /** Commits after the reworded one that were recreated on top of it */
+  rebased: { oldHash: string; newHash: string }[];
+  /** Set when the commit was already on the upstream branch and `force` was used */
+  upstream?: string;
+}
+
+function validateOrThrow(message: string, config: GitmojiConfig): ValidationResult {
+  const validation = validateCommitMessage(message, config);
+
+  if (!validation.valid) {
+    throw new GitmojiError('INVALID_MESSAGE', `Invalid commit message:\n${validation.issues.join('\n')}`);
+  }
+
+  return validation;
+}
+
+/**
+ * Refuse to rewrite a commit that is already on the upstream tracking branch unless forced.
+ * Returns the upstream branch when a published commit is rewritten with force.
+ */
+async function checkPublished(
+  hash: string,
+  options: RewriteOptions,
+  gitOptions?: GitOperationOptions
+): Promise<string | undefined> {
+  const upstream = await getUpstreamBranch(gitOptions);
+
+  if (!upstream || !(await isAncestor(hash, upstream, gitOptions))) {
+    return undefined;
+  }
+
+  if (!options.force) {
+    throw new GitmojiError(
+      'PUBLISHED_COMMIT',
+      `Commit ${hash.substring(0, 7)} is already on ${upstream}. Rewriting it would change published history; pass force to rewrite it anyway.`
+    );
+  }
+
+  return upstream;
+}
+
+/**
+ * Replace the last commit, with a new message and/or the staged changes.
+ * Without params the current message is kept (and still validated).
+ */
+export async function amendLastCommit(
+  params: CommitParams | undefined,
+  config: GitmojiConfig,
+  options: RewriteOptions = {},
+  gitOptions?: GitOperationOptions
+): Promise<RewriteResult> {
+  const head = await getCommitDetails('HEAD', gitOptions);
+  const message = params ? formatCommitMessage(params, config) : head.message;
+  const validation = validateOrThrow(message, config);
+
+  if (message === head.message && !(await hasStagedChanges(gitOptions))) {
+    throw new GitmojiError('NOTHING_TO_COMMIT', 'Nothing to amend: the message is unchanged and there are no staged changes');
+  }
+
+  const upstream = await checkPublished(head.hash, options, gitOptions);
+  const newHash = await amendCommit(message, gitOptions);
+
+  return { oldHash: head.hash, newHash, message, validation, rebased: [], upstream };
+}
+
+/**
+ * Change the message of a commit on the current branch without touching its content.
+ * Commits after it are recreated with the same trees, authors and messages; the index
+ * and working tree are left alone.
+ */
+export async function rewordCommit(
+  ref: string,
+  params: CommitParams,
+  config: GitmojiConfig,
+  options: RewriteOptions = {},
+  gitOptions?: GitOperationOptions
+): Promise<RewriteResult> {
+  assertRef(ref, 'commit');
+
+  const message = formatCommitMessage(params, config);
+  const validation = validateOrThrow(message, config);
+
+  const target = await getCommitDetails(ref, gitOptions);
+  const head = await resolveRef('HEAD', gitOptions);
+
+  if (!(await isAncestor(target.hash, head, gitOptions))) {
+    throw new GitmojiError('INVALID_ARGUMENT', `Commit ${target.hash.substring(0, 7)} is not on the current branch`);
+  }
+
+  const upstream = await checkPublished(target.hash, options, gitOptions);
+  const descendants = await getDescendants(target.hash, head, gitOptions);
+
+  const newHash = await commitTree({ ...target, message }, gitOptions);
+  const replaced = new Map([[target.hash, newHash]]);
+  const rebased: RewriteResult['rebased'] = [];
+
+  for (const hash of descendants) {
+    const commit = await getCommitDetails(hash, gitOptions);
+    const parents = commit.parents.map(parent => replaced.get(parent) ?? parent);
+    const rewritten = await commitTree({ ...commit, parents }, gitOptions);
+    replaced.set(hash, rewritten);
+    rebased.push({ oldHash: hash, newHash: rewritten });
+  }
+
+  await updateHead(replaced.get(head) ?? newHash, head, `reword: ${message.split('\n')[0]}`, gitOptions);
+
+  return { oldHash: target.hash, newHash, message, validation, rebased, upstream };
+}
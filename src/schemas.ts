@@ -0,0 +1,543 @@
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { ERROR_CODES } from './errors.js';
+
+/**
+ * JSON Schemas of the structured results returned by the tools
+ */
+
+export type OutputSchema = NonNullable<Tool['outputSchema']>;
+
+const stringArray = { type: 'array', items: { type: 'string' } };
+
+const bumpSchema = { type: 'string', enum: ['major', 'minor', 'patch', 'none'] };
+
+const fileStatusSchema = { type: 'string', enum: ['added', 'deleted', 'modified', 'renamed'] };
+
+const errorSchema = {
+  type: 'object',
+  description: 'Set instead of the result when the tool fails',
+  properties: {
+    code: { type: 'string', enum: ERROR_CODES },
+    message: { type: 'string' },
+  },
+  required: ['code', 'message'],
+};
+
+const diagnosticSchema = {
+  type: 'object',
+  properties: {
+    severity: { type: 'string', enum: ['error', 'warning'] },
+    code: { type: 'string' },
+    message: { type: 'string' },
+    start: { type: 'number' },
+    end: { type: 'number' },
+    line: { type: 'number' },
+    column: { type: 'number' },
+  },
+  required: ['severity', 'code', 'message', 'start', 'end', 'line', 'column'],
+};
+
+const validationSchema = {
+  type: 'object',
+  properties: {
+    valid: { type: 'boolean' },
+    issues: stringArray,
+    warnings: stringArray,
+    diagnostics: { type: 'array', items: diagnosticSchema },
+  },
+  required: ['valid', 'issues'],
+};
+
+const commitInfoSchema = {
+  type: 'object',
+  properties: {
+    hash: { type: 'string' },
+    shortHash: { type: 'string' },
+    parents: stringArray,
+    message: { type: 'string' },
+    author: { type: 'string' },
+    date: { type: 'string' },
+  },
+  required: ['hash', 'shortHash', 'parents', 'message', 'author', 'date'],
+};
+
+const changelogEntrySchema = {
+  type: 'object',
+  properties: {
+    hash: { type: 'string' },
+    shortHash: { type: 'string' },
+    type: { type: 'string' },
+    scope: { type: 'string' },
+    title: { type: 'string' },
+    breakingNote: { type: 'string' },
+  },
+  required: ['hash', 'shortHash', 'title'],
+};
+
+const hookChangeSchema = {
+  type: 'object',
+  properties: {
+    hook: { type: 'string', enum: ['commit-msg', 'prepare-commit-msg'] },
+    path: { type: 'string' },
+    action: { type: 'string', enum: ['created', 'updated', 'chained', 'appended', 'removed', 'restored', 'skipped'] },
+    detail: { type: 'string' },
+  },
+  required: ['hook', 'path', 'action'],
+};
+
+const rewriteSchema = {
+  oldHash: { type: 'string' },
+  newHash: { type: 'string' },
+  message: { type: 'string' },
+  validation: validationSchema,
+  rebased: {
+    type: 'array',
+    description: 'Later commits recreated on top of the rewritten one',
+    items: {
+      type: 'object',
+      properties: { oldHash: { type: 'string' }, newHash: { type: 'string' } },
+      required: ['oldHash', 'newHash'],
+    },
+  },
+  upstream: { type: 'string', description: 'Upstream branch the commit was already on, when forced' },
+};
+
+// A successful result has the required properties, a failed one only `error`
+function outputSchema(properties: Record<string, object>, required: string[]): OutputSchema {
+  return {
+    type: 'object',
+    properties: { ...properties, error: errorSchema },
+    anyOf: [{ required }, { required: ['error'] }],
+  };
+}
+
+export const FORMAT_MESSAGE_OUTPUT = outputSchema({ message: { type: 'string' } }, ['message']);
+
+export const VALIDATE_MESSAGE_OUTPUT = outputSchema(validationSchema.properties, validationSchema.required);
+
+export const SUGGEST_TYPE_OUTPUT = outputSchema(
+  {
+    type: { type: 'string' },
+    emoji: { type: 'string' },
+    reason: { type: 'string' },
+    confidence: { type: 'string', enum: ['high', 'medium', 'low'] },
+    score: { type: 'number' },
+    signals: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          type: { type: 'string' },
+          fallback: { type: 'string' },
+          weight: { type: 'number' },
+          description: { type: 'string' },
+          files: stringArray,
+        },
+        required: ['id', 'type', 'weight', 'description', 'files'],
+      },
+    },
+    candidates: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          type: { type: 'string' },
+          emoji: { type: 'string' },
+          score: { type: 'number' },
+          reason: { type: 'string' },
+        },
+        required: ['type', 'emoji', 'score', 'reason'],
+      },
+    },
+    files: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          path: { type: 'string' },
+          type: { type: 'string' },
+          emoji: { type: 'string' },
+          score: { type: 'number' },
+          reason: { type: 'string' },
+        },
+        required: ['path', 'type', 'emoji', 'score', 'reason'],
+      },
+    },
+    mixed: { type: 'boolean' },
+    mixedReason: { type: 'string' },
+    scope: {
+      type: 'object',
+      properties: {
+        scope: { type: 'string' },
+        source: { type: 'string', enum: ['workspace', 'directory'] },
+        reason: { type: 'string' },
+        files: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: { path: { type: 'string' }, scope: { type: 'string' } },
+            required: ['path'],
+          },
+        },
+        conflicts: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: { scope: { type: 'string' }, files: stringArray },
+            required: ['scope', 'files'],
+          },
+        },
+      },
+      required: ['source', 'reason', 'files', 'conflicts'],
+    },
+    prefix: { type: 'string' },
+  },
+  ['type', 'emoji', 'reason', 'confidence']
+);
+
+const identitySchema = {
+  type: 'object',
+  properties: { name: { type: 'string' }, email: { type: 'string' } },
+  required: ['name', 'email'],
+};
+
+const guardFindingsSchema = {
+  type: 'array',
+  description: 'Commit guards that found a problem; on a real commit only warnings, since errors refuse it',
+  items: {
+    type: 'object',
+    properties: {
+      guard: { type: 'string' },
+      code: { type: 'string' },
+      level: { type: 'string', enum: ['error', 'warn'] },
+      message: { type: 'string' },
+      files: stringArray,
+    },
+    required: ['guard', 'code', 'level', 'message'],
+  },
+};
+
+export const COMMIT_OUTPUT = outputSchema(
+  {
+    dryRun: { type: 'boolean' },
+    hash: { type: 'string', description: 'Hash of the new commit, unless dry run' },
+    message: { type: 'string' },
+    validation: validationSchema,
+    preview: {
+      type: 'object',
+      description: 'What the commit would do, on dry run',
+      properties: {
+        message: { type: 'string' },
+        branch: { type: 'string' },
+        head: { type: 'string' },
+        author: identitySchema,
+        committer: identitySchema,
+        files: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              path: { type: 'string' },
+              oldPath: { type: 'string' },
+              status: fileStatusSchema,
+              binary: { type: 'boolean' },
+              additions: { type: 'number' },
+              deletions: { type: 'number' },
+            },
+            required: ['path', 'status', 'binary', 'additions', 'deletions'],
+          },
+        },
+        additions: { type: 'number' },
+        deletions: { type: 'number' },
+        hooks: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: { hook: { type: 'string' }, path: { type: 'string' } },
+            required: ['hook', 'path'],
+          },
+        },
+        tree: { type: 'string' },
+        confirmToken: { type: 'string' },
+      },
+      required: ['message', 'author', 'committer', 'files', 'additions', 'deletions', 'hooks', 'tree', 'confirmToken'],
+    },
+    guards: guardFindingsSchema,
+  },
+  ['dryRun', 'message', 'validation']
+);
+
+export const CHANGELOG_OUTPUT = outputSchema(
+  {
+    range: { type: 'string' },
+    commitCount: { type: 'number' },
+    markdown: { type: 'string' },
+    changelog: {
+      type: 'object',
+      properties: {
+        breaking: { type: 'array', items: changelogEntrySchema },
+        sections: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              type: { type: 'string' },
+              title: { type: 'string' },
+              entries: { type: 'array', items: changelogEntrySchema },
+            },
+            required: ['type', 'title', 'entries'],
+          },
+        },
+        other: { type: 'array', items: changelogEntrySchema },
+      },
+      required: ['breaking', 'sections', 'other'],
+    },
+  },
+  ['range', 'commitCount', 'markdown', 'changelog']
+);
+
+export const NEXT_VERSION_OUTPUT = outputSchema(
+  {
+    currentTag: { type: 'string' },
+    currentVersion: { type: 'string' },
+    nextVersion: { type: 'string' },
+    nextTag: { type: 'string' },
+    commitBump: bumpSchema,
+    bump: bumpSchema,
+    triggers: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          hash: { type: 'string' },
+          shortHash: { type: 'string' },
+          subject: { type: 'string' },
+          bump: bumpSchema,
+        },
+        required: ['hash', 'shortHash', 'subject', 'bump'],
+      },
+    },
+    commits: { type: 'array', items: commitInfoSchema },
+  },
+  ['currentVersion', 'nextVersion', 'nextTag', 'commitBump', 'bump', 'triggers', 'commits']
+);
+
+export const RELEASE_OUTPUT = outputSchema(
+  {
+    plan: {
+      type: 'object',
+      properties: {
+        currentTag: { type: 'string' },
+        version: { type: 'string' },
+        tag: { type: 'string' },
+        bump: bumpSchema,
+        commitCount: { type: 'number' },
+        notes: { type: 'string' },
+        commitMessage: { type: 'string' },
+        tagMessage: { type: 'string' },
+        edits: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              path: { type: 'string' },
+              action: { type: 'string', enum: ['create', 'update'] },
+              summary: { type: 'string' },
+            },
+            required: ['path', 'action', 'summary'],
+          },
+        },
+      },
+      required: ['version', 'tag', 'bump', 'commitCount', 'notes', 'commitMessage', 'tagMessage', 'edits'],
+    },
+    dryRun: { type: 'boolean' },
+    commitHash: { type: 'string' },
+    log: stringArray,
+    guards: guardFindingsSchema,
+  },
+  ['plan', 'dryRun', 'log', 'guards']
+);
+
+export const INSTALL_HOOKS_OUTPUT = outputSchema(
+  {
+    location: {
+      type: 'object',
+      properties: {
+        dir: { type: 'string' },
+        hooksPath: { type: 'string' },
+        husky: { type: 'boolean' },
+      },
+      required: ['dir', 'husky'],
+    },
+    changes: { type: 'array', items: hookChangeSchema },
+  },
+  ['location', 'changes']
+);
+
+export const UNINSTALL_HOOKS_OUTPUT = outputSchema({ changes: { type: 'array', items: hookChangeSchema } }, ['changes']);
+
+export const LINT_RANGE_OUTPUT = outputSchema(
+  {
+    range: { type: 'string' },
+    passed: { type: 'boolean' },
+    commits: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          hash: { type: 'string' },
+          shortHash: { type: 'string' },
+          subject: { type: 'string' },
+          kind: { type: 'string', enum: ['normal', 'merge', 'fixup', 'revert'] },
+          status: { type: 'string', enum: ['passed', 'failed', 'skipped'] },
+          issues: stringArray,
+          warnings: stringArray,
+        },
+        required: ['hash', 'shortHash', 'subject', 'kind', 'status', 'issues', 'warnings'],
+      },
+    },
+    summary: {
+      type: 'object',
+      properties: {
+        total: { type: 'number' },
+        passed: { type: 'number' },
+        failed: { type: 'number' },
+        skipped: { type: 'number' },
+        withWarnings: { type: 'number' },
+      },
+      required: ['total', 'passed', 'failed', 'skipped', 'withWarnings'],
+    },
+  },
+  ['range', 'passed', 'commits', 'summary']
+);
+
+export const PLAN_COMMITS_OUTPUT = outputSchema(
+  {
+    commits: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          type: { type: 'string' },
+          emoji: { type: 'string' },
+          scope: { type: 'string' },
+          title: { type: 'string' },
+          files: stringArray,
+          reason: { type: 'string' },
+        },
+        required: ['type', 'emoji', 'title', 'files', 'reason'],
+      },
+    },
+  },
+  ['commits']
+);
+
+export const EXECUTE_PLAN_OUTPUT = outputSchema(
+  {
+    commits: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          hash: { type: 'string' },
+          message: { type: 'string' },
+          files: stringArray,
+        },
+        required: ['hash', 'message', 'files'],
+      },
+    },
+    remaining: { ...stringArray, description: 'Staged files that were not part of the plan' },
+    guards: guardFindingsSchema,
+  },
+  ['commits', 'remaining']
+);
+
+export const STAGED_DIFF_OUTPUT = outputSchema(
+  {
+    files: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          path: { type: 'string' },
+          oldPath: { type: 'string' },
+          status: fileStatusSchema,
+          binary: { type: 'boolean' },
+          additions: { type: 'number' },
+          deletions: { type: 'number' },
+          patch: { type: 'string' },
+          truncated: { type: 'boolean' },
+          omittedLines: { type: 'number' },
+        },
+        required: ['path', 'status', 'binary', 'additions', 'deletions', 'patch', 'truncated', 'omittedLines'],
+      },
+    },
+    excluded: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          path: { type: 'string' },
+          status: fileStatusSchema,
+          reason: { type: 'string', enum: ['lockfile', 'generated', 'binary'] },
+          additions: { type: 'number' },
+          deletions: { type: 'number' },
+        },
+        required: ['path', 'status', 'reason', 'additions', 'deletions'],
+      },
+    },
+    truncated: { type: 'boolean' },
+    patch: { type: 'string' },
+  },
+  ['files', 'excluded', 'truncated', 'patch']
+);
+
+export const SCAN_STAGED_OUTPUT = outputSchema(
+  {
+    clean: { type: 'boolean', description: 'Whether nothing outside the allowlist was found' },
+    findings: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          path: { type: 'string' },
+          line: { type: 'number', description: 'Line in the staged file; absent when the whole file is the problem' },
+          rule: { type: 'string' },
+          description: { type: 'string' },
+          excerpt: { type: 'string', description: 'The line with the secret masked' },
+        },
+        required: ['path', 'rule', 'description'],
+      },
+    },
+    allowed: { type: 'number', description: 'Findings skipped because of the allowlist' },
+    files: { type: 'number', description: 'Staged files scanned' },
+  },
+  ['clean', 'findings', 'allowed', 'files']
+);
+
+export const REWRITE_OUTPUT = outputSchema({ ...rewriteSchema, guards: guardFindingsSchema }, ['oldHash', 'newHash', 'message', 'validation', 'rebased']);
+
+export const REVERT_OUTPUT = outputSchema(
+  {
+    reverted: { type: 'string' },
+    message: { type: 'string' },
+    hash: { type: 'string' },
+    mainline: { type: 'number' },
+    conflicts: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          path: { type: 'string' },
+          code: { type: 'string' },
+          description: { type: 'string' },
+        },
+        required: ['path', 'code', 'description'],
+      },
+    },
+    validation: validationSchema,
+    guards: guardFindingsSchema,
+  },
+  ['reverted', 'message', 'conflicts', 'validation', 'guards']
+);
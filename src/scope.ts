@@ -0,0 +1,283 @@
+import { readdir, readFile } from 'node:fs/promises';
+import path from 'node:path';
+import { ScopeSuggestion, WorkspacePackage } from './types.js';
+
+/**
+ * Conventional package directories used when no workspace manifest declares them
+ */
+const CONVENTIONAL_PACKAGE_GLOBS = ['packages/*', 'apps/*'];
+
+/**
+ * Files that make a directory a package, as read by readPackageName
+ */
+const PACKAGE_MANIFESTS = ['package.json', 'Cargo.toml', 'go.mod'];
+
+/**
+ * Source roots skipped when deriving a scope from a directory name
+ */
+const SOURCE_ROOTS = new Set(['src', 'lib', 'app', 'pkg', 'internal', 'cmd', 'source']);
+
+async function readOptionalFile(filePath: string): Promise<string | undefined> {
+  try {
+    return await readFile(filePath, 'utf8');
+  } catch {
+    return undefined;
+  }
+}
+
+async function readJsonFile(filePath: string): Promise<Record<string, unknown> | undefined> {
+  const content = await readOptionalFile(filePath);
+  if (content === undefined) {
+    return undefined;
+  }
+
+  try {
+    const parsed = JSON.parse(content);
+    return parsed && typeof parsed === 'object' ? parsed : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function toStringArray(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+}
+
+function extractQuoted(text: string): string[] {
+  return Array.from(text.matchAll(/["']([^"']+)["']/g), match => match[1]);
+}
+
+/**
+ * Read workspace globs from npm/yarn, pnpm, lerna, Cargo and Go workspace manifests
+ */
+async function readWorkspaceGlobs(rootDir: string): Promise<string[]> {
+  const globs: string[] = [];
+
+  const packageJson = await readJsonFile(path.join(rootDir, 'package.json'));
+  const workspaces = packageJson?.workspaces;
+  globs.push(...toStringArray(workspaces));
+  if (workspaces && typeof workspaces === 'object' && !Array.isArray(workspaces)) {
+    globs.push(...toStringArray((workspaces as Record<string, unknown>).packages));
+  }
+
+  const lerna = await readJsonFile(path.join(rootDir, 'lerna.json'));
+  globs.push(...toStringArray(lerna?.packages));
+
+  const pnpm = await readOptionalFile(path.join(rootDir, 'pnpm-workspace.yaml'));
+  if (pnpm) {
+    const section = /^packages:\s*\n((?:\s+-.*\n?|\s*#.*\n?|\s*\n)*)/m.exec(pnpm);
+    if (section) {
+      for (const line of section[1].split('\n')) {
+        const item = /^\s+-\s*["']?([^"'#\s]+)["']?/.exec(line);
+        if (item) {
+          globs.push(item[1]);
+        }
+      }
+    }
+  }
+
+  const cargo = await readOptionalFile(path.join(rootDir, 'Cargo.toml'));
+  if (cargo) {
+    const members = /\[workspace\][\s\S]*?members\s*=\s*\[([\s\S]*?)\]/.exec(cargo);
+    if (members) {
+      globs.push(...extractQuoted(members[1]));
+    }
+  }
+
+  const goWork = await readOptionalFile(path.join(rootDir, 'go.work'));
+  if (goWork) {
+    const block = /^use\s*\(([\s\S]*?)\)/m.exec(goWork);
+    const uses = block ? block[1].split('\n') : Array.from(goWork.matchAll(/^use\s+(\S+)/gm), match => match[1]);
+    globs.push(...uses.map(use => use.trim()).filter(use => use.length > 0 && !use.startsWith('//')));
+  }
+
+  return globs
+    .filter(glob => !glob.startsWith('!'))
+    .map(glob => glob.replace(/^\.\//, '').replace(/\/+$/, ''))
+    .filter(glob => glob.length > 0 && glob !== '.');
+}
+
+async function listDirectories(rootDir: string, base: string): Promise<string[]> {
+  const entries = await readdir(path.join(rootDir, base), { withFileTypes: true }).catch(() => []);
+  return entries
+    .filter(entry => entry.isDirectory() && !entry.name.startsWith('.') && entry.name !== 'node_modules')
+    .map(entry => (base ? `${base}/${entry.name}` : entry.name));
+}
+
+async function hasManifest(rootDir: string, dir: string): Promise<boolean> {
+  for (const manifest of PACKAGE_MANIFESTS) {
+    if ((await readOptionalFile(path.join(rootDir, dir, manifest))) !== undefined) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Expand a workspace glob to directories. Supports literal segments, `*` within a segment
+ * and `**` for any depth. Since `**` would also reach every source folder of a package,
+ * globs using it only keep directories that have a package manifest.
+ */
+async function expandGlob(rootDir: string, glob: string): Promise<string[]> {
+  const segments = glob.split('/');
+  let current = [''];
+
+  for (const segment of segments) {
+    const next: string[] = [];
+
+    for (const base of current) {
+      if (segment === '**') {
+        const pending = [base];
+        while (pending.length > 0) {
+          const dir = pending.shift()!;
+          next.push(dir);
+          pending.push(...(await listDirectories(rootDir, dir)));
+        }
+      } else if (segment.includes('*')) {
+        const pattern = new RegExp(`^${segment.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*+/g, '.*')}$`);
+        next.push(...(await listDirectories(rootDir, base)).filter(dir => pattern.test(path.posix.basename(dir))));
+      } else {
+        next.push(base ? `${base}/${segment}` : segment);
+      }
+    }
+
+    current = [...new Set(next)];
+  }
+
+  if (!segments.includes('**')) {
+    return current;
+  }
+
+  const packages: string[] = [];
+  for (const dir of current) {
+    if (dir && (await hasManifest(rootDir, dir))) {
+      packages.push(dir);
+    }
+  }
+  return packages;
+}
+
+/**
+ * Determine a package's name from its manifest, falling back to the directory name
+ */
+async function readPackageName(rootDir: string, dir: string): Promise<string> {
+  const absolute = path.join(rootDir, dir);
+
+  const packageJson = await readJsonFile(path.join(absolute, 'package.json'));
+  if (typeof packageJson?.name === 'string') {
+    return packageJson.name;
+  }
+
+  const cargo = await readOptionalFile(path.join(absolute, 'Cargo.toml'));
+  const cargoName = cargo && /\[package\][\s\S]*?^\s*name\s*=\s*["']([^"']+)["']/m.exec(cargo);
+  if (cargoName) {
+    return cargoName[1];
+  }
+
+  const goMod = await readOptionalFile(path.join(absolute, 'go.mod'));
+  const goModule = goMod && /^module\s+(\S+)/m.exec(goMod);
+  if (goModule) {
+    return goModule[1];
+  }
+
+  return path.posix.basename(dir);
+}
+
+/**
+ * Turn a package name into a commit scope, e.g. "@acme/auth" or "github.com/acme/auth" → "auth"
+ */
+export function toScopeName(name: string): string {
+  const last = name.split('/').filter(Boolean).pop() ?? name;
+  return last.toLowerCase();
+}
+
+/**
+ * Discover the packages of a monorepo
+ */
+export async function findWorkspacePackages(rootDir: string): Promise<WorkspacePackage[]> {
+  let globs = await readWorkspaceGlobs(rootDir);
+  if (globs.length === 0) {
+    globs = CONVENTIONAL_PACKAGE_GLOBS;
+  }
+
+  const dirs = new Set<string>();
+  for (const glob of globs) {
+    for (const dir of await expandGlob(rootDir, glob)) {
+      dirs.add(dir);
+    }
+  }
+
+  const packages: WorkspacePackage[] = [];
+  for (const dir of dirs) {
+    const name = await readPackageName(rootDir, dir);
+    packages.push({ name, dir, scope: toScopeName(name) });
+  }
+
+  // Longest directory first so nested packages win
+  return packages.sort((a, b) => b.dir.length - a.dir.length);
+}
+
+/**
+ * Scope for a file outside any workspace package: its top-level module directory
+ */
+function getDirectoryScope(file: string): string | undefined {
+  const segments = file.split('/').slice(0, -1);
+  while (segments.length > 0 && SOURCE_ROOTS.has(segments[0])) {
+    segments.shift();
+  }
+  return segments.length > 0 && !segments[0].startsWith('.') ? segments[0].toLowerCase() : undefined;
+}
+
+/**
+ * Suggest a commit scope for a set of changed files
+ */
+export async function inferScope(rootDir: string, files: string[]): Promise<ScopeSuggestion> {
+  const packages = await findWorkspacePackages(rootDir);
+  const source: ScopeSuggestion['source'] = packages.length > 0 ? 'workspace' : 'directory';
+
+  const fileScopes = files.map(file => {
+    const owner = packages.find(pkg => file === pkg.dir || file.startsWith(`${pkg.dir}/`));
+    // In a monorepo, files outside every package (root config, lockfiles) carry no scope
+    const scope = owner ? owner.scope : source === 'directory' ? getDirectoryScope(file) : undefined;
+    return { path: file, scope };
+  });
+
+  const byScope = new Map<string, string[]>();
+  for (const { path: file, scope } of fileScopes) {
+    if (scope) {
+      byScope.set(scope, [...(byScope.get(scope) ?? []), file]);
+    }
+  }
+
+  const scopes = [...byScope.keys()];
+  const unscoped = fileScopes.filter(file => !file.scope).map(file => file.path);
+
+  if (scopes.length === 1) {
+    return {
+      scope: scopes[0],
+      source,
+      reason:
+        unscoped.length > 0
+          ? `All scoped files belong to "${scopes[0]}" (${unscoped.length} file(s) outside any ${source === 'workspace' ? 'package' : 'module'})`
+          : `All files belong to "${scopes[0]}"`,
+      files: fileScopes,
+      conflicts: [],
+    };
+  }
+
+  if (scopes.length === 0) {
+    return {
+      source,
+      reason: 'Files are at the repository root and do not belong to a package or module',
+      files: fileScopes,
+      conflicts: [],
+    };
+  }
+
+  return {
+    source,
+    reason: `Files span ${scopes.length} scopes: ${scopes.join(', ')}`,
+    files: fileScopes,
+    conflicts: [...byScope.entries()].map(([scope, scopeFiles]) => ({ scope, files: scopeFiles })),
+  };
+}
@@ -0,0 +1,238 @@
+import path from 'node:path';
+import { parsePatch } from './analysis.js';
+import { listAddedLines } from './diff.js';
+import { getStagedPatch } from './git.js';
+import type { GitOperationOptions } from './git.js';
+import { SecretAllowlist } from './types.js';
+import { matchesGlob } from './utils.js';
+
+/**
+ * A possible secret in the staged changes
+ */
+export interface SecretFinding {
+  path: string;
+  /** Line in the staged file; undefined when the whole file is the problem */
+  line?: number;
+  rule: string;
+  description: string;
+  /** The offending line with the secret masked */
+  excerpt?: string;
+}
+
+/**
+ * Result of scanning the staged changes
+ */
+export interface SecretScan {
+  findings: SecretFinding[];
+  /** Findings skipped because of the allowlist */
+  allowed: number;
+  /** Staged files scanned */
+  files: number;
+}
+
+interface SecretRule {
+  id: string;
+  description: string;
+  pattern: RegExp;
+  /** Capture group holding the secret; 0 for the whole match, undefined when the match itself is harmless */
+  secret?: number;
+  /** Only values that look random count, to leave out identifiers and placeholders */
+  random?: boolean;
+}
+
+const SECRET_KEY = '(?:password|passwd|pwd|secret|token|api_?key|access_?key|private_?key)[\\w.-]*';
+
+// Token formats first: the first rule that matches a line is the one reported
+const SECRET_RULES: SecretRule[] = [
+  {
+    id: 'private-key',
+    description: 'Private key',
+    pattern: /-----BEGIN (?:[A-Z0-9]+ )*PRIVATE KEY(?: BLOCK)?-----/,
+  },
+  {
+    id: 'aws-access-key-id',
+    description: 'AWS access key ID',
+    pattern: /\b(?:AKIA|ASIA|AGPA|AIDA|AROA|ANPA|ANVA)[A-Z0-9]{16}\b/,
+    secret: 0,
+  },
+  {
+    id: 'aws-secret-access-key',
+    description: 'AWS secret access key',
+    pattern: /aws_?secret_?access_?key["']?\s*[:=]\s*["']?([A-Za-z0-9/+=]{40})(?![A-Za-z0-9/+=])/i,
+    secret: 1,
+  },
+  {
+    id: 'gcp-api-key',
+    description: 'Google Cloud API key',
+    pattern: /\bAIza[0-9A-Za-z_-]{35}(?![0-9A-Za-z_-])/,
+    secret: 0,
+  },
+  {
+    id: 'github-token',
+    description: 'GitHub token',
+    pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,255}|github_pat_[A-Za-z0-9_]{22,255})\b/,
+    secret: 0,
+  },
+  {
+    id: 'slack-token',
+    description: 'Slack token',
+    pattern: /\bxox[abposre]-[A-Za-z0-9-]{10,}/,
+    secret: 0,
+  },
+  {
+    id: 'slack-webhook',
+    description: 'Slack webhook URL',
+    pattern: /https:\/\/hooks\.slack\.com\/(?:services|workflows)\/([A-Za-z0-9/_-]+)/,
+    secret: 1,
+  },
+  {
+    id: 'secret-assignment',
+    description: 'Hardcoded secret',
+    pattern: new RegExp(`${SECRET_KEY}["']?\\s*(?::=|=>|=|:)\\s*(["'\`])([^"'\`\\s]{8,})\\1`, 'i'),
+    secret: 2,
+    random: true,
+  },
+  {
+    // Unquoted values only in .env, YAML, INI and properties style lines, where they are the whole line
+    id: 'secret-assignment',
+    description: 'Hardcoded secret',
+    pattern: new RegExp(`^\\s*(?:export\\s+)?[\\w.-]*?${SECRET_KEY}\\s*[:=]\\s*([^\\s"'\`#]{8,})\\s*$`, 'i'),
+    secret: 1,
+    random: true,
+  },
+];
+
+const PLACEHOLDER = /^[<{$%]|x{4}|\*{3}|your|example|changeme|placeholder|dummy|redacted|process\.env|os\.environ/i;
+const ENV_FILE = /^\.env(\..+)?$/;
+const ENV_TEMPLATE = /\.(example|sample|template|dist|defaults?)$/;
+const MIN_ENTROPY = 3;
+const EXCERPT_LENGTH = 120;
+
+/**
+ * Shannon entropy of a string, in bits per character
+ */
+export function shannonEntropy(value: string): number {
+  const counts = new Map<string, number>();
+  for (const char of value) {
+    counts.set(char, (counts.get(char) ?? 0) + 1);
+  }
+
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const p = count / value.length;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy;
+}
+
+function looksRandom(value: string): boolean {
+  return /[A-Za-z]/.test(value) && /\d/.test(value) && !PLACEHOLDER.test(value) && shannonEntropy(value) >= MIN_ENTROPY;
+}
+
+/**
+ * Mask all but the first characters of a secret
+ */
+export function maskSecret(secret: string): string {
+  const visible = secret.length >= 16 ? 4 : 2;
+  return `${secret.substring(0, visible)}${'*'.repeat(Math.min(secret.length - visible, 16))}`;
+}
+
+interface SecretMatch {
+  rule: SecretRule;
+  /** The matched text, used for the allowlist when the rule has no secret group */
+  match: string;
+  secret?: string;
+}
+
+// Every secret on a line, by rule order, so none of them is left unmasked
+function findSecrets(text: string): SecretMatch[] {
+  const found: SecretMatch[] = [];
+
+  for (const rule of SECRET_RULES) {
+    for (const match of text.matchAll(new RegExp(rule.pattern.source, `${rule.pattern.flags}g`))) {
+      const secret = rule.secret !== undefined ? match[rule.secret] : undefined;
+      if (!rule.random || looksRandom(secret ?? '')) {
+        found.push({ rule, match: match[0], secret });
+      }
+    }
+  }
+
+  return found;
+}
+
+function getExcerpt(text: string, secrets: string[], focus: string | undefined): string {
+  // Longest first, in case one secret contains another
+  const masked = [...secrets]
+    .sort((a, b) => b.length - a.length)
+    .reduce((line, secret) => line.split(secret).join(maskSecret(secret)), text)
+    .trim();
+  if (masked.length <= EXCERPT_LENGTH) {
+    return masked;
+  }
+
+  const start = Math.max(0, (focus ? masked.indexOf(maskSecret(focus)) : 0) - 40);
+  return `${start > 0 ? '...' : ''}${masked.substring(start, start + EXCERPT_LENGTH)}...`;
+}
+
+function isAllowed(filePath: string, secret: string, allowlist: SecretAllowlist): boolean {
+  return (
+    allowlist.paths.some(pattern => matchesGlob(filePath, pattern)) ||
+    allowlist.patterns.some(pattern => new RegExp(pattern).test(secret))
+  );
+}
+
+/**
+ * Scan the lines added by the staged changes, and the newly staged .env files, for secrets
+ */
+export async function scanStagedSecrets(allowlist: SecretAllowlist, options?: GitOperationOptions): Promise<SecretScan> {
+  const patch = await getStagedPatch(options);
+  const files = parsePatch(patch);
+  const findings: SecretFinding[] = [];
+  let allowed = 0;
+
+  for (const file of files) {
+    const name = path.posix.basename(file.path);
+    if ((file.status === 'added' || file.status === 'renamed') && ENV_FILE.test(name) && !ENV_TEMPLATE.test(name)) {
+      if (isAllowed(file.path, file.path, allowlist)) {
+        allowed++;
+      } else {
+        findings.push({ path: file.path, rule: 'env-file', description: 'Environment file' });
+      }
+    }
+  }
+
+  for (const added of listAddedLines(patch)) {
+    const found = findSecrets(added.text);
+    if (found.length === 0) {
+      continue;
+    }
+
+    // One finding per line, for the first secret the allowlist does not cover
+    const reported = found.find(item => !isAllowed(added.path, item.secret ?? item.match, allowlist));
+    if (!reported) {
+      allowed++;
+      continue;
+    }
+
+    findings.push({
+      path: added.path,
+      line: added.line,
+      rule: reported.rule.id,
+      description: reported.rule.description,
+      excerpt: getExcerpt(
+        added.text,
+        found.flatMap(item => (item.secret ? [item.secret] : [])),
+        reported.secret
+      ),
+    });
+  }
+
+  return { findings, allowed, files: files.length };
+}
+
+/**
+ * Location of a finding, as "path:line" or "path"
+ */
+export function formatSecretLocation(finding: SecretFinding): string {
+  return finding.line === undefined ? finding.path : `${finding.path}:${finding.line}`;
+}
@@ -0,0 +1,1726 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import {
+  CallToolRequestSchema,
+  ErrorCode as RpcErrorCode,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ListResourcesRequestSchema,
+  ListToolsRequestSchema,
+  McpError,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  Tool,
+  UnsubscribeRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import { DEFAULT_CONFIG, MESSAGE_CONVENTIONS } from './config.js';
+import { CommitParams, CommitType, GitmojiConfig, MessageConvention } from './types.js';
+import { formatCommitMessage, formatHeader, validateCommitMessage } from './utils.js';
+import {
+  createCommit,
+  getCommits,
+  getLatestTag,
+  getRepoConfig,
+  hasStagedChanges,
+  suggestCommitType,
+} from './git.js';
+import { buildChangelog, renderChangelog } from './changelog.js';
+import { recommendNextVersion } from './version.js';
+import { runRelease } from './release.js';
+import { HookChange, HookName, getHooksLocation, installHooks, uninstallHooks } from './hooks.js';
+import { lintRange } from './lint.js';
+import { PlanStep, executePlan, planCommits } from './plan.js';
+import { RewriteResult, amendLastCommit, rewordCommit } from './rewrite.js';
+import { revertCommit } from './revert.js';
+import { RESOURCES, RESOURCE_TEMPLATES, readResource, watchResource } from './resources.js';
+import { PROMPTS, PromptVerbosity, getPrompt } from './prompts.js';
+import { DEFAULT_DIFF_MAX_CHARS, DEFAULT_DIFF_MAX_LINES, collectStagedDiff } from './diff.js';
+import { previewCommit, verifyConfirmationToken } from './preview.js';
+import { GuardFinding, GuardOverrides, checkCommitGuards, enforceCommitGuards } from './guards.js';
+import { formatSecretLocation, scanStagedSecrets } from './secrets.js';
+import { GitmojiError, getErrorCode } from './errors.js';
+import {
+  CHANGELOG_OUTPUT,
+  COMMIT_OUTPUT,
+  EXECUTE_PLAN_OUTPUT,
+  FORMAT_MESSAGE_OUTPUT,
+  INSTALL_HOOKS_OUTPUT,
+  LINT_RANGE_OUTPUT,
+  NEXT_VERSION_OUTPUT,
+  PLAN_COMMITS_OUTPUT,
+  RELEASE_OUTPUT,
+  REVERT_OUTPUT,
+  REWRITE_OUTPUT,
+  STAGED_DIFF_OUTPUT,
+  SCAN_STAGED_OUTPUT,
+  SUGGEST_TYPE_OUTPUT,
+  UNINSTALL_HOOKS_OUTPUT,
+  VALIDATE_MESSAGE_OUTPUT,
+} from './schemas.js';
+import type { GitOperationOptions } from './git.js';
+
+/**
+ * MCP Server for Gitmoji Commit Convention
+ */
+export class GitmojiCommitServer {
+  private server: Server;
+  // Stops watching a subscribed resource, by URI
+  private subscriptions = new Map<string, () => void>();
+
+  constructor() {
+    this.server = new Server(
+      {
+        name: 'gitmoji-commit-mcp',
+        version: '1.0.0',
+      },
+      {
+        capabilities: {
+          tools: {},
+          resources: { subscribe: true },
+          prompts: {},
+        },
+      }
+    );
+
+    this.setupHandlers();
+    this.setupErrorHandling();
+  }
+
+  private setupErrorHandling(): void {
+    this.server.onerror = (error) => {
+      console.error('[MCP Error]', error);
+    };
+
+    process.on('SIGINT', async () => {
+      this.subscriptions.forEach(stop => stop());
+      await this.server.close();
+      process.exit(0);
+    });
+  }
+
+  private setupHandlers(): void {
+    // List available tools
+    this.server.setRequestHandler(ListToolsRequestSchema, async (request) => {
+      // A broken repository config must not hide the tools: each tool call reports it instead
+      const config = await getRepoConfig({ requestMeta: this.getRequestMeta(request.params) }).catch(() => DEFAULT_CONFIG);
+      return {
+        tools: this.getTools(config),
+      };
+    });
+
+    // Handle tool calls
+    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+      const { name, arguments: args } = request.params;
+      const requestMeta = this.getRequestMeta(request.params);
+
+      try {
+        switch (name) {
+          case 'git_format_message':
+            return await this.handleFormatMessage(args, requestMeta);
+          case 'git_validate_message':
+            return await this.handleValidateMessage(args, requestMeta);
+          case 'git_suggest_type':
+            return await this.handleSuggestType(args, requestMeta);
+          case 'git_commit':
+            return await this.handleCommit(args, requestMeta);
+          case 'git_changelog':
+            return await this.handleChangelog(args, requestMeta);
+          case 'git_next_version':
+            return await this.handleNextVersion(args, requestMeta);
+          case 'git_release':
+            return await this.handleRelease(args, requestMeta);
+          case 'git_install_hooks':
+            return await this.handleInstallHooks(args, requestMeta);
+          case 'git_uninstall_hooks':
+            return await this.handleUninstallHooks(args, requestMeta);
+          case 'git_lint_range':
+            return await this.handleLintRange(args, requestMeta);
+          case 'git_plan_commits':
+            return await this.handlePlanCommits(args, requestMeta);
+          case 'git_execute_plan':
+            return await this.handleExecutePlan(args, requestMeta);
+          case 'git_amend':
+            return await this.handleAmend(args, requestMeta);
+          case 'git_reword':
+            return await this.handleReword(args, requestMeta);
+          case 'git_revert':
+            return await this.handleRevert(args, requestMeta);
+          case 'git_staged_diff':
+            return await this.handleStagedDiff(args, requestMeta);
+          case 'git_scan_staged':
+            return await this.handleScanStaged(args, requestMeta);
+          default:
+            throw new GitmojiError('UNKNOWN_TOOL', `Unknown tool: ${name}`);
+        }
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${errorMessage}`,
+            },
+          ],
+          structuredContent: { error: { code: getErrorCode(error), message: errorMessage } },
+          isError: true,
+        };
+      }
+    });
+
+    // List available resources
+    this.server.setRequestHandler(ListResourcesRequestSchema, async () => ({ resources: RESOURCES }));
+    this.server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+      resourceTemplates: RESOURCE_TEMPLATES,
+    }));
+
+    // Read a resource as JSON
+    this.server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+      const { uri } = request.params;
+
+      try {
+        const data = await readResource(uri, this.getGitOptions(undefined, this.getRequestMeta(request.params)));
+        return {
+          contents: [
+            {
+              uri,
+              mimeType: 'application/json',
+              text: JSON.stringify(data, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        throw this.toMcpError(error);
+      }
+    });
+
+    // Notify subscribers when the files behind a resource change
+    this.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+      const { uri } = request.params;
+
+      if (!this.subscriptions.has(uri)) {
+        try {
+          const stop = await watchResource(
+            uri,
+            () => {
+              this.server.sendResourceUpdated({ uri }).catch(error => console.error('[MCP Error]', error));
+            },
+            this.getGitOptions(undefined, this.getRequestMeta(request.params))
+          );
+          this.subscriptions.set(uri, stop);
+        } catch (error) {
+          throw this.toMcpError(error);
+        }
+      }
+
+      return {};
+    });
+
+    this.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      const { uri } = request.params;
+      this.subscriptions.get(uri)?.();
+      this.subscriptions.delete(uri);
+      return {};
+    });
+
+    // List and render prompt templates
+    this.server.setRequestHandler(ListPromptsRequestSchema, async () => ({ prompts: PROMPTS }));
+
+    this.server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+      const { name, arguments: args } = request.params;
+      const gitOptions = this.getGitOptions(undefined, this.getRequestMeta(request.params));
+
+      try {
+        const config = await getRepoConfig(gitOptions);
+        return await getPrompt(
+          name,
+          {
+            type: args?.type || undefined,
+            scope: args?.scope || undefined,
+            language: args?.language || undefined,
+            verbosity: (args?.verbosity || undefined) as PromptVerbosity | undefined,
+            base: args?.base || undefined,
+          },
+          config,
+          gitOptions
+        );
+      } catch (error) {
+        throw this.toMcpError(error);
+      }
+    });
+  }
+
+  // Resource and prompt requests fail with a JSON-RPC error that carries the error code as data
+  private toMcpError(error: unknown): McpError {
+    const code = getErrorCode(error);
+    const message = error instanceof Error ? error.message : String(error);
+    const invalidParams: string[] = ['UNKNOWN_RESOURCE', 'UNKNOWN_PROMPT', 'INVALID_ARGUMENT', 'INVALID_TYPE'];
+    return new McpError(invalidParams.includes(code) ? RpcErrorCode.InvalidParams : RpcErrorCode.InternalError, message, {
+      code,
+    });
+  }
+
+  private getTools(config: GitmojiConfig): Tool[] {
+    const typeNames = Object.keys(config.types);
+
+    // Structured footers, rendered as git trailers after the description, and the emoji format
+    const footerProperties = {
+      breaking_change: {
+        type: 'string',
+        description: 'Description of the breaking change, rendered as a "BREAKING CHANGE:" footer (implies breaking)',
+      },
+      refs: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Referenced issues, e.g. ["#12"], rendered as "Refs:" trailers',
+      },
+      closes: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Issues closed by this commit, rendered as "Closes:" trailers',
+      },
+      co_authors: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Co-authors as "Name <email>", rendered as "Co-authored-by:" trailers',
+      },
+      signed_off_by: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Sign-offs as "Name <email>", rendered as "Signed-off-by:" trailers',
+      },
+      trailers: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            key: { type: 'string' },
+            value: { type: 'string' },
+          },
+          required: ['key', 'value'],
+        },
+        description: 'Other git trailers, e.g. [{"key": "Reviewed-by", "value": "Jane Doe <jane@example.com>"}]',
+      },
+      emoji_format: {
+        type: 'string',
+        enum: ['unicode', 'shortcode'],
+        description: 'Write the emoji as Unicode (✨) or as a gitmoji shortcode (:sparkles:). Defaults to the repository config.',
+      },
+    };
+
+    const conventionProperty = {
+      convention: {
+        type: 'string',
+        enum: MESSAGE_CONVENTIONS,
+        description: `Message convention, overriding the repository's (${config.convention}): emoji-conventional "✨ feat(scope): title", conventional "feat(scope): title", gitmoji "✨ (scope): title", conventional-emoji-after-colon "feat(scope): ✨ title"`,
+      },
+    };
+
+    const guardProperties = {
+      allow_detached_head: {
+        type: 'boolean',
+        description: 'Commit even though HEAD is detached',
+        default: false,
+      },
+      allow_protected_branch: {
+        type: 'boolean',
+        description: 'Commit even though the current branch is protected in the repository config',
+        default: false,
+      },
+      allow_conflict_markers: {
+        type: 'boolean',
+        description: 'Commit even though staged lines look like unresolved conflict markers',
+        default: false,
+      },
+      allow_large_files: {
+        type: 'boolean',
+        description: 'Commit even though staged files exceed the configured size limit',
+        default: false,
+      },
+    };
+
+    return [
+      {
+        name: 'git_format_message',
+        description:
+          'Format a commit message according to the git-emoji-commit convention. Takes commit parameters and returns a properly formatted message with emoji.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            type: {
+              type: 'string',
+              description: 'The commit type (feat, fix, docs, etc.)',
+              enum: typeNames,
+            },
+            scope: {
+              type: 'string',
+              description: 'Optional scope (e.g., #123, auth, api)',
+            },
+            title: {
+              type: 'string',
+              description: 'Brief description in imperative mood (50 chars max)',
+            },
+            description: {
+              type: 'string',
+              description: 'Optional detailed explanation',
+            },
+            breaking: {
+              type: 'boolean',
+              description: 'Whether this is a breaking change',
+              default: false,
+            },
+            ...footerProperties,
+            ...conventionProperty,
+            repo_path: {
+              type: 'string',
+              description:
+                'Optional path to the git repository. Use when MCP server runs outside your project directory.',
+            },
+          },
+          required: ['type', 'title'],
+        },
+        outputSchema: FORMAT_MESSAGE_OUTPUT,
+      },
+      {
+        name: 'git_validate_message',
+        description:
+          'Validate a commit message against the git-emoji-commit convention. Returns validation results with any issues or warnings.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            message: {
+              type: 'string',
+              description: 'The commit message to validate',
+            },
+            ...conventionProperty,
+            repo_path: {
+              type: 'string',
+              description:
+                'Optional path to the git repository. Use when MCP server runs outside your project directory.',
+            },
+          },
+          required: ['message'],
+        },
+        outputSchema: VALIDATE_MESSAGE_OUTPUT,
+      },
+      {
+        name: 'git_suggest_type',
+        description:
+          'Analyze staged git changes and suggest an appropriate commit type. Returns suggested type with reasoning, ranked alternatives, a per-file breakdown, a scope inferred from the staged paths and monorepo workspaces, and a warning when the staged files mix unrelated concerns.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            max_candidates: {
+              type: 'number',
+              description: 'Number of ranked candidate types to return',
+              default: 3,
+            },
+            ...conventionProperty,
+            repo_path: {
+              type: 'string',
+              description:
+                'Optional path to the git repository. Use when MCP server runs outside your project directory.',
+            },
+          },
+        },
+        outputSchema: SUGGEST_TYPE_OUTPUT,
+      },
+      {
+        name: 'git_commit',
+        description:
+          'Create a git commit following the emoji-commit convention. Validates staged changes exist, formats the message, and creates the commit. Refuses to commit on a detached HEAD, during a merge or rebase, on a protected branch, or with conflict markers, oversized files or secrets staged, as configured in the repository; the allow_* flags override single guards. With dry_run, returns the message, files, hooks, branch and author without committing, plus a confirm_token that makes the real commit fail if the staged changes differ from the preview.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            type: {
+              type: 'string',
+              description: 'The commit type (feat, fix, docs, etc.)',
+              enum: typeNames,
+            },
+            scope: {
+              type: 'string',
+              description: 'Optional scope (e.g., #123, auth, api)',
+            },
+            title: {
+              type: 'string',
+              description: 'Brief description in imperative mood (50 chars max)',
+            },
+            description: {
+              type: 'string',
+              description: 'Optional detailed explanation',
+            },
+            breaking: {
+              type: 'boolean',
+              description: 'Whether this is a breaking change',
+              default: false,
+            },
+            ...footerProperties,
+            dry_run: {
+              type: 'boolean',
+              description: 'Preview the commit without creating it; the result includes a confirm_token',
+              default: false,
+            },
+            confirm_token: {
+              type: 'string',
+              description: 'Token from a dry run; the commit is refused unless the staged changes, HEAD and message are unchanged since then',
+            },
+            ...guardProperties,
+            ...conventionProperty,
+            repo_path: {
+              type: 'string',
+              description:
+                'Optional path to the git repository. Use when MCP server runs outside your project directory.',
+            },
+          },
+          required: ['type', 'title'],
+        },
+        outputSchema: COMMIT_OUTPUT,
+      },
+      {
+        name: 'git_changelog',
+        description:
+          'Generate a Markdown changelog from the commits between two refs. Groups commits by type, lists breaking changes separately and keeps unparseable commits under "Other".',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            from: {
+              type: 'string',
+              description: 'Start ref (exclusive). Defaults to the latest tag reachable from "to", or the whole history if there is none',
+            },
+            to: {
+              type: 'string',
+              description: 'End ref (inclusive)',
+              default: 'HEAD',
+            },
+            heading: {
+              type: 'string',
+              description: 'Optional heading for the changelog, e.g. "v1.2.0 (2025-03-01)"',
+            },
+            repo_path: {
+              type: 'string',
+              description:
+                'Optional path to the git repository. Use when MCP server runs outside your project directory.',
+            },
+          },
+        },
+        outputSchema: CHANGELOG_OUTPUT,
+      },
+      {
+        name: 'git_next_version',
+        description:
+          'Recommend the next semantic version from the commits since the latest version tag. Breaking changes force a major bump, features a minor bump and everything else a patch bump by default.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            prerelease: {
+              type: 'string',
+              description: 'Optional prerelease identifier (e.g. "rc", "beta") to produce versions like 1.3.0-rc.0',
+            },
+            initial_development: {
+              type: 'boolean',
+              description: 'Apply 0.x semantics: breaking changes bump minor and features bump patch while major is 0',
+              default: true,
+            },
+            default_bump: {
+              type: 'string',
+              description: 'Bump for commit types without an explicit mapping',
+              enum: ['major', 'minor', 'patch', 'none'],
+            },
+            bumps: {
+              type: 'object',
+              description: 'Per-type bump overrides, e.g. {"perf": "minor"}',
+              additionalProperties: {
+                type: 'string',
+                enum: ['major', 'minor', 'patch', 'none'],
+              },
+            },
+            repo_path: {
+              type: 'string',
+              description:
+                'Optional path to the git repository. Use when MCP server runs outside your project directory.',
+            },
+          },
+        },
+        outputSchema: NEXT_VERSION_OUTPUT,
+      },
+      {
+        name: 'git_release',
+        description:
+          'Cut a release: compute the next version, bump manifest version fields, prepend release notes to the changelog, create a release commit and an annotated tag. Refuses to run with uncommitted changes, and runs the same guards as git_commit before committing. Use dry_run to preview.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            dry_run: {
+              type: 'boolean',
+              description: 'Return the planned file edits, commit and tag without touching the repository',
+              default: false,
+            },
+            version: {
+              type: 'string',
+              description: 'Explicit version to release instead of the recommended one (e.g. 2.0.0)',
+            },
+            prerelease: {
+              type: 'string',
+              description: 'Optional prerelease identifier (e.g. "rc", "beta")',
+            },
+            initial_development: {
+              type: 'boolean',
+              description: 'Apply 0.x semantics: breaking changes bump minor and features bump patch while major is 0',
+              default: true,
+            },
+            manifests: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Manifest files whose version field is bumped (default from config: package.json)',
+            },
+            changelog_file: {
+              type: 'string',
+              description: 'Changelog file to prepend the release notes to (default from config: CHANGELOG.md)',
+            },
+            ...guardProperties,
+            repo_path: {
+              type: 'string',
+              description:
+                'Optional path to the git repository. Use when MCP server runs outside your project directory.',
+            },
+          },
+        },
+        outputSchema: RELEASE_OUTPUT,
+      },
+      {
+        name: 'git_install_hooks',
+        description:
+          'Install a commit-msg git hook that rejects messages breaking the convention, and optionally a prepare-commit-msg hook that pre-fills the suggested emoji and type. Existing hooks, core.hooksPath and husky setups are chained rather than overwritten.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            prepare_commit_msg: {
+              type: 'boolean',
+              description: 'Also install the prepare-commit-msg hook',
+              default: false,
+            },
+            repo_path: {
+              type: 'string',
+              description:
+                'Optional path to the git repository. Use when MCP server runs outside your project directory.',
+            },
+          },
+        },
+        outputSchema: INSTALL_HOOKS_OUTPUT,
+      },
+      {
+        name: 'git_uninstall_hooks',
+        description:
+          'Remove the hooks installed by git_install_hooks and restore any hooks they were chained with.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            repo_path: {
+              type: 'string',
+              description:
+                'Optional path to the git repository. Use when MCP server runs outside your project directory.',
+            },
+          },
+        },
+        outputSchema: UNINSTALL_HOOKS_OUTPUT,
+      },
+      {
+        name: 'git_lint_range',
+        description:
+          'Validate every commit in a revision range (e.g. origin/main..HEAD) against the convention. Returns a per-commit report and an overall pass/fail result.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            range: {
+              type: 'string',
+              description: 'Revision range to lint, e.g. "origin/main..HEAD"',
+            },
+            merges: {
+              type: 'string',
+              enum: ['skip', 'validate', 'fail'],
+              description: 'How to treat merge commits (default from config: skip)',
+            },
+            fixups: {
+              type: 'string',
+              enum: ['skip', 'validate', 'fail'],
+              description: 'How to treat fixup!/squash!/amend! commits (default from config: fail)',
+            },
+            reverts: {
+              type: 'string',
+              enum: ['skip', 'validate', 'fail'],
+              description: 'How to treat Revert "..." messages generated by git revert (default from config: skip)',
+            },
+            repo_path: {
+              type: 'string',
+              description:
+                'Optional path to the git repository. Use when MCP server runs outside your project directory.',
+            },
+          },
+          required: ['range'],
+        },
+        outputSchema: LINT_RANGE_OUTPUT,
+      },
+      {
+        name: 'git_plan_commits',
+        description:
+          'Group the currently staged files into a plan of logical commits, using file paths, the inferred type and scope of each file, and suggested titles. Does not change the repository; pass the (optionally edited) plan to git_execute_plan.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            ...conventionProperty,
+            repo_path: {
+              type: 'string',
+              description:
+                'Optional path to the git repository. Use when MCP server runs outside your project directory.',
+            },
+          },
+        },
+        outputSchema: PLAN_COMMITS_OUTPUT,
+      },
+      {
+        name: 'git_execute_plan',
+        description:
+          'Create one commit per step of a commit plan, committing exactly the staged content of each step\'s files. If any step fails, HEAD and the original index are restored.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            commits: {
+              type: 'array',
+              description: 'Commits to create, in order (e.g. the commits returned by git_plan_commits)',
+              items: {
+                type: 'object',
+                properties: {
+                  type: {
+                    type: 'string',
+                    description: 'The commit type',
+                    enum: typeNames,
+                  },
+                  scope: {
+                    type: 'string',
+                    description: 'Optional scope',
+                  },
+                  title: {
+                    type: 'string',
+                    description: 'Brief description in imperative mood',
+                  },
+                  description: {
+                    type: 'string',
+                    description: 'Optional detailed explanation',
+                  },
+                  breaking: {
+                    type: 'boolean',
+                    description: 'Whether this is a breaking change',
+                  },
+                  files: {
+                    type: 'array',
+                    items: { type: 'string' },
+                    description: 'Staged files to include in this commit',
+                  },
+                },
+                required: ['type', 'title', 'files'],
+              },
+            },
+            ...guardProperties,
+            ...conventionProperty,
+            repo_path: {
+              type: 'string',
+              description:
+                'Optional path to the git repository. Use when MCP server runs outside your project directory.',
+            },
+          },
+          required: ['commits'],
+        },
+        outputSchema: EXECUTE_PLAN_OUTPUT,
+      },
+      {
+        name: 'git_amend',
+        description:
+          'Amend the last commit: replace its message and/or add the staged changes to it. The resulting message is validated first. Refuses to rewrite a commit that is already on the upstream tracking branch unless forced. The same guards as git_commit run first, even when nothing is staged. Without type and title the current message is kept.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            type: {
+              type: 'string',
+              description: 'The commit type (feat, fix, docs, etc.)',
+              enum: typeNames,
+            },
+            scope: {
+              type: 'string',
+              description: 'Optional scope (e.g., #123, auth, api)',
+            },
+            title: {
+              type: 'string',
+              description: 'Brief description in imperative mood (50 chars max)',
+            },
+            description: {
+              type: 'string',
+              description: 'Optional detailed explanation',
+            },
+            breaking: {
+              type: 'boolean',
+              description: 'Whether this is a breaking change',
+              default: false,
+            },
+            ...footerProperties,
+            force: {
+              type: 'boolean',
+              description: 'Rewrite the commit even if it is already on the upstream tracking branch',
+              default: false,
+            },
+            ...guardProperties,
+            ...conventionProperty,
+            repo_path: {
+              type: 'string',
+              description:
+                'Optional path to the git repository. Use when MCP server runs outside your project directory.',
+            },
+          },
+        },
+        outputSchema: REWRITE_OUTPUT,
+      },
+      {
+        name: 'git_reword',
+        description:
+          'Rewrite the message of an older commit on the current branch without changing its content. The new message is validated first. Later commits are recreated on top of it. Refuses to rewrite commits that are already on the upstream tracking branch unless forced.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            commit: {
+              type: 'string',
+              description: 'Commit to reword (hash or ref such as HEAD~2)',
+            },
+            type: {
+              type: 'string',
+              description: 'The commit type (feat, fix, docs, etc.)',
+              enum: typeNames,
+            },
+            scope: {
+              type: 'string',
+              description: 'Optional scope (e.g., #123, auth, api)',
+            },
+            title: {
+              type: 'string',
+              description: 'Brief description in imperative mood (50 chars max)',
+            },
+            description: {
+              type: 'string',
+              description: 'Optional detailed explanation',
+            },
+            breaking: {
+              type: 'boolean',
+              description: 'Whether this is a breaking change',
+              default: false,
+            },
+            ...footerProperties,
+            force: {
+              type: 'boolean',
+              description: 'Rewrite the commit even if it is already on the upstream tracking branch',
+              default: false,
+            },
+            ...conventionProperty,
+            repo_path: {
+              type: 'string',
+              description:
+                'Optional path to the git repository. Use when MCP server runs outside your project directory.',
+            },
+          },
+          required: ['commit', 'type', 'title'],
+        },
+        outputSchema: REWRITE_OUTPUT,
+      },
+      {
+        name: 'git_revert',
+        description:
+          'Revert a commit with a message following the convention (revert type, original scope and title, "This reverts commit <hash>." body). Supports merge commits via mainline. On conflicts the revert is aborted and the conflicting files are reported, leaving the repository unchanged. Runs the same guards as git_commit.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            commit: {
+              type: 'string',
+              description: 'Commit to revert (hash or ref such as HEAD~1)',
+            },
+            reason: {
+              type: 'string',
+              description: 'Optional explanation of why the commit is reverted, added to the message body',
+            },
+            mainline: {
+              type: 'number',
+              description: 'For merge commits: the 1-based parent number whose side is kept (usually 1)',
+            },
+            ...guardProperties,
+            repo_path: {
+              type: 'string',
+              description:
+                'Optional path to the git repository. Use when MCP server runs outside your project directory.',
+            },
+          },
+          required: ['commit'],
+        },
+        outputSchema: REVERT_OUTPUT,
+      },
+      {
+        name: 'git_staged_diff',
+        description:
+          'Return the staged patch for review. Lockfiles, generated and binary files are left out by default and listed separately. The remaining files share a character and line budget fairly; content over a file\'s share is replaced by a summary of what was omitted. Pass path to fetch one file at a time.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            path: {
+              type: 'string',
+              description: 'Return only this staged file (filters do not apply to it)',
+            },
+            max_chars: {
+              type: 'number',
+              description: 'Budget for the diff content in characters',
+              default: DEFAULT_DIFF_MAX_CHARS,
+            },
+            max_lines: {
+              type: 'number',
+              description: 'Budget for the diff content in lines',
+              default: DEFAULT_DIFF_MAX_LINES,
+            },
+            context_lines: {
+              type: 'number',
+              description: 'Unchanged lines shown around each change',
+              default: 3,
+            },
+            include_lockfiles: {
+              type: 'boolean',
+              description: 'Include dependency lockfiles such as package-lock.json',
+              default: false,
+            },
+            include_generated: {
+              type: 'boolean',
+              description: 'Include generated files (build output, minified files, source maps, files marked @generated)',
+              default: false,
+            },
+            include_binary: {
+              type: 'boolean',
+              description: 'Include binary files',
+              default: false,
+            },
+            repo_path: {
+              type: 'string',
+              description:
+                'Optional path to the git repository. Use when MCP server runs outside your project directory.',
+            },
+          },
+        },
+        outputSchema: STAGED_DIFF_OUTPUT,
+      },
+      {
+        name: 'git_scan_staged',
+        description:
+          'Scan the staged changes for secrets: private keys, AWS, Google Cloud, GitHub and Slack tokens, high-entropy values assigned to password, secret, token or key names, and newly staged .env files. Returns file:line locations with masked excerpts. git_commit runs the same scan and refuses to commit when it finds anything not on the repository allowlist.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            repo_path: {
+              type: 'string',
+              description:
+                'Optional path to the git repository. Use when MCP server runs outside your project directory.',
+            },
+          },
+        },
+        outputSchema: SCAN_STAGED_OUTPUT,
+      },
+    ];
+  }
+
+  private getRequestMeta(params: unknown): unknown {
+    if (!params || typeof params !== 'object') {
+      return undefined;
+    }
+
+    const record = params as Record<string, unknown>;
+    return record._meta;
+  }
+
+  private getGitOptions(args: unknown, requestMeta: unknown): GitOperationOptions {
+    return {
+      repoPath: this.extractRepoPath(args),
+      requestMeta,
+    };
+  }
+
+  private async getConfig(args: unknown, requestMeta: unknown): Promise<GitmojiConfig> {
+    return getRepoConfig(this.getGitOptions(args, requestMeta));
+  }
+
+  private extractRepoPath(args: unknown): string | undefined {
+    if (!args || typeof args !== 'object') {
+      return undefined;
+    }
+
+    const record = args as Record<string, unknown>;
+    const raw = record.repo_path ?? record.repoPath;
+
+    if (typeof raw !== 'string') {
+      return undefined;
+    }
+
+    const trimmed = raw.trim();
+    return trimmed.length > 0 ? trimmed : undefined;
+  }
+
+  private async handleFormatMessage(args: any, requestMeta: unknown) {
+    const config = this.withMessageOptions(await this.getConfig(args, requestMeta), args);
+    const message = formatCommitMessage(this.getCommitParams(args), config);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Formatted commit message:\n\n${message}`,
+        },
+      ],
+      structuredContent: { message },
+    };
+  }
+
+  private async handleValidateMessage(args: any, requestMeta: unknown) {
+    const message = args.message as string;
+
+    if (!message) {
+      throw new GitmojiError('INVALID_ARGUMENT', 'Message is required');
+    }
+
+    const config = this.withMessageOptions(await this.getConfig(args, requestMeta), args);
+    const result = validateCommitMessage(message, config);
+
+    let responseText = '';
+
+    if (result.valid) {
+      responseText = '✅ Commit message is valid!\n';
+    } else {
+      responseText = '❌ Commit message has issues:\n\n';
+      result.issues.forEach((issue, i) => {
+        responseText += `${i + 1}. ${issue}\n`;
+      });
+    }
+
+    if (result.warnings && result.warnings.length > 0) {
+      responseText += '\n⚠️  Warnings:\n';
+      result.warnings.forEach((warning, i) => {
+        responseText += `${i + 1}. ${warning}\n`;
+      });
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: responseText,
+        },
+      ],
+      structuredContent: { ...result },
+    };
+  }
+
+  private async handleSuggestType(args: any, requestMeta: unknown) {
+    const gitOptions = this.getGitOptions(args, requestMeta);
+    const config = this.withMessageOptions(await getRepoConfig(gitOptions), args);
+    const suggestion = await suggestCommitType(gitOptions, config, {
+      maxCandidates: args?.max_candidates ?? 3,
+    });
+
+    let responseText = `Suggested commit type: ${suggestion.emoji} ${suggestion.type}
+Message prefix: ${suggestion.prefix}
+
+Confidence: ${suggestion.confidence}
+Reason: ${suggestion.reason}
+
+Type description: ${config.types[suggestion.type].description}`;
+
+    if (suggestion.signals && suggestion.signals.length > 0) {
+      responseText += '\n\nSignals:\n';
+      suggestion.signals.forEach(item => {
+        const files = item.files.length > 0 ? ` [${item.files.slice(0, 3).join(', ')}${item.files.length > 3 ? ', ...' : ''}]` : '';
+        responseText += `- ${item.type} +${item.weight}: ${item.description}${files}\n`;
+      });
+    }
+
+    if (suggestion.candidates && suggestion.candidates.length > 1) {
+      responseText += '\nRanked candidates:\n';
+      suggestion.candidates.forEach((candidate, i) => {
+        responseText += `${i + 1}. ${candidate.emoji} ${candidate.type} (score ${candidate.score})\n`;
+      });
+    }
+
+    if (suggestion.files && suggestion.files.length > 1) {
+      responseText += '\nPer-file classification:\n';
+      suggestion.files.forEach(file => {
+        responseText += `- ${file.path}: ${file.emoji} ${file.type} (${file.reason})\n`;
+      });
+    }
+
+    if (suggestion.mixed) {
+      responseText += `\n⚠️  ${suggestion.mixedReason}\n`;
+    }
+
+    if (suggestion.scope) {
+      const { scope } = suggestion;
+      if (scope.scope) {
+        responseText += `\nSuggested scope: ${scope.scope} (${scope.reason})\n`;
+      } else if (scope.conflicts.length > 0) {
+        responseText += `\n⚠️  No single scope: ${scope.reason}\n`;
+        scope.conflicts.forEach(conflict => {
+          responseText += `- ${conflict.scope}: ${conflict.files.join(', ')}\n`;
+        });
+      }
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: responseText,
+        },
+      ],
+      structuredContent: { ...suggestion },
+    };
+  }
+
+  private async handleCommit(args: any, requestMeta: unknown) {
+    const gitOptions = this.getGitOptions(args, requestMeta);
+    const config = this.withMessageOptions(await getRepoConfig(gitOptions), args);
+
+    // Check for staged changes
+    const hasChanges = await hasStagedChanges(gitOptions);
+    if (!hasChanges) {
+      throw new GitmojiError('NO_STAGED_CHANGES', 'No staged changes found. Please stage your changes first with git add.');
+    }
+
+    // Format the commit message
+    const params = this.getCommitParams(args);
+    const message = formatCommitMessage(params, config);
+
+    // Validate the message
+    const validation = validateCommitMessage(message, config);
+    if (!validation.valid) {
+      throw new GitmojiError('INVALID_MESSAGE', `Invalid commit message:\n${validation.issues.join('\n')}`);
+    }
+
+    if (args?.dry_run) {
+      const preview = await previewCommit(message, gitOptions);
+      const guards = await checkCommitGuards(config, this.getGuardOverrides(args), gitOptions);
+      let responseText = `📝 Commit preview (dry run, nothing was committed)\n\nMessage:\n${message}\n\n`;
+      responseText += `Branch: ${preview.branch ?? `detached HEAD at ${preview.head?.substring(0, 7)}`}\n`;
+      responseText += `Author: ${preview.author.name} <${preview.author.email}>\n`;
+      if (preview.committer.name !== preview.author.name || preview.committer.email !== preview.author.email) {
+        responseText += `Committer: ${preview.committer.name} <${preview.committer.email}>\n`;
+      }
+      responseText += `\nFiles (${preview.files.length}, +${preview.additions} -${preview.deletions}):\n`;
+      preview.files.forEach(file => {
+        responseText += `- ${file.path} (${file.status}${file.binary ? ', binary' : `, +${file.additions} -${file.deletions}`})\n`;
+      });
+      responseText += preview.hooks.length > 0
+        ? `\nHooks that will run: ${preview.hooks.map(hook => hook.hook).join(', ')}\n`
+        : '\nNo hooks will run\n';
+      if (guards.length > 0) {
+        responseText += `\n${this.formatGuardFindings(guards)}`;
+      }
+      responseText += `\nTo commit exactly this, call git_commit again with the same arguments and confirm_token: ${preview.confirmToken}`;
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: responseText,
+          },
+        ],
+        structuredContent: { dryRun: true, message, validation, preview, guards },
+      };
+    }
+
+    if (args?.confirm_token) {
+      await verifyConfirmationToken(args.confirm_token, message, gitOptions);
+    }
+
+    const guards = await enforceCommitGuards(config, this.getGuardOverrides(args), gitOptions);
+
+    // Create the commit
+    const commitHash = await createCommit(message, gitOptions);
+
+    let responseText = `✅ Commit created successfully!\n\nCommit hash: ${commitHash}\n\nMessage:\n${message}`;
+
+    if (validation.warnings && validation.warnings.length > 0) {
+      responseText += '\n\n⚠️  Warnings:\n';
+      validation.warnings.forEach((warning, i) => {
+        responseText += `${i + 1}. ${warning}\n`;
+      });
+    }
+
+    if (guards.length > 0) {
+      responseText = `${responseText.trimEnd()}\n\n${this.formatGuardFindings(guards)}`;
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: responseText,
+        },
+      ],
+      structuredContent: { dryRun: false, hash: commitHash, message, validation, guards },
+    };
+  }
+
+  private async handleChangelog(args: any, requestMeta: unknown) {
+    const gitOptions = this.getGitOptions(args, requestMeta);
+    const config = await getRepoConfig(gitOptions);
+
+    const to = (args?.to as string | undefined) || 'HEAD';
+    const from = (args?.from as string | undefined) || (await getLatestTag(to, gitOptions));
+    const commits = await getCommits(from, to, gitOptions);
+
+    const changelog = buildChangelog(commits, config);
+    const markdown = renderChangelog(changelog, args?.heading);
+    const range = from ? `${from}..${to}` : to;
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Changelog for ${range} (${commits.length} commits):\n\n${markdown}`,
+        },
+      ],
+      structuredContent: { range, commitCount: commits.length, markdown, changelog },
+    };
+  }
+
+  private async handleNextVersion(args: any, requestMeta: unknown) {
+    const gitOptions = this.getGitOptions(args, requestMeta);
+    const config = await getRepoConfig(gitOptions);
+
+    const recommendation = await recommendNextVersion(
+      config,
+      {
+        prerelease: args?.prerelease || undefined,
+        initialDevelopment: args?.initial_development ?? true,
+        versioning: {
+          defaultBump: args?.default_bump ?? config.versioning.defaultBump,
+          bumps: args?.bumps ?? {},
+        },
+      },
+      gitOptions
+    );
+
+    const current = recommendation.currentTag ?? 'none (starting from 0.0.0)';
+    let responseText = `Current version: ${current}\n`;
+
+    if (recommendation.bump === 'none') {
+      responseText += `\nNo release needed: ${recommendation.commits.length} commits since the last tag require no version bump.`;
+    } else {
+      responseText += `Next version: ${recommendation.nextTag} (${recommendation.bump} bump)\n`;
+
+      if (recommendation.bump !== recommendation.commitBump) {
+        responseText += `Commits ask for a ${recommendation.commitBump} bump, adjusted for 0.x or prerelease semantics\n`;
+      }
+
+      responseText += `\nCaused by:\n`;
+      recommendation.triggers.forEach(trigger => {
+        responseText += `- ${trigger.subject} (${trigger.shortHash})\n`;
+      });
+      responseText += `\n${recommendation.commits.length} commits since ${recommendation.currentTag ?? 'the start of history'}`;
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: responseText,
+        },
+      ],
+      structuredContent: { ...recommendation },
+    };
+  }
+
+  private async handleRelease(args: any, requestMeta: unknown) {
+    const gitOptions = this.getGitOptions(args, requestMeta);
+    const config = await getRepoConfig(gitOptions);
+
+    const result = await runRelease(
+      config,
+      {
+        dryRun: args?.dry_run || false,
+        version: args?.version || undefined,
+        prerelease: args?.prerelease || undefined,
+        initialDevelopment: args?.initial_development ?? true,
+        manifests: args?.manifests,
+        changelogFile: args?.changelog_file || undefined,
+        overrides: this.getGuardOverrides(args),
+      },
+      gitOptions
+    );
+
+    const { plan } = result;
+    let responseText = result.dryRun
+      ? `📝 Release plan for ${plan.tag} (dry run, nothing was changed)\n\n`
+      : `✅ Released ${plan.tag}\n\n`;
+
+    responseText += `Previous tag: ${plan.currentTag ?? 'none'}\n`;
+    responseText += `Version: ${plan.version} (${plan.bump} bump, ${plan.commitCount} commits)\n`;
+    responseText += `Commit: ${plan.commitMessage}\n`;
+    responseText += `Tag: ${plan.tag} (annotated)\n`;
+
+    responseText += '\nFile edits:\n';
+    plan.edits.forEach(edit => {
+      responseText += `- ${edit.path} (${edit.action}): ${edit.summary}\n`;
+    });
+
+    if (result.log.length > 0) {
+      responseText += '\nAudit log:\n';
+      result.log.forEach((entry, i) => {
+        responseText += `${i + 1}. ${entry}\n`;
+      });
+    }
+
+    if (result.guards.length > 0) {
+      responseText += `\n${this.formatGuardFindings(result.guards)}`;
+    }
+
+    responseText += `\nRelease notes:\n\n${plan.notes}`;
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: responseText,
+        },
+      ],
+      structuredContent: { ...result },
+    };
+  }
+
+  private formatHookChanges(changes: HookChange[]): string {
+    return changes
+      .map(change => `- ${change.hook}: ${change.action}${change.detail ? ` (${change.detail})` : ''}\n  ${change.path}`)
+      .join('\n');
+  }
+
+  private async handleInstallHooks(args: any, requestMeta: unknown) {
+    const gitOptions = this.getGitOptions(args, requestMeta);
+    const hooks: HookName[] = args?.prepare_commit_msg ? ['commit-msg', 'prepare-commit-msg'] : ['commit-msg'];
+
+    const location = await getHooksLocation(gitOptions);
+    const changes = await installHooks(hooks, gitOptions);
+
+    let responseText = `✅ Git hooks installed in ${location.dir}\n`;
+    if (location.husky) {
+      responseText += 'Husky setup detected: hooks were added as a marked block to the husky scripts.\n';
+    } else if (location.hooksPath) {
+      responseText += `Using core.hooksPath: ${location.hooksPath}\n`;
+    }
+    responseText += `\n${this.formatHookChanges(changes)}`;
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: responseText,
+        },
+      ],
+      structuredContent: { location, changes },
+    };
+  }
+
+  private async handleUninstallHooks(args: any, requestMeta: unknown) {
+    const changes = await uninstallHooks(undefined, this.getGitOptions(args, requestMeta));
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Git hooks uninstalled:\n\n${this.formatHookChanges(changes)}`,
+        },
+      ],
+      structuredContent: { changes },
+    };
+  }
+
+  private async handleLintRange(args: any, requestMeta: unknown) {
+    const range = args?.range as string;
+
+    if (!range) {
+      throw new GitmojiError('INVALID_ARGUMENT', 'Range is required');
+    }
+
+    const gitOptions = this.getGitOptions(args, requestMeta);
+    const config = await getRepoConfig(gitOptions);
+    const settings = Object.fromEntries(
+      ['merges', 'fixups', 'reverts'].filter(key => args[key]).map(key => [key, args[key]])
+    );
+
+    const result = await lintRange(range, config, settings, gitOptions);
+    const { summary } = result;
+
+    let responseText = result.passed
+      ? `✅ All commits in ${range} follow the convention\n`
+      : `❌ ${summary.failed} of ${summary.total} commits in ${range} break the convention\n`;
+    responseText += `\nPassed: ${summary.passed}, failed: ${summary.failed}, skipped: ${summary.skipped}, with warnings: ${summary.withWarnings}\n`;
+
+    for (const report of result.commits) {
+      const icon = report.status === 'passed' ? '✅' : report.status === 'failed' ? '❌' : '⏭️';
+      const kind = report.kind === 'normal' ? '' : ` [${report.kind}]`;
+      responseText += `\n${icon} ${report.shortHash} ${report.subject}${kind}\n`;
+      report.issues.forEach(issue => {
+        responseText += `   - ${issue}\n`;
+      });
+      report.warnings.forEach(warning => {
+        responseText += `   ⚠️ ${warning}\n`;
+      });
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: responseText,
+        },
+      ],
+      structuredContent: { ...result },
+    };
+  }
+
+  private async handlePlanCommits(args: any, requestMeta: unknown) {
+    const gitOptions = this.getGitOptions(args, requestMeta);
+    const config = this.withMessageOptions(await getRepoConfig(gitOptions), args);
+    const plan = await planCommits(config, gitOptions);
+
+    let responseText = `📋 Commit plan: ${plan.commits.length} commit(s)\n`;
+
+    plan.commits.forEach((commit, i) => {
+      responseText += `\n${i + 1}. ${formatHeader(commit, config)}\n`;
+      responseText += `   Reason: ${commit.reason}\n`;
+      commit.files.forEach(file => {
+        responseText += `   - ${file}\n`;
+      });
+    });
+
+    const steps = plan.commits.map(({ type, scope, title, files }) => ({ type, scope, title, files }));
+    responseText += `\nPlan (edit titles as needed, then pass to git_execute_plan):\n${JSON.stringify({ commits: steps }, null, 2)}`;
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: responseText,
+        },
+      ],
+      structuredContent: { ...plan },
+    };
+  }
+
+  private async handleExecutePlan(args: any, requestMeta: unknown) {
+    const steps = args?.commits as PlanStep[] | undefined;
+
+    if (!Array.isArray(steps) || steps.length === 0) {
+      throw new GitmojiError('INVALID_ARGUMENT', 'Commits are required');
+    }
+
+    const gitOptions = this.getGitOptions(args, requestMeta);
+    const config = this.withMessageOptions(await getRepoConfig(gitOptions), args);
+    const guards = await enforceCommitGuards(config, this.getGuardOverrides(args), gitOptions);
+    const result = await executePlan(steps, config, gitOptions);
+
+    let responseText = `✅ Created ${result.commits.length} commit(s)\n`;
+
+    result.commits.forEach(commit => {
+      responseText += `\n${commit.hash} ${commit.message.split('\n')[0]}\n`;
+      commit.files.forEach(file => {
+        responseText += `   - ${file}\n`;
+      });
+    });
+
+    if (result.remaining.length > 0) {
+      responseText += `\nStill staged (not in the plan):\n${result.remaining.map(file => `- ${file}`).join('\n')}\n`;
+    }
+
+    if (guards.length > 0) {
+      responseText += `\n${this.formatGuardFindings(guards)}`;
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: responseText,
+        },
+      ],
+      structuredContent: { ...result, guards },
+    };
+  }
+
+  private getGuardOverrides(args: any): GuardOverrides {
+    return {
+      allowDetachedHead: args?.allow_detached_head,
+      allowProtectedBranch: args?.allow_protected_branch,
+      allowConflictMarkers: args?.allow_conflict_markers,
+      allowLargeFiles: args?.allow_large_files,
+    };
+  }
+
+  private formatGuardFindings(findings: GuardFinding[]): string {
+    const lines = findings.map(finding => `${finding.level === 'error' ? '❌' : '⚠️ '} [${finding.code}] ${finding.message}`);
+    return `Guards:\n${lines.join('\n')}\n`;
+  }
+
+  private getCommitParams(args: any): CommitParams {
+    return {
+      type: args.type as CommitType,
+      scope: args.scope,
+      title: args.title,
+      description: args.description,
+      breaking: args.breaking || false,
+      breakingChange: args.breaking_change,
+      refs: args.refs,
+      closes: args.closes,
+      coAuthors: args.co_authors,
+      signedOffBy: args.signed_off_by,
+      trailers: args.trailers,
+    };
+  }
+
+  // A per-call convention and emoji_format override the repository's convention and rules.emojiFormat
+  private withMessageOptions(config: GitmojiConfig, args: any): GitmojiConfig {
+    const convention = args?.convention;
+    const format = args?.emoji_format;
+
+    if (convention !== undefined && !MESSAGE_CONVENTIONS.includes(convention)) {
+      throw new GitmojiError('INVALID_ARGUMENT', `convention must be one of: ${MESSAGE_CONVENTIONS.join(', ')}`);
+    }
+    if (format !== undefined && format !== 'unicode' && format !== 'shortcode') {
+      throw new GitmojiError('INVALID_ARGUMENT', 'emoji_format must be "unicode" or "shortcode"');
+    }
+
+    return {
+      ...config,
+      convention: (convention as MessageConvention | undefined) ?? config.convention,
+      rules: { ...config.rules, emojiFormat: format ?? config.rules.emojiFormat },
+    };
+  }
+
+  private formatRewrite(action: string, result: RewriteResult): string {
+    let responseText = `✅ ${action}\n\nOld hash: ${result.oldHash}\nNew hash: ${result.newHash}\n\nMessage:\n${result.message}`;
+
+    if (result.rebased.length > 0) {
+      responseText += `\n\nRecreated ${result.rebased.length} later commit(s):\n`;
+      result.rebased.forEach(commit => {
+        responseText += `- ${commit.oldHash.substring(0, 7)} → ${commit.newHash.substring(0, 7)}\n`;
+      });
+    }
+
+    if (result.upstream) {
+      responseText += `\n\n⚠️  The commit was already on ${result.upstream}; a force push is needed to publish the rewrite.`;
+    }
+
+    const warnings = result.validation.warnings ?? [];
+    if (warnings.length > 0) {
+      responseText += '\n\n⚠️  Warnings:\n';
+      warnings.forEach((warning, i) => {
+        responseText += `${i + 1}. ${warning}\n`;
+      });
+    }
+
+    return responseText;
+  }
+
+  private async handleAmend(args: any, requestMeta: unknown) {
+    const gitOptions = this.getGitOptions(args, requestMeta);
+    const config = this.withMessageOptions(await getRepoConfig(gitOptions), args);
+
+    if (Boolean(args?.type) !== Boolean(args?.title)) {
+      throw new GitmojiError('INVALID_ARGUMENT', 'Pass both type and title to change the message, or neither to keep it');
+    }
+
+    const params = args?.type ? this.getCommitParams(args) : undefined;
+
+    // An amend rewrites the branch like a commit does, even when nothing is staged
+    const guards = await enforceCommitGuards(config, this.getGuardOverrides(args), gitOptions);
+    const result = await amendLastCommit(params, config, { force: args?.force }, gitOptions);
+
+    let responseText = this.formatRewrite('Commit amended successfully!', result);
+    if (guards.length > 0) {
+      responseText = `${responseText.trimEnd()}\n\n${this.formatGuardFindings(guards)}`;
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: responseText,
+        },
+      ],
+      structuredContent: { ...result, guards },
+    };
+  }
+
+  private async handleReword(args: any, requestMeta: unknown) {
+    if (!args?.commit) {
+      throw new GitmojiError('INVALID_ARGUMENT', 'Commit is required');
+    }
+
+    const gitOptions = this.getGitOptions(args, requestMeta);
+    const config = this.withMessageOptions(await getRepoConfig(gitOptions), args);
+    const result = await rewordCommit(args.commit, this.getCommitParams(args), config, { force: args?.force }, gitOptions);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: this.formatRewrite('Commit reworded successfully!', result),
+        },
+      ],
+      structuredContent: { ...result },
+    };
+  }
+
+  private async handleRevert(args: any, requestMeta: unknown) {
+    if (!args?.commit) {
+      throw new GitmojiError('INVALID_ARGUMENT', 'Commit is required');
+    }
+
+    const gitOptions = this.getGitOptions(args, requestMeta);
+    const config = await getRepoConfig(gitOptions);
+    const result = await revertCommit(
+      args.commit,
+      config,
+      { reason: args.reason, mainline: args.mainline, overrides: this.getGuardOverrides(args) },
+      gitOptions
+    );
+
+    if (result.conflicts.length > 0) {
+      let responseText = `❌ Reverting ${result.reverted.substring(0, 7)} conflicts with later changes in ${result.conflicts.length} file(s). The revert was aborted; the repository is unchanged.\n\nConflicts:\n`;
+      result.conflicts.forEach(conflict => {
+        responseText += `- ${conflict.path} (${conflict.code}: ${conflict.description})\n`;
+      });
+      responseText += `\nPlanned message:\n${result.message}`;
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: responseText,
+          },
+        ],
+        structuredContent: {
+          ...result,
+          error: { code: 'REVERT_CONFLICT', message: `Reverting ${result.reverted.substring(0, 7)} conflicts with later changes` },
+        },
+        isError: true,
+      };
+    }
+
+    let responseText = `✅ Commit reverted successfully!\n\nCommit hash: ${result.hash}\n\nMessage:\n${result.message}`;
+
+    const warnings = result.validation.warnings ?? [];
+    if (warnings.length > 0) {
+      responseText += '\n\n⚠️  Warnings:\n';
+      warnings.forEach((warning, i) => {
+        responseText += `${i + 1}. ${warning}\n`;
+      });
+    }
+
+    if (result.guards.length > 0) {
+      responseText = `${responseText.trimEnd()}\n\n${this.formatGuardFindings(result.guards)}`;
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: responseText,
+        },
+      ],
+      structuredContent: { ...result },
+    };
+  }
+
+  private async handleStagedDiff(args: any, requestMeta: unknown) {
+    for (const key of ['max_chars', 'max_lines', 'context_lines']) {
+      const value = args?.[key];
+      if (value !== undefined && (!Number.isInteger(value) || value < 0)) {
+        throw new GitmojiError('INVALID_ARGUMENT', `${key} must be a non-negative integer`);
+      }
+    }
+
+    const result = await collectStagedDiff(
+      {
+        path: args?.path || undefined,
+        maxChars: args?.max_chars,
+        maxLines: args?.max_lines,
+        contextLines: args?.context_lines,
+        includeLockfiles: args?.include_lockfiles,
+        includeGenerated: args?.include_generated,
+        includeBinary: args?.include_binary,
+      },
+      this.getGitOptions(args, requestMeta)
+    );
+
+    let responseText: string;
+    if (result.files.length === 0 && result.excluded.length === 0) {
+      responseText = 'No staged changes found.';
+    } else {
+      responseText = result.truncated
+        ? `📄 Staged diff of ${result.files.length} file(s), truncated to fit the budget:\n\n`
+        : `📄 Staged diff of ${result.files.length} file(s):\n\n`;
+      responseText += result.patch;
+    }
+
+    if (result.excluded.length > 0) {
+      responseText += '\n\nLeft out (pass path or the include_* options to see them):\n';
+      result.excluded.forEach(file => {
+        responseText += `- ${file.path} (${file.reason}, ${file.status}, +${file.additions} -${file.deletions})\n`;
+      });
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: responseText,
+        },
+      ],
+      structuredContent: { ...result },
+    };
+  }
+
+  private async handleScanStaged(args: any, requestMeta: unknown) {
+    const gitOptions = this.getGitOptions(args, requestMeta);
+    const config = await getRepoConfig(gitOptions);
+    const scan = await scanStagedSecrets(config.guards.secretAllowlist, gitOptions);
+
+    let responseText =
+      scan.findings.length === 0
+        ? `✅ No secrets found in ${scan.files} staged file(s)\n`
+        : `🚨 Found ${scan.findings.length} possible secret(s) in ${scan.files} staged file(s):\n\n`;
+
+    scan.findings.forEach(finding => {
+      responseText += `- ${formatSecretLocation(finding)} ${finding.description}\n`;
+      if (finding.excerpt) {
+        responseText += `  ${finding.excerpt}\n`;
+      }
+    });
+
+    if (scan.allowed > 0) {
+      responseText += `\n${scan.allowed} finding(s) skipped by guards.secretAllowlist\n`;
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: responseText,
+        },
+      ],
+      structuredContent: { clean: scan.findings.length === 0, ...scan },
+    };
+  }
+
+  async run(): Promise<void> {
+    const transport = new StdioServerTransport();
+    await this.server.connect(transport);
+    console.error('Gitmoji Commit MCP Server running on stdio');
+  }
+}
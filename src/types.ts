@@ -1,8 +1,8 @@
 /**
- * Commit types following the conventional commit standard with emojis
+ * Built-in commit types following the conventional commit standard with emojis
  */
 
-export type CommitType =
+export type BuiltinCommitType =
   // Primary types
   | 'feat'
   | 'fix'
@@ -21,13 +21,24 @@ export type CommitType =
   | 'breaking'
   | 'i18n'
   | 'a11y'
-  | 'deps';
+  | 'deps'
+  | 'release';
+
+/**
+ * Commit type name. Built-in types are always known, repositories may add
+ * their own through a config file.
+ */
+export type CommitType = BuiltinCommitType | (string & {});
 
 /**
  * Information about a commit type
  */
 export interface CommitTypeInfo {
   emoji: string;
+  /** Gitmoji shortcode, e.g. ":sparkles:" */
+  code?: string;
+  /** Conventional type this type counts as in changelogs and version bumps (default: itself) */
+  conventional?: BuiltinCommitType;
   title: string;
   description: string;
 }
@@ -35,94 +46,135 @@ export interface CommitTypeInfo {
 /**
  * Mapping of commit types to their emoji and metadata
  */
-export const COMMIT_TYPES: Record<CommitType, CommitTypeInfo> = {
+export type CommitTypeCatalog = Record<string, CommitTypeInfo>;
+
+/**
+ * Look up a type in a catalog. Names inherited from `Object.prototype`, such as "constructor"
+ * or "toString", are not commit types.
+ */
+export function getTypeInfo(types: CommitTypeCatalog, type: string): CommitTypeInfo | undefined {
+  return Object.hasOwn(types, type) ? types[type] : undefined;
+}
+
+/**
+ * Catalog a repository starts from: the built-in types or the full gitmoji.dev set
+ */
+export type CatalogPreset = 'default' | 'gitmoji';
+
+/**
+ * Built-in mapping of commit types to their emoji and metadata
+ */
+export const COMMIT_TYPES: Record<BuiltinCommitType, CommitTypeInfo> = {
   // Primary types
   feat: {
     emoji: '✨',
+    code: ':sparkles:',
     title: 'Features',
     description: 'A new feature',
   },
   fix: {
     emoji: '🐛',
+    code: ':bug:',
     title: 'Bug Fixes',
     description: 'A bug fix',
   },
   docs: {
     emoji: '📝',
+    code: ':memo:',
     title: 'Documentation',
     description: 'Documentation only changes',
   },
   style: {
     emoji: '🎨',
+    code: ':art:',
     title: 'Styles',
     description: 'Changes that do not affect code meaning (whitespace, formatting, missing semi-colons, etc.)',
   },
   refactor: {
     emoji: '♻️',
+    code: ':recycle:',
     title: 'Code Refactoring',
     description: 'A code change that neither fixes a bug nor adds a feature',
   },
   perf: {
     emoji: '⚡',
+    code: ':zap:',
     title: 'Performance Improvements',
     description: 'A code change that improves performance',
   },
   test: {
     emoji: '🧪',
+    code: ':test_tube:',
     title: 'Tests',
     description: 'Adding missing tests or correcting existing tests',
   },
   build: {
     emoji: '📦',
+    code: ':package:',
     title: 'Builds',
     description: 'Changes that affect the build system or external dependencies (npm, maven, gradle, etc.)',
   },
   ci: {
     emoji: '👷',
+    code: ':construction_worker:',
     title: 'Continuous Integration',
     description: 'Changes to CI configuration files and scripts (GitHub Actions, GitLab CI, Jenkins, etc.)',
   },
   chore: {
     emoji: '🔧',
+    code: ':wrench:',
     title: 'Chores',
     description: "Other changes that don't modify src or test files (maintenance tasks, config updates, etc.)",
   },
   revert: {
     emoji: '⏪',
+    code: ':rewind:',
     title: 'Reverts',
     description: 'Reverts a previous commit',
   },
   // Extended types
   security: {
     emoji: '🔒',
+    code: ':lock:',
     title: 'Security Fixes',
     description: 'Security vulnerability fixes or improvements',
   },
   deprecate: {
     emoji: '⚠️',
+    code: ':warning:',
     title: 'Deprecations',
     description: 'Mark features/APIs as deprecated',
   },
   breaking: {
     emoji: '💥',
+    code: ':boom:',
     title: 'Breaking Changes',
     description: 'Changes that break backward compatibility',
   },
   i18n: {
     emoji: '🌐',
+    code: ':globe_with_meridians:',
     title: 'Internationalization',
     description: 'Translations and localization changes',
   },
   a11y: {
     emoji: '♿',
+    code: ':wheelchair:',
     title: 'Accessibility',
     description: 'Accessibility improvements',
   },
   deps: {
     emoji: '⬆️',
+    code: ':arrow_up:',
     title: 'Dependencies',
     description: 'Dependency updates (when not using automated tools)',
   },
+  release: {
+    emoji: '🔖',
+    code: ':bookmark:',
+    title: 'Releases',
+    description: 'Release a new version (version bumps, changelog, tags)',
+  },
 };
 
 /**
@@ -134,6 +186,60 @@ export interface CommitParams {
   title: string;
   description?: string;
   breaking?: boolean;
+  /** Text of the `BREAKING CHANGE:` footer; implies `breaking` */
+  breakingChange?: string;
+  /** Issues referenced by the commit (`Refs:` trailers) */
+  refs?: string[];
+  /** Issues closed by the commit (`Closes:` trailers) */
+  closes?: string[];
+  /** `Co-authored-by:` trailers, as `Name <email>` */
+  coAuthors?: string[];
+  /** `Signed-off-by:` trailers, as `Name <email>` */
+  signedOffBy?: string[];
+  /** Any other trailers, in order */
+  trailers?: Trailer[];
+}
+
+/**
+ * A git trailer such as `Reviewed-by: Jane Doe <jane@example.com>`
+ */
+export interface Trailer {
+  key: string;
+  value: string;
+}
+
+/**
+ * A piece of evidence found in the staged changes that points to a commit type
+ */
+export interface SuggestionSignal {
+  id: string;
+  type: CommitType;
+  /** Type the signal counts toward when `type` is not in the catalog */
+  fallback?: CommitType;
+  weight: number;
+  description: string;
+  files: string[];
+}
+
+/**
+ * A candidate commit type with its score
+ */
+export interface TypeCandidate {
+  type: CommitType;
+  emoji: string;
+  score: number;
+  reason: string;
+}
+
+/**
+ * The type a single staged file looks like on its own
+ */
+export interface FileClassification {
+  path: string;
+  type: CommitType;
+  emoji: string;
+  score: number;
+  reason: string;
 }
 
 /**
@@ -144,6 +250,70 @@ export interface SuggestionResult {
   emoji: string;
   reason: string;
   confidence: 'high' | 'medium' | 'low';
+  /** Total weight of the signals pointing to `type` */
+  score?: number;
+  /** Every signal that fired, strongest first */
+  signals?: SuggestionSignal[];
+  /** Best scoring types, best first (includes `type`) */
+  candidates?: TypeCandidate[];
+  /** Per-file breakdown of the staged changes */
+  files?: FileClassification[];
+  /** Whether the staged files look like unrelated concerns that belong in separate commits */
+  mixed?: boolean;
+  mixedReason?: string;
+  /** Scope inferred from the staged paths */
+  scope?: ScopeSuggestion;
+  /** Header prefix for the suggested type and scope in the repository's convention, e.g. "✨ feat(api): " */
+  prefix?: string;
+}
+
+/**
+ * A package of a monorepo workspace
+ */
+export interface WorkspacePackage {
+  /** Name from the package manifest, or the directory name */
+  name: string;
+  /** Directory relative to the repository root */
+  dir: string;
+  scope: string;
+}
+
+/**
+ * Scope inferred from the files a commit touches
+ */
+export interface ScopeSuggestion {
+  /** Suggested scope, set only when all scoped files agree */
+  scope?: string;
+  /** Whether scopes come from workspace packages or top-level directories */
+  source: 'workspace' | 'directory';
+  reason: string;
+  files: { path: string; scope?: string }[];
+  /** Scopes the files are split across when they do not agree */
+  conflicts: { scope: string; files: string[] }[];
+}
+
+/**
+ * Character range in a commit message, as string indices (end exclusive)
+ */
+export interface Span {
+  start: number;
+  end: number;
+}
+
+export type DiagnosticSeverity = 'error' | 'warning';
+
+/**
+ * A problem found in a commit message, with its exact position
+ */
+export interface Diagnostic extends Span {
+  severity: DiagnosticSeverity;
+  /** Stable identifier, e.g. "missing-colon" or "invalid-type" */
+  code: string;
+  message: string;
+  /** 1-based line of `start` */
+  line: number;
+  /** 1-based column of `start` */
+  column: number;
 }
 
 /**
@@ -153,6 +323,8 @@ export interface ValidationResult {
   valid: boolean;
   issues: string[];
   warnings?: string[];
+  /** Every issue and warning with its position in the message */
+  diagnostics?: Diagnostic[];
 }
 
 /**
@@ -163,3 +335,173 @@ export interface DiffStats {
   deletions: number;
   files: string[];
 }
+
+/**
+ * One file of a staged patch
+ */
+export interface PatchFile {
+  path: string;
+  oldPath?: string;
+  status: 'added' | 'deleted' | 'modified' | 'renamed';
+  binary: boolean;
+  added: string[];
+  removed: string[];
+}
+
+/**
+ * Layout of the commit header:
+ * - `emoji-conventional`: `✨ feat(scope): title`
+ * - `conventional`: `feat(scope): title`, no emoji
+ * - `gitmoji`: `✨ (scope): title` or `✨ title`, the type follows from the emoji
+ * - `conventional-emoji-after-colon`: `feat(scope): ✨ title`
+ */
+export type MessageConvention = 'emoji-conventional' | 'conventional' | 'gitmoji' | 'conventional-emoji-after-colon';
+
+/**
+ * How the emoji is written in formatted messages: `✨` or `:sparkles:`
+ */
+export type EmojiFormat = 'unicode' | 'shortcode';
+
+/**
+ * Commit message rules that can be tuned per repository
+ */
+export interface CommitRules {
+  titleMaxLength: number;
+  bodyMaxLineLength: number;
+  requireScope: boolean;
+  emojiFormat: EmojiFormat;
+}
+
+/**
+ * Semantic version increment
+ */
+export type VersionBump = 'major' | 'minor' | 'patch' | 'none';
+
+/**
+ * How commit types map to version increments
+ */
+export interface VersioningRules {
+  /** Bump per commit type; types not listed use `defaultBump` */
+  bumps: Record<string, VersionBump>;
+  defaultBump: VersionBump;
+  /** Prefix used when creating new version tags */
+  tagPrefix: string;
+}
+
+/**
+ * Files touched by the release tool
+ */
+export interface ReleaseSettings {
+  /** Manifest files whose version field is bumped, relative to the repository root */
+  manifests: string[];
+  /** Changelog file the release notes are prepended to */
+  changelogFile: string;
+}
+
+/**
+ * How range linting treats commits git generates itself
+ */
+export type SpecialCommitHandling = 'skip' | 'validate' | 'fail';
+
+/**
+ * Range linting settings
+ */
+export interface LintSettings {
+  merges: SpecialCommitHandling;
+  /** fixup!, squash! and amend! commits */
+  fixups: SpecialCommitHandling;
+  /** Revert "..." messages generated by git revert */
+  reverts: SpecialCommitHandling;
+}
+
+/**
+ * Whether a commit guard refuses the commit, only warns, or is disabled
+ */
+export type GuardLevel = 'error' | 'warn' | 'off';
+
+/**
+ * Staged content the secret scan ignores
+ */
+export interface SecretAllowlist {
+  /** Path globs, e.g. "test/fixtures/**" */
+  paths: string[];
+  /** Regular expressions matched against the detected secret */
+  patterns: string[];
+}
+
+/**
+ * Repository-state checks run before committing
+ */
+export interface GuardSettings {
+  /** Committing on a detached HEAD */
+  detachedHead: GuardLevel;
+  /** Committing while a merge, rebase, cherry-pick, revert or bisect is in progress */
+  operationInProgress: GuardLevel;
+  /** Committing directly to a branch matching `protectedBranches` */
+  protectedBranch: GuardLevel;
+  /** Branch name patterns, e.g. "main" or "release/*" */
+  protectedBranches: string[];
+  /** Staged lines that look like unresolved conflict markers */
+  conflictMarkers: GuardLevel;
+  /** Staged files larger than `maxFileSize` */
+  largeFiles: GuardLevel;
+  /** Size limit for staged files, in bytes */
+  maxFileSize: number;
+  /** Staged secrets: private keys, access tokens, passwords and new .env files */
+  secrets: GuardLevel;
+  /** Secrets that are known to be safe, e.g. test fixtures */
+  secretAllowlist: SecretAllowlist;
+}
+
+/**
+ * Effective configuration after merging the repository config file
+ * over the built-in defaults
+ */
+export interface GitmojiConfig {
+  /** Catalog the types were built from */
+  preset: CatalogPreset;
+  convention: MessageConvention;
+  types: CommitTypeCatalog;
+  rules: CommitRules;
+  versioning: VersioningRules;
+  release: ReleaseSettings;
+  lint: LintSettings;
+  guards: GuardSettings;
+  /** Path of the config file the settings were loaded from, if any */
+  source?: string;
+}
+
+/**
+ * A commit read from the repository history
+ */
+export interface CommitInfo {
+  hash: string;
+  shortHash: string;
+  parents: string[];
+  message: string;
+  author: string;
+  date: string;
+}
+
+/**
+ * A file left unmerged by a revert, merge or cherry-pick
+ */
+export interface ConflictedFile {
+  path: string;
+  /** Porcelain status code, e.g. "UU" */
+  code: string;
+  description: string;
+}
+
+/**
+ * Everything needed to recreate a commit
+ */
+export interface CommitDetails {
+  hash: string;
+  tree: string;
+  parents: string[];
+  authorName: string;
+  authorEmail: string;
+  authorDate: string;
+  message: string;
+}
@@ -1,166 +1,379 @@
-import { CommitParams, CommitType, COMMIT_TYPES, ValidationResult } from './types.js';
+import { DEFAULT_CONFIG } from './config.js';
+import { CONVENTION_FORMATS, createDiagnostic, parseConventionalCommit } from './parser.js';
+import {
+  CommitParams,
+  CommitType,
+  CommitTypeCatalog,
+  CommitTypeInfo,
+  Diagnostic,
+  DiagnosticSeverity,
+  EmojiFormat,
+  GitmojiConfig,
+  Span,
+  Trailer,
+  ValidationResult,
+  getTypeInfo,
+} from './types.js';
+import { GitmojiError } from './errors.js';
 
 /**
- * Format a commit message according to the convention
+ * `Key: value` trailer line. Keys are alphanumerics and hyphens; `BREAKING CHANGE` is the
+ * one key with a space, as allowed by Conventional Commits.
  */
-export function formatCommitMessage(params: CommitParams): string {
-  const { type, scope, title, description, breaking } = params;
+const TRAILER_LINE_REGEX = /^(BREAKING[ -]CHANGE|[A-Za-z0-9][A-Za-z0-9-]*):[ \t]*(.*)$/;
+const CONTINUATION_LINE_REGEX = /^[ \t]+\S/;
+const IDENTITY_REGEX = /^[^<>]+ <[^<>\s]+>$/;
 
-  if (!COMMIT_TYPES[type]) {
-    throw new Error(`Invalid commit type: ${type}`);
-  }
-
-  const emoji = COMMIT_TYPES[type].emoji;
-  const scopeStr = scope ? `(${scope})` : '';
-  const breakingPrefix = breaking ? '!' : '';
+/**
+ * Trailer keys of the structured footers in CommitParams
+ */
+const FOOTER_KEYS = {
+  breakingChange: 'BREAKING CHANGE',
+  refs: 'Refs',
+  closes: 'Closes',
+  coAuthors: 'Co-authored-by',
+  signedOffBy: 'Signed-off-by',
+} as const;
+
+function formatIssue(issue: string): string {
+  return /^\d+$/.test(issue) ? `#${issue}` : issue;
+}
 
-  let message = `${emoji} ${type}${scopeStr}${breakingPrefix}: ${title}`;
+/**
+ * Render a trailer, folding multi-line values onto indented continuation lines
+ */
+export function formatTrailer(trailer: Trailer): string {
+  const [first, ...rest] = trailer.value.trim().split('\n');
+  return [`${trailer.key}: ${first}`, ...rest.map(line => ` ${line.trim()}`)].join('\n');
+}
 
-  if (description) {
-    message += '\n\n' + description;
-  }
+/**
+ * Collect the footers of a commit as trailers, in the order they are rendered.
+ * Sign-offs come last, as `git commit -s` would put them.
+ */
+export function getCommitTrailers(params: Partial<CommitParams>): Trailer[] {
+  const trailers: Trailer[] = [];
 
-  if (breaking && description && !description.includes('BREAKING CHANGE:')) {
-    message += '\n\nBREAKING CHANGE: ';
+  if (params.breakingChange?.trim()) {
+    trailers.push({ key: FOOTER_KEYS.breakingChange, value: params.breakingChange });
   }
+  params.refs?.forEach(issue => trailers.push({ key: FOOTER_KEYS.refs, value: formatIssue(issue) }));
+  params.closes?.forEach(issue => trailers.push({ key: FOOTER_KEYS.closes, value: formatIssue(issue) }));
+  params.trailers?.forEach(trailer => trailers.push(trailer));
+  params.coAuthors?.forEach(author => trailers.push({ key: FOOTER_KEYS.coAuthors, value: author }));
+  params.signedOffBy?.forEach(author => trailers.push({ key: FOOTER_KEYS.signedOffBy, value: author }));
 
-  return message;
+  return trailers;
 }
 
 /**
- * Validate a commit message
+ * Split the trailer block off a message body. Like `git interpret-trailers`, the block is
+ * the last paragraph, made only of `Key: value` lines and their continuation lines.
  */
-export function validateCommitMessage(message: string): ValidationResult {
-  const issues: string[] = [];
-  const warnings: string[] = [];
+export function splitTrailers(body: string): { body: string; trailers: Trailer[] } {
+  const trimmed = body.replace(/\s+$/, '');
+  const start = trimmed.lastIndexOf('\n\n');
+  const paragraph = trimmed.substring(start + 1).replace(/^\n/, '');
+  const lines = paragraph.split('\n');
+
+  if (!TRAILER_LINE_REGEX.test(lines[0]) || !lines.every(line => TRAILER_LINE_REGEX.test(line) || CONTINUATION_LINE_REGEX.test(line))) {
+    return { body: trimmed, trailers: [] };
+  }
 
-  // Check if message is empty
-  if (!message || message.trim().length === 0) {
-    issues.push('Commit message cannot be empty');
-    return { valid: false, issues, warnings };
+  const trailers: Trailer[] = [];
+  for (const line of lines) {
+    const match = TRAILER_LINE_REGEX.exec(line);
+    if (match) {
+      trailers.push({ key: match[1], value: match[2].trim() });
+    } else {
+      trailers[trailers.length - 1].value += `\n${line.trim()}`;
+    }
   }
 
-  const lines = message.split('\n');
-  const firstLine = lines[0];
+  return { body: start === -1 ? '' : trimmed.substring(0, start).trim(), trailers };
+}
 
-  // Extract emoji, type, scope, and title from first line
-  const emojiRegex = /^([^\s]+)\s+/;
-  const emojiMatch = firstLine.match(emojiRegex);
+/**
+ * Strip variation selectors, so `♻️` and `♻` compare equal
+ */
+export function normalizeEmoji(emoji: string): string {
+  return emoji.replace(/\uFE0F/g, '');
+}
 
-  if (!emojiMatch) {
-    issues.push('Commit message must start with an emoji');
-    return { valid: false, issues, warnings };
-  }
+/**
+ * Whether an emoji as written in a message (Unicode or shortcode) stands for a commit type
+ */
+export function emojiMatches(emoji: string, info: CommitTypeInfo): boolean {
+  return normalizeEmoji(emoji) === normalizeEmoji(info.emoji) || (info.code !== undefined && emoji === info.code);
+}
 
-  const emoji = emojiMatch[1];
-  const restOfLine = firstLine.substring(emoji.length + 1);
+/**
+ * Emoji of a commit type in the requested format. Types without a shortcode always use Unicode.
+ */
+export function renderEmoji(info: CommitTypeInfo, format: EmojiFormat = 'unicode'): string {
+  return format === 'shortcode' && info.code ? info.code : info.emoji;
+}
 
-  // Check type and scope
-  const typeRegex = /^([a-z]+)(\([^)]+\))?(!)?:\s+(.+)$/;
-  const typeMatch = restOfLine.match(typeRegex);
+/**
+ * Find the commit type an emoji stands for, as the gitmoji convention has no type in the header
+ */
+export function findTypeByEmoji(emoji: string, types: CommitTypeCatalog): CommitType | undefined {
+  return Object.keys(types).find(type => emojiMatches(emoji, types[type]));
+}
 
-  if (!typeMatch) {
-    issues.push('Invalid commit format. Expected: <emoji> <type>(<scope>): <title>');
-    return { valid: false, issues, warnings };
+/**
+ * Format the first line of a commit message in the repository's convention. With an empty
+ * title this is the prefix a message starts with, e.g. "✨ feat(api): ".
+ */
+export function formatHeader(
+  params: Pick<CommitParams, 'type' | 'scope' | 'title' | 'breaking'>,
+  config: GitmojiConfig = DEFAULT_CONFIG,
+  emojiFormat: EmojiFormat = config.rules.emojiFormat
+): string {
+  const { type, title } = params;
+  const info = getTypeInfo(config.types, type);
+
+  if (!info) {
+    throw new GitmojiError('INVALID_TYPE', `Invalid commit type: ${type}`);
   }
 
-  const [, type, scope, breaking, title] = typeMatch;
+  const emoji = renderEmoji(info, emojiFormat);
+  const scope = params.scope ? `(${params.scope})` : '';
+  const breaking = params.breaking ? '!' : '';
+
+  switch (config.convention) {
+    case 'conventional':
+      return `${type}${scope}${breaking}: ${title}`;
+    case 'conventional-emoji-after-colon':
+      return `${type}${scope}${breaking}: ${emoji} ${title}`;
+    case 'gitmoji':
+      return scope || breaking ? `${emoji} ${scope}${breaking}: ${title}` : `${emoji} ${title}`;
+    default:
+      return `${emoji} ${type}${scope}${breaking}: ${title}`;
+  }
+}
 
-  // Validate type
-  if (!COMMIT_TYPES[type as CommitType]) {
-    issues.push(`Invalid commit type: ${type}`);
-  } else {
-    // Check emoji matches type
-    const expectedEmoji = COMMIT_TYPES[type as CommitType].emoji;
-    if (emoji !== expectedEmoji) {
-      issues.push(`Emoji ${emoji} doesn't match type ${type}. Expected ${expectedEmoji}`);
+/**
+ * Format a commit message according to the repository's convention. The emoji is written
+ * as `emojiFormat`, which defaults to the repository's `rules.emojiFormat`.
+ */
+export function formatCommitMessage(
+  params: CommitParams,
+  config: GitmojiConfig = DEFAULT_CONFIG,
+  emojiFormat: EmojiFormat = config.rules.emojiFormat
+): string {
+  const { description, breaking } = params;
+
+  let message = formatHeader({ ...params, breaking: breaking || Boolean(params.breakingChange?.trim()) }, config, emojiFormat);
+  let body = description?.trim() ?? '';
+
+  const trailers = getCommitTrailers(params);
+  if (trailers.length > 0) {
+    const existing = splitTrailers(body).trailers;
+    const added = trailers.filter(
+      trailer => !existing.some(other => other.key.toLowerCase() === trailer.key.toLowerCase() && other.value === trailer.value.trim())
+    );
+    const rendered = added.map(formatTrailer).join('\n');
+
+    // Join an existing trailer block instead of starting a second one
+    if (rendered) {
+      body = existing.length > 0 ? `${body}\n${rendered}` : [body, rendered].filter(Boolean).join('\n\n');
     }
   }
 
-  // Validate title
-  if (title.length === 0) {
-    issues.push('Title cannot be empty');
+  if (body) {
+    message += '\n\n' + body;
   }
 
-  if (title.length > 50) {
-    warnings.push(`Title is ${title.length} characters (recommended max: 50)`);
-  }
+  return message;
+}
+
+/**
+ * Render a diagnostic as a human-readable issue or warning
+ */
+export function formatDiagnostic(diagnostic: Diagnostic): string {
+  return `Line ${diagnostic.line}, column ${diagnostic.column}: ${diagnostic.message}`;
+}
 
-  // Check if title starts with uppercase (should be lowercase)
-  if (title[0] && title[0] === title[0].toUpperCase() && title[0] !== title[0].toLowerCase()) {
-    warnings.push('Title should start with lowercase letter');
+/**
+ * Validate a commit message. Every issue and warning points at its position in the message.
+ */
+export function validateCommitMessage(message: string, config: GitmojiConfig = DEFAULT_CONFIG): ValidationResult {
+  const { types, rules, convention } = config;
+
+  // Check if message is empty
+  if (!message || message.trim().length === 0) {
+    const diagnostic = createDiagnostic(message ?? '', 'error', 'empty-message', 'Commit message cannot be empty', { start: 0, end: 0 });
+    return { valid: false, issues: [diagnostic.message], warnings: [], diagnostics: [diagnostic] };
   }
 
-  // Check if title ends with period
-  if (title.endsWith('.')) {
-    warnings.push('Title should not end with a period');
+  const parsed = parseConventionalCommit(message, convention);
+  const { header } = parsed;
+  const diagnostics = [...parsed.diagnostics];
+  const report = (severity: DiagnosticSeverity, code: string, text: string, span: Span) =>
+    diagnostics.push(createDiagnostic(message, severity, code, text, span));
+  const hasHeaderError = parsed.diagnostics.some(d => d.severity === 'error' && d.line === 1);
+
+  // Validate the emoji placement
+  if (convention === 'conventional') {
+    if (header.emoji && header.emojiSpan) {
+      report('error', 'unexpected-emoji', `Emojis are not used in this repository. Expected: ${CONVENTION_FORMATS.conventional}`, header.emojiSpan);
+    }
+  } else if (!header.emoji && (convention !== 'conventional-emoji-after-colon' || header.titleSpan)) {
+    const afterColon = convention === 'conventional-emoji-after-colon';
+    const start = afterColon ? header.titleSpan!.start : 0;
+    report('error', 'missing-emoji', afterColon ? 'Title must start with an emoji' : 'Commit message must start with an emoji', {
+      start,
+      end: start + 1,
+    });
   }
 
-  // Check imperative mood (basic check for common mistakes)
-  const nonImperativePrefixes = ['added', 'adds', 'fixed', 'fixes', 'updated', 'updates'];
-  const titleLower = title.toLowerCase();
-  for (const prefix of nonImperativePrefixes) {
-    if (titleLower.startsWith(prefix)) {
-      warnings.push(`Use imperative mood: "${prefix}" should be "${prefix.replace(/s?ed$/, '').replace(/es$/, '').replace(/s$/, '')}"`);
-      break;
+  // Validate type and emoji
+  if (convention === 'gitmoji' && header.emoji && header.emojiSpan) {
+    if (!findTypeByEmoji(header.emoji, types)) {
+      report('error', 'invalid-emoji', `Emoji ${header.emoji} is not a known gitmoji`, header.emojiSpan);
     }
+  } else if (header.type && header.typeSpan) {
+    const info = getTypeInfo(types, header.type);
+    if (!info) {
+      report('error', 'invalid-type', `Invalid commit type: ${header.type}`, header.typeSpan);
+    } else if (convention !== 'conventional' && header.emoji && header.emojiSpan && !emojiMatches(header.emoji, info)) {
+      const { emoji, code } = info;
+      const expected = code ? `${emoji} or ${code}` : emoji;
+      report('error', 'emoji-mismatch', `Emoji ${header.emoji} doesn't match type ${header.type}. Expected ${expected}`, header.emojiSpan);
+    }
+  }
+
+  const scopeAt = convention === 'gitmoji' ? header.titleSpan?.start : header.typeSpan?.end;
+  if (rules.requireScope && !header.scope && scopeAt !== undefined && !hasHeaderError) {
+    report('error', 'missing-scope', `Scope is required. Expected: ${CONVENTION_FORMATS[convention]}`, {
+      start: scopeAt,
+      end: scopeAt + 1,
+    });
   }
 
-  // Check description format
-  if (lines.length > 1) {
-    if (lines[1] !== '') {
-      warnings.push('Second line should be blank (separate title from description)');
+  // Validate title
+  const { title, titleSpan } = header;
+  if (title && titleSpan) {
+    if (title.length > rules.titleMaxLength) {
+      report('warning', 'title-length', `Title is ${title.length} characters (recommended max: ${rules.titleMaxLength})`, {
+        start: titleSpan.start + rules.titleMaxLength,
+        end: titleSpan.end,
+      });
     }
 
-    // Check line length in description
-    for (let i = 2; i < lines.length; i++) {
-      if (lines[i].length > 72) {
-        warnings.push(`Line ${i + 1} is ${lines[i].length} characters (recommended max: 72)`);
+    // Check if title starts with uppercase (should be lowercase)
+    if (title[0] === title[0].toUpperCase() && title[0] !== title[0].toLowerCase()) {
+      report('warning', 'title-case', 'Title should start with lowercase letter', { start: titleSpan.start, end: titleSpan.start + 1 });
+    }
+
+    // Check if title ends with period
+    if (title.endsWith('.')) {
+      report('warning', 'title-period', 'Title should not end with a period', { start: titleSpan.end - 1, end: titleSpan.end });
+    }
+
+    // Check imperative mood (basic check for common mistakes)
+    const nonImperativePrefixes = ['added', 'adds', 'fixed', 'fixes', 'updated', 'updates'];
+    const titleLower = title.toLowerCase();
+    for (const prefix of nonImperativePrefixes) {
+      if (titleLower.startsWith(prefix)) {
+        const imperative = prefix.replace(/s?ed$/, '').replace(/es$/, '').replace(/s$/, '');
+        report('warning', 'imperative-mood', `Use imperative mood: "${prefix}" should be "${imperative}"`, {
+          start: titleSpan.start,
+          end: titleSpan.start + prefix.length,
+        });
+        break;
       }
     }
   }
 
+  // Check line length in description and footers
+  const lines = message.split('\n');
+  let offset = lines[0].length + 1;
+  for (let i = 1; i < lines.length; i++) {
+    if (i >= 2 && lines[i].length > rules.bodyMaxLineLength) {
+      report('warning', 'line-length', `Line ${i + 1} is ${lines[i].length} characters (recommended max: ${rules.bodyMaxLineLength})`, {
+        start: offset + rules.bodyMaxLineLength,
+        end: offset + lines[i].length,
+      });
+    }
+    offset += lines[i].length + 1;
+  }
+
+  for (const footer of parsed.footers) {
+    const key = footer.token.toLowerCase();
+    if (
+      (key === FOOTER_KEYS.coAuthors.toLowerCase() || key === FOOTER_KEYS.signedOffBy.toLowerCase()) &&
+      footer.value &&
+      !IDENTITY_REGEX.test(footer.value)
+    ) {
+      report('warning', 'footer-identity', `"${footer.token}" should be "Name <email>"`, footer.valueSpan);
+    }
+  }
+
+  diagnostics.sort((a, b) => a.start - b.start);
+  const issues = diagnostics.filter(d => d.severity === 'error').map(formatDiagnostic);
+  const warnings = diagnostics.filter(d => d.severity === 'warning').map(formatDiagnostic);
+
   return {
     valid: issues.length === 0,
     issues,
     warnings: warnings.length > 0 ? warnings : undefined,
+    diagnostics,
   };
 }
 
 /**
- * Parse a commit message into its components
+ * Parse a commit message into its components. Returns null when the header does not follow
+ * the repository's convention, e.g. `<emoji> <type>(<scope>): <title>`; use
+ * `parseConventionalCommit` for positions and diagnostics.
  */
-export function parseCommitMessage(message: string): Partial<CommitParams> | null {
-  const lines = message.split('\n');
-  const firstLine = lines[0];
-
-  const emojiRegex = /^([^\s]+)\s+/;
-  const emojiMatch = firstLine.match(emojiRegex);
-
-  if (!emojiMatch) {
+export function parseCommitMessage(message: string, config: GitmojiConfig = DEFAULT_CONFIG): Partial<CommitParams> | null {
+  const { convention } = config;
+  const parsed = parseConventionalCommit(message, convention);
+  const { header } = parsed;
+  const type = convention === 'gitmoji' ? header.emoji && findTypeByEmoji(header.emoji, config.types) : header.type;
+
+  if (
+    !type ||
+    !header.title ||
+    (convention !== 'conventional' && !header.emoji) ||
+    parsed.diagnostics.some(d => d.severity === 'error' && d.line === 1)
+  ) {
     return null;
   }
 
-  const restOfLine = firstLine.substring(emojiMatch[0].length);
-  const typeRegex = /^([a-z]+)(\([^)]+\))?(!)?:\s+(.+)$/;
-  const typeMatch = restOfLine.match(typeRegex);
+  const result: Partial<CommitParams> = {
+    type: type as CommitType,
+    scope: header.scope,
+    title: header.title,
+    description: parsed.body?.text,
+    breaking: header.breaking,
+  };
 
-  if (!typeMatch) {
-    return null;
+  const trailers = parsed.footers.map(footer => ({ key: footer.token, value: footer.value }));
+  const isBreakingKey = (key: string) => /^BREAKING[ -]CHANGE$/i.test(key);
+  const values = (key: string) =>
+    trailers.filter(trailer => trailer.key.toLowerCase() === key.toLowerCase()).map(trailer => trailer.value);
+
+  if (parsed.breakingNote) {
+    result.breakingChange = parsed.breakingNote;
   }
 
-  const [, type, scopeRaw, breaking, title] = typeMatch;
-  const scope = scopeRaw ? scopeRaw.slice(1, -1) : undefined;
+  for (const field of ['refs', 'closes', 'coAuthors', 'signedOffBy'] as const) {
+    const found = values(FOOTER_KEYS[field]);
+    if (found.length > 0) {
+      result[field] = found;
+    }
+  }
 
-  const description = lines.length > 2 ? lines.slice(2).join('\n').trim() : undefined;
+  const known = Object.values(FOOTER_KEYS).map(key => key.toLowerCase());
+  const others = trailers.filter(trailer => !known.includes(trailer.key.toLowerCase()) && !isBreakingKey(trailer.key));
+  if (others.length > 0) {
+    result.trailers = others;
+  }
 
-  return {
-    type: type as CommitType,
-    scope,
-    title,
-    description,
-    breaking: breaking === '!',
-  };
+  return result;
 }
 
 /**
@@ -188,3 +401,67 @@ export function wrapText(text: string, width: number = 72): string {
 
   return lines.join('\n');
 }
+
+const BREAKING_FOOTER_REGEX = /^BREAKING[ -]CHANGE:\s*/m;
+
+/**
+ * Extract the text of a `BREAKING CHANGE:` footer from a commit description
+ */
+export function extractBreakingNote(description?: string): string | undefined {
+  if (!description) {
+    return undefined;
+  }
+
+  const match = BREAKING_FOOTER_REGEX.exec(description);
+  if (!match) {
+    return undefined;
+  }
+
+  const note = description.substring(match.index + match[0].length).trim();
+  return note.length > 0 ? note : undefined;
+}
+
+/**
+ * Conventional type a commit type counts as, e.g. `hotfix` → `fix` in the gitmoji preset
+ */
+export function getConventionalType(type: CommitType, types: CommitTypeCatalog): CommitType {
+  return getTypeInfo(types, type)?.conventional ?? type;
+}
+
+/**
+ * Check whether a parsed commit introduces a breaking change
+ */
+export function isBreakingCommit(commit: Partial<CommitParams>): boolean {
+  return (
+    commit.breaking === true ||
+    commit.type === 'breaking' ||
+    Boolean(commit.breakingChange) ||
+    Boolean(commit.description && BREAKING_FOOTER_REGEX.test(commit.description))
+  );
+}
+
+/**
+ * Match a branch name or path against a glob: `*` and `?` stay within one path segment, `**` spans
+ * any number of segments, including none
+ */
+export function matchesGlob(value: string, pattern: string): boolean {
+  const source = pattern
+    .split(/(\*\*\/|\*\*|\*|\?)/)
+    .map(part => {
+      switch (part) {
+        case '**/':
+          return '(?:.*/)?';
+        case '**':
+          return '.*';
+        case '*':
+          return '[^/]*';
+        case '?':
+          return '[^/]';
+        default:
+          return part.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+      }
+    })
+    .join('');
+
+  return new RegExp(`^${source}$`).test(value);
+}
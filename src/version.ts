@@ -0,0 +1,306 @@
+import { DEFAULT_CONFIG } from './config.js';
+import { getCommits, getTags } from './git.js';
+import type { GitOperationOptions } from './git.js';
+import { CommitInfo, GitmojiConfig, VersionBump, VersioningRules } from './types.js';
+import { getConventionalType, isBreakingCommit, parseCommitMessage } from './utils.js';
+
+/**
+ * Parsed semantic version
+ */
+export interface SemVer {
+  major: number;
+  minor: number;
+  patch: number;
+  prerelease: Array<string | number>;
+  build: string[];
+}
+
+/**
+ * Options for computing the next version
+ */
+export interface NextVersionOptions {
+  /** Prerelease identifier such as "rc" or "beta"; omit for a stable release */
+  prerelease?: string;
+  /** Follow 0.x semantics: breaking changes bump minor and features bump patch (default: true) */
+  initialDevelopment?: boolean;
+  /** Per-call override of the configured versioning rules */
+  versioning?: Partial<VersioningRules>;
+}
+
+/**
+ * A commit that contributed to the recommended bump
+ */
+export interface BumpTrigger {
+  hash: string;
+  shortHash: string;
+  subject: string;
+  bump: VersionBump;
+}
+
+/**
+ * Recommended next version
+ */
+export interface VersionRecommendation {
+  currentTag?: string;
+  currentVersion: string;
+  nextVersion: string;
+  nextTag: string;
+  /** Highest bump requested by the commits */
+  commitBump: VersionBump;
+  /** Bump actually applied after 0.x and prerelease handling */
+  bump: VersionBump;
+  /** Commits that caused `commitBump` */
+  triggers: BumpTrigger[];
+  commits: CommitInfo[];
+}
+
+const SEMVER_REGEX =
+  /^(0|[1-9]\d*)\.(0|[1-9]\d*)\.(0|[1-9]\d*)(?:-([0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*))?(?:\+([0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*))?$/;
+
+const BUMP_RANK: Record<VersionBump, number> = {
+  none: 0,
+  patch: 1,
+  minor: 2,
+  major: 3,
+};
+
+/**
+ * Parse a version or version tag. Any non-numeric prefix such as "v" or "release-" is ignored.
+ */
+export function parseVersion(input: string): SemVer | null {
+  const match = SEMVER_REGEX.exec(input.trim().replace(/^[^\d]*/, ''));
+  if (!match) {
+    return null;
+  }
+
+  const [, major, minor, patch, prerelease, build] = match;
+
+  return {
+    major: Number(major),
+    minor: Number(minor),
+    patch: Number(patch),
+    prerelease: prerelease ? prerelease.split('.').map(id => (/^\d+$/.test(id) ? Number(id) : id)) : [],
+    build: build ? build.split('.') : [],
+  };
+}
+
+/**
+ * Format a version without prefix or build metadata
+ */
+export function formatVersion(version: SemVer): string {
+  const core = `${version.major}.${version.minor}.${version.patch}`;
+  return version.prerelease.length > 0 ? `${core}-${version.prerelease.join('.')}` : core;
+}
+
+/**
+ * Compare two versions by semver precedence
+ */
+export function compareVersions(a: SemVer, b: SemVer): number {
+  for (const key of ['major', 'minor', 'patch'] as const) {
+    if (a[key] !== b[key]) {
+      return a[key] - b[key];
+    }
+  }
+
+  // A version without prerelease has higher precedence
+  if (a.prerelease.length === 0 || b.prerelease.length === 0) {
+    return b.prerelease.length - a.prerelease.length;
+  }
+
+  const length = Math.max(a.prerelease.length, b.prerelease.length);
+  for (let i = 0; i < length; i++) {
+    const left = a.prerelease[i];
+    const right = b.prerelease[i];
+
+    if (left === undefined || right === undefined) {
+      return left === undefined ? -1 : 1;
+    }
+    if (left === right) {
+      continue;
+    }
+    if (typeof left === 'number' && typeof right === 'number') {
+      return left - right;
+    }
+    // Numeric identifiers have lower precedence than alphanumeric ones
+    if (typeof left === 'number') {
+      return -1;
+    }
+    if (typeof right === 'number') {
+      return 1;
+    }
+    return left < right ? -1 : 1;
+  }
+
+  return 0;
+}
+
+/**
+ * Return the larger of two bumps
+ */
+export function maxBump(a: VersionBump, b: VersionBump): VersionBump {
+  return BUMP_RANK[a] >= BUMP_RANK[b] ? a : b;
+}
+
+// Types come from commit history, so only bumps the rules define themselves count
+function getTypeBump(versioning: VersioningRules, type: string): VersionBump | undefined {
+  return Object.hasOwn(versioning.bumps, type) ? versioning.bumps[type] : undefined;
+}
+
+/**
+ * Determine the bump a single commit message asks for, read in the convention of `config`.
+ * Types without a bump of their own use the bump of the conventional type they map to.
+ */
+export function getCommitBump(message: string, versioning: VersioningRules, config: GitmojiConfig = DEFAULT_CONFIG): VersionBump {
+  const parsed = parseCommitMessage(message, config);
+
+  if (!parsed || !parsed.type) {
+    return versioning.defaultBump;
+  }
+
+  if (isBreakingCommit(parsed)) {
+    return 'major';
+  }
+
+  return (
+    getTypeBump(versioning, parsed.type) ??
+    getTypeBump(versioning, getConventionalType(parsed.type, config.types)) ??
+    versioning.defaultBump
+  );
+}
+
+function incrementCore(version: SemVer, bump: VersionBump): SemVer {
+  const { major, minor, patch } = version;
+
+  switch (bump) {
+    case 'major':
+      return { major: major + 1, minor: 0, patch: 0, prerelease: [], build: [] };
+    case 'minor':
+      return { major, minor: minor + 1, patch: 0, prerelease: [], build: [] };
+    case 'patch':
+      return { major, minor, patch: patch + 1, prerelease: [], build: [] };
+    default:
+      return { major, minor, patch, prerelease: [], build: [] };
+  }
+}
+
+/**
+ * The bump a prerelease is already heading towards, e.g. 2.0.0-rc.1 is a major release
+ */
+function getPendingBump(version: SemVer): VersionBump {
+  if (version.minor === 0 && version.patch === 0) {
+    return 'major';
+  }
+  return version.patch === 0 ? 'minor' : 'patch';
+}
+
+/**
+ * Apply a bump to a version, handling 0.x semantics and prerelease identifiers
+ */
+export function incrementVersion(
+  current: SemVer,
+  commitBump: VersionBump,
+  options: NextVersionOptions = {}
+): { version: SemVer; bump: VersionBump } {
+  let bump = commitBump;
+
+  if (bump === 'none') {
+    return { version: current, bump };
+  }
+
+  if ((options.initialDevelopment ?? true) && current.major === 0) {
+    bump = bump === 'major' ? 'minor' : 'patch';
+  }
+
+  const wasPrerelease = current.prerelease.length > 0;
+  const core = { ...current, prerelease: [], build: [] };
+
+  // A prerelease already carries its pending bump, only move further if the commits ask for more
+  const next = wasPrerelease && BUMP_RANK[bump] <= BUMP_RANK[getPendingBump(current)]
+    ? core
+    : incrementCore(current, bump);
+
+  if (options.prerelease) {
+    const identifier = options.prerelease;
+    const sameCore = compareVersions(core, next) === 0;
+    const last = current.prerelease[current.prerelease.length - 1];
+
+    if (wasPrerelease && sameCore && current.prerelease[0] === identifier && typeof last === 'number') {
+      next.prerelease = [...current.prerelease.slice(0, -1), last + 1];
+    } else {
+      next.prerelease = [identifier, 0];
+    }
+  }
+
+  return { version: next, bump };
+}
+
+/**
+ * Find the highest semantic version tag reachable from the given ref
+ */
+export async function getLatestVersionTag(
+  ref: string = 'HEAD',
+  options?: GitOperationOptions
+): Promise<{ tag: string; version: SemVer } | undefined> {
+  let latest: { tag: string; version: SemVer } | undefined;
+
+  for (const tag of await getTags(ref, options)) {
+    const version = parseVersion(tag);
+    if (version && (!latest || compareVersions(version, latest.version) > 0)) {
+      latest = { tag, version };
+    }
+  }
+
+  return latest;
+}
+
+/**
+ * Recommend the next version from the commits since the latest version tag
+ */
+export async function recommendNextVersion(
+  config: GitmojiConfig,
+  options: NextVersionOptions = {},
+  gitOptions?: GitOperationOptions
+): Promise<VersionRecommendation> {
+  const versioning: VersioningRules = {
+    ...config.versioning,
+    ...options.versioning,
+    bumps: { ...config.versioning.bumps, ...options.versioning?.bumps },
+  };
+
+  const latest = await getLatestVersionTag('HEAD', gitOptions);
+  const current = latest?.version ?? parseVersion('0.0.0')!;
+  const commits = await getCommits(latest?.tag, 'HEAD', gitOptions);
+
+  let commitBump: VersionBump = 'none';
+  const bumps = commits.map(commit => {
+    const bump = getCommitBump(commit.message, versioning, config);
+    commitBump = maxBump(commitBump, bump);
+    return { commit, bump };
+  });
+
+  const triggers: BumpTrigger[] = commitBump === 'none'
+    ? []
+    : bumps
+        .filter(({ bump }) => bump === commitBump)
+        .map(({ commit, bump }) => ({
+          hash: commit.hash,
+          shortHash: commit.shortHash,
+          subject: commit.message.split('\n')[0],
+          bump,
+        }));
+
+  const { version, bump } = incrementVersion(current, commitBump, options);
+  const prefix = latest ? /^[^\d]*/.exec(latest.tag)![0] : versioning.tagPrefix;
+  const nextVersion = formatVersion(version);
+
+  return {
+    currentTag: latest?.tag,
+    currentVersion: formatVersion(current),
+    nextVersion,
+    nextTag: `${prefix}${nextVersion}`,
+    commitBump,
+    bump,
+    triggers,
+    commits,
+  };
+}
@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeChanges, classifyFile, parsePatch } from '../src/analysis.js';
+import { COMMIT_TYPES, PatchFile } from '../src/types.js';
+
+function change(path: string, added: string[], removed: string[] = [], status: PatchFile['status'] = 'modified') {
+  return {
+    stats: { additions: added.length, deletions: removed.length, files: [path] },
+    patch: [{ path, status, binary: false, added, removed }],
+  };
+}
+
+describe('parsePatch', () => {
+  it('reads renames, added and removed lines', () => {
+    const patch = [
+      'diff --git a/old.ts b/new.ts',
+      'similarity index 90%',
+      'rename from old.ts',
+      'rename to new.ts',
+      '--- a/old.ts',
+      '+++ b/new.ts',
+      '@@ -1 +1 @@',
+      '-a',
+      '+b',
+    ].join('\n');
+
+    expect(parsePatch(patch)).toEqual([
+      { path: 'new.ts', oldPath: 'old.ts', status: 'renamed', binary: false, added: ['b'], removed: ['a'] },
+    ]);
+  });
+});
+
+describe('analyzeChanges', () => {
+  it('ranks the type whose signals weigh most', () => {
+    expect(analyzeChanges(change('README.md', ['# Title', 'Some docs']), COMMIT_TYPES)).toMatchObject({
+      type: 'docs',
+      confidence: 'high',
+      candidates: [{ type: 'docs', score: 6 }, { type: 'fix', score: 1 }],
+    });
+    expect(analyzeChanges(change('src/a.test.ts', ["it('works', () => {", '});']), COMMIT_TYPES).type).toBe('test');
+    expect(
+      analyzeChanges(change('package.json', ['    "vitest": "^3.2.7"'], ['    "vitest": "^3.1.0"']), COMMIT_TYPES)
+    ).toMatchObject({ type: 'deps', reason: 'Dependency versions changed: vitest' });
+  });
+
+  it('reads new public API from added source files', () => {
+    const added = Array.from({ length: 60 }, (_, i) => `export function f${i}() {}`);
+    const result = analyzeChanges(change('src/api.ts', added, [], 'added'), COMMIT_TYPES);
+
+    expect(result.type).toBe('feat');
+    expect(result.reason).toContain('New public API: f0, f1');
+  });
+
+  it('is less confident when the signals are weak', () => {
+    const result = analyzeChanges(change('src/auth.ts', ['  if (!user) {', '    return null;', '  }']), COMMIT_TYPES);
+    expect(result).toMatchObject({ type: 'fix', confidence: 'medium', score: 3 });
+  });
+
+  it('names the fallback type it defaults to', () => {
+    const result = analyzeChanges(change('notes', ['x']), { chore: COMMIT_TYPES.chore });
+    expect(result).toMatchObject({
+      type: 'chore',
+      confidence: 'low',
+      reason: 'Unable to determine specific type, defaulting to chore',
+    });
+  });
+});
+
+describe('per-file classification', () => {
+  function changes(...files: ReturnType<typeof change>[]) {
+    return {
+      stats: {
+        additions: files.reduce((sum, file) => sum + file.stats.additions, 0),
+        deletions: files.reduce((sum, file) => sum + file.stats.deletions, 0),
+        files: files.flatMap(file => file.stats.files),
+      },
+      patch: files.flatMap(file => file.patch),
+    };
+  }
+
+  const source = change('src/auth.ts', ['  if (!user) {', '    return null;', '  }']);
+  const test = change('src/auth.test.ts', ["it('rejects anonymous users', () => {", '});']);
+  const workflow = change('.github/workflows/ci.yml', ['  run: npm test']);
+
+  it('classifies each file on its own', () => {
+    expect(classifyFile(test.patch[0], COMMIT_TYPES)).toMatchObject({ path: 'src/auth.test.ts', type: 'test', emoji: COMMIT_TYPES.test.emoji });
+    expect(classifyFile(workflow.patch[0], COMMIT_TYPES)).toMatchObject({ type: 'ci', score: 6 });
+  });
+
+  it('does not count tests and docs that accompany a change as another concern', () => {
+    const result = analyzeChanges(changes(source, test), COMMIT_TYPES);
+    expect(result.files?.map(file => file.type)).toEqual(['fix', 'test']);
+    expect(result.mixed).toBe(false);
+  });
+
+  it('flags files that look like different kinds of change', () => {
+    const result = analyzeChanges(changes(source, workflow), COMMIT_TYPES);
+    expect(result.mixed).toBe(true);
+    expect(result.mixedReason).toContain('fix (src/auth.ts); ci (.github/workflows/ci.yml)');
+  });
+
+  it('returns as many ranked candidates as asked for', () => {
+    const all = analyzeChanges(workflow, COMMIT_TYPES, { maxCandidates: 10 }).candidates ?? [];
+    expect(all.map(candidate => [candidate.type, candidate.score])).toEqual([
+      ['ci', 6],
+      ['chore', 5],
+      ['fix', 1],
+    ]);
+
+    expect(analyzeChanges(workflow, COMMIT_TYPES, { maxCandidates: 2 }).candidates).toEqual(all.slice(0, 2));
+  });
+});
@@ -0,0 +1,112 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { buildChangelog, renderChangelog } from '../src/changelog.js';
+import { mergeConfig } from '../src/config.js';
+import { getCommits } from '../src/git.js';
+import { CommitInfo } from '../src/types.js';
+import { createRepo, git, removeRepo, stageFile } from './helpers.js';
+
+function commits(...messages: string[]): CommitInfo[] {
+  return messages.map((message, i) => ({
+    hash: `${i}`.repeat(40),
+    shortHash: `${i}`.repeat(7),
+    parents: [],
+    message,
+    author: 'Test',
+    date: '2026-01-01T00:00:00Z',
+  }));
+}
+
+describe('buildChangelog', () => {
+  it('groups commits by type in catalog order, with unparsed ones under Other', () => {
+    const changelog = buildChangelog(
+      commits('🐛 fix(api): handle nulls', '✨ feat: add login', 'Merge branch main', '✨ constructor: sneak in', '🐛 fix: trim input')
+    );
+
+    expect(changelog.sections.map(section => [section.type, section.entries.map(entry => entry.title)])).toEqual([
+      ['feat', ['add login']],
+      ['fix', ['handle nulls', 'trim input']],
+    ]);
+    expect(changelog.other.map(entry => entry.title)).toEqual(['Merge branch main', '✨ constructor: sneak in']);
+    expect(changelog.breaking).toEqual([]);
+  });
+
+  it('lists breaking changes with their note, and the breaking type only there', () => {
+    const changelog = buildChangelog(
+      commits('✨ feat(auth)!: drop sessions\n\nBREAKING CHANGE: tokens replace sessions', '💥 breaking: remove v1 API')
+    );
+
+    expect(changelog.breaking.map(entry => entry.breakingNote ?? entry.title)).toEqual([
+      'tokens replace sessions',
+      'remove v1 API',
+    ]);
+    expect(changelog.sections.map(section => section.type)).toEqual(['feat']);
+  });
+
+  it('lists types under the conventional type they map to', () => {
+    const config = mergeConfig({ preset: 'gitmoji' }, 'test');
+    const changelog = buildChangelog(commits('🚑️ hotfix: stop the crash', '🐛 fix: handle nulls'), config);
+
+    expect(changelog.sections).toEqual([
+      expect.objectContaining({ type: 'fix', title: 'Bug Fixes', entries: [expect.anything(), expect.anything()] }),
+    ]);
+  });
+});
+
+describe('renderChangelog', () => {
+  it('renders sections as Markdown', () => {
+    const changelog = buildChangelog(
+      commits('✨ feat(auth)!: drop sessions\n\nBREAKING CHANGE: tokens replace\nsessions', '🐛 fix: handle nulls', 'wip')
+    );
+
+    expect(renderChangelog(changelog, 'v2.0.0 (2026-01-01)')).toBe(
+      [
+        '## v2.0.0 (2026-01-01)',
+        '',
+        '### Breaking Changes',
+        '',
+        '- **auth:** tokens replace sessions (0000000)',
+        '',
+        '### Features',
+        '',
+        '- **auth:** drop sessions (0000000)',
+        '',
+        '### Bug Fixes',
+        '',
+        '- handle nulls (1111111)',
+        '',
+        '### Other',
+        '',
+        '- wip (2222222)',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('says when there is nothing to list', () => {
+    expect(renderChangelog(buildChangelog([]), 'v1.0.1')).toBe('## v1.0.1\n\n_No changes._\n');
+  });
+});
+
+describe('getCommits', () => {
+  let repo: string;
+
+  beforeEach(async () => {
+    repo = await createRepo();
+  });
+
+  afterEach(async () => {
+    await removeRepo(repo);
+  });
+
+  it('reads the commits between two refs, newest first', async () => {
+    git(repo, 'tag', 'v1.0.0');
+    for (const message of ['✨ feat: add login', '🐛 fix: handle nulls']) {
+      await stageFile(repo, 'file.txt', message);
+      git(repo, 'commit', '-q', '-m', message);
+    }
+
+    const range = await getCommits('v1.0.0', 'HEAD', { repoPath: repo });
+    expect(range.map(commit => commit.message)).toEqual(['🐛 fix: handle nulls', '✨ feat: add login']);
+    expect(await getCommits(undefined, 'HEAD', { repoPath: repo })).toHaveLength(3);
+  });
+});
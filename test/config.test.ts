@@ -0,0 +1,37 @@
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { DEFAULT_CONFIG, loadConfig } from '../src/config.js';
+
+describe('loadConfig', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'gitmoji-config-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('reads the gitmoji section of package.json', async () => {
+    await writeFile(path.join(dir, 'package.json'), JSON.stringify({ gitmoji: { convention: 'conventional' } }));
+    expect((await loadConfig(dir)).convention).toBe('conventional');
+  });
+
+  it('ignores a malformed package.json without a gitmoji section', async () => {
+    await writeFile(path.join(dir, 'package.json'), '{ "name": "broken", }');
+    expect(await loadConfig(dir)).toBe(DEFAULT_CONFIG);
+  });
+
+  it('rejects a malformed package.json that holds the gitmoji section', async () => {
+    await writeFile(path.join(dir, 'package.json'), '{ "gitmoji": { "convention": "conventional" }, }');
+    await expect(loadConfig(dir)).rejects.toMatchObject({ code: 'INVALID_CONFIG' });
+  });
+
+  it('still rejects a malformed .gitmojirc.json', async () => {
+    await writeFile(path.join(dir, '.gitmojirc.json'), '{ "convention": ');
+    await expect(loadConfig(dir)).rejects.toMatchObject({ code: 'INVALID_CONFIG' });
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { MESSAGE_CONVENTIONS, mergeConfig } from '../src/config.js';
+import type { MessageConvention } from '../src/types.js';
+import { formatCommitMessage, parseCommitMessage, validateCommitMessage } from '../src/utils.js';
+
+const HEADERS: Record<MessageConvention, { scoped: string; plain: string; breaking: string; rejected: string[] }> = {
+  'emoji-conventional': {
+    scoped: '✨ feat(auth): add login',
+    plain: '✨ feat: add login',
+    breaking: '✨ feat(auth)!: add login',
+    rejected: ['feat(auth): add login', '✨ (auth): add login', 'feat(auth): ✨ add login'],
+  },
+  conventional: {
+    scoped: 'feat(auth): add login',
+    plain: 'feat: add login',
+    breaking: 'feat(auth)!: add login',
+    rejected: ['✨ feat(auth): add login', '✨ (auth): add login'],
+  },
+  gitmoji: {
+    scoped: '✨ (auth): add login',
+    plain: '✨ add login',
+    breaking: '✨ (auth)!: add login',
+    rejected: ['feat(auth): add login', 'feat(auth): ✨ add login'],
+  },
+  'conventional-emoji-after-colon': {
+    scoped: 'feat(auth): ✨ add login',
+    plain: 'feat: ✨ add login',
+    breaking: 'feat(auth)!: ✨ add login',
+    rejected: ['✨ feat(auth): add login', 'feat(auth): add login', '✨ (auth): add login'],
+  },
+};
+
+describe.each(MESSAGE_CONVENTIONS)('the %s convention', convention => {
+  const config = mergeConfig({ convention }, 'test');
+  const headers = HEADERS[convention];
+
+  it('formats headers with and without a scope', () => {
+    expect(formatCommitMessage({ type: 'feat', scope: 'auth', title: 'add login' }, config)).toBe(headers.scoped);
+    expect(formatCommitMessage({ type: 'feat', title: 'add login' }, config)).toBe(headers.plain);
+    expect(formatCommitMessage({ type: 'feat', scope: 'auth', title: 'add login', breaking: true }, config)).toBe(headers.breaking);
+  });
+
+  it('validates and parses what it formats', () => {
+    const message = formatCommitMessage({ type: 'feat', scope: 'auth', title: 'add login', description: 'Adds a login form.' }, config);
+
+    expect(validateCommitMessage(message, config).valid).toBe(true);
+    expect(parseCommitMessage(message, config)).toMatchObject({ type: 'feat', scope: 'auth', title: 'add login' });
+  });
+
+  it('rejects headers written in another convention', () => {
+    for (const header of headers.rejected) {
+      expect(validateCommitMessage(header, config).valid).toBe(false);
+    }
+  });
+});
@@ -0,0 +1,124 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { DEFAULT_CONFIG } from '../src/config.js';
+import { collectStagedDiff, listAddedLines, shareBudget } from '../src/diff.js';
+import { getStagedPatch } from '../src/git.js';
+import { checkCommitGuards } from '../src/guards.js';
+import { createRepo, git, removeRepo, stageFile } from './helpers.js';
+
+describe('staged patch', () => {
+  let repo: string;
+
+  beforeEach(async () => {
+    repo = await createRepo();
+  });
+
+  afterEach(async () => {
+    await removeRepo(repo);
+  });
+
+  it('parses whatever prefixes the diff config asks for', async () => {
+    git(repo, 'config', 'diff.noprefix', 'true');
+    git(repo, 'config', 'diff.mnemonicPrefix', 'true');
+    await stageFile(repo, 'src/a.txt', 'one\n<<<<<<< HEAD\n');
+
+    const added = listAddedLines(await getStagedPatch({ repoPath: repo }));
+    expect(added).toEqual([
+      { path: 'src/a.txt', line: 1, text: 'one' },
+      { path: 'src/a.txt', line: 2, text: '<<<<<<< HEAD' },
+    ]);
+
+    const findings = await checkCommitGuards(DEFAULT_CONFIG, {}, { repoPath: repo });
+    expect(findings).toEqual([expect.objectContaining({ code: 'CONFLICT_MARKERS', files: ['src/a.txt:2'] })]);
+
+    const diff = await collectStagedDiff({}, { repoPath: repo });
+    expect(diff.files.map(file => file.path)).toEqual(['src/a.txt']);
+  });
+
+  it('skips file chunks whose header does not parse', () => {
+    const patch = ['diff --git src/a.txt src/a.txt', '@@ -0,0 +1 @@', '+one'].join('\n');
+    expect(listAddedLines(patch)).toEqual([]);
+  });
+});
+
+describe('shareBudget', () => {
+  it('gives small items what they need and splits the rest equally', () => {
+    expect(shareBudget([10, 100, 100], 110)).toEqual([10, 50, 50]);
+    expect(shareBudget([100, 5, 30], 60)).toEqual([28, 5, 27]);
+  });
+
+  it('never hands out more than the budget or a negative share', () => {
+    expect(shareBudget([3, 4], 100)).toEqual([3, 4]);
+    expect(shareBudget([3, 4], -5)).toEqual([0, 0]);
+    expect(shareBudget([], 10)).toEqual([]);
+  });
+});
+
+describe('collectStagedDiff', () => {
+  let repo: string;
+
+  beforeEach(async () => {
+    repo = await createRepo();
+  });
+
+  afterEach(async () => {
+    await removeRepo(repo);
+  });
+
+  const lines = (count: number, prefix = 'line') => Array.from({ length: count }, (_, i) => `${prefix} ${i + 1}\n`).join('');
+
+  it('leaves out lockfiles, generated and binary files unless asked for', async () => {
+    await stageFile(repo, 'src/app.ts', 'export const app = 1;\n');
+    await stageFile(repo, 'package-lock.json', '{}\n');
+    await stageFile(repo, 'dist/app.js', 'var app = 1;\n');
+    await stageFile(repo, 'src/schema.ts', '// @generated\nexport {};\n');
+    await stageFile(repo, 'logo.png', 'PNG\0\0\x01binary');
+
+    const diff = await collectStagedDiff({}, { repoPath: repo });
+    expect(diff.files.map(file => file.path)).toEqual(['src/app.ts']);
+    expect(Object.fromEntries(diff.excluded.map(file => [file.path, file.reason]))).toEqual({
+      'dist/app.js': 'generated',
+      'logo.png': 'binary',
+      'package-lock.json': 'lockfile',
+      'src/schema.ts': 'generated',
+    });
+
+    const all = await collectStagedDiff({ includeLockfiles: true, includeGenerated: true, includeBinary: true }, { repoPath: repo });
+    expect(all.files).toHaveLength(5);
+    expect(all.excluded).toEqual([]);
+  });
+
+  it('cuts files to their share of the budget with a summary of what was left out', async () => {
+    await stageFile(repo, 'big.txt', lines(50));
+    await stageFile(repo, 'small.txt', lines(2));
+
+    const diff = await collectStagedDiff({ maxLines: 21 }, { repoPath: repo });
+    const [big, small] = diff.files;
+
+    expect(diff.truncated).toBe(true);
+    expect(small).toMatchObject({ path: 'small.txt', truncated: false, omittedLines: 0 });
+    // The small file takes its hunk header and two lines; the big one gets the other 18
+    expect(big).toMatchObject({ path: 'big.txt', truncated: true, omittedLines: 33, additions: 50 });
+    expect(big.patch).toContain('+line 17');
+    expect(big.patch).not.toContain('+line 18\n');
+    expect(big.patch.split('\n').at(-1)).toBe('... [33 line(s) omitted: +33 -0]');
+  });
+
+  it('applies the character budget as well', async () => {
+    await stageFile(repo, 'a.txt', lines(20));
+
+    const diff = await collectStagedDiff({ maxChars: 40 }, { repoPath: repo });
+    expect(diff.files[0]).toMatchObject({ truncated: true });
+    expect(diff.files[0].patch).toMatch(/\.\.\. \[\d+ line\(s\) omitted: \+\d+ -0\]$/);
+  });
+
+  it('shows one staged file even when filters would leave it out', async () => {
+    await stageFile(repo, 'src/app.ts', 'export const app = 1;\n');
+    await stageFile(repo, 'package-lock.json', '{}\n');
+
+    const diff = await collectStagedDiff({ path: 'package-lock.json' }, { repoPath: repo });
+    expect(diff.files.map(file => file.path)).toEqual(['package-lock.json']);
+    expect(diff.excluded).toEqual([]);
+
+    await expect(collectStagedDiff({ path: 'README.md' }, { repoPath: repo })).rejects.toMatchObject({ code: 'INVALID_ARGUMENT' });
+  });
+});
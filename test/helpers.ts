@@ -0,0 +1,60 @@
+import { execFileSync } from 'node:child_process';
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { GitmojiCommitServer } from '../src/server.js';
+
+/**
+ * Run git in a repository and return its output
+ */
+export function git(dir: string, ...args: string[]): string {
+  return execFileSync('git', args, { cwd: dir, encoding: 'utf8' });
+}
+
+/**
+ * Create a repository with one commit on `main` and the given config file, if any
+ */
+export async function createRepo(config?: unknown): Promise<string> {
+  const dir = await mkdtemp(path.join(tmpdir(), 'gitmoji-repo-'));
+  git(dir, 'init', '-q', '-b', 'main');
+  git(dir, 'config', 'user.name', 'Test');
+  git(dir, 'config', 'user.email', 'test@example.com');
+  await writeFile(path.join(dir, 'README.md'), '# test\n');
+  if (config !== undefined) {
+    await writeFile(path.join(dir, '.gitmojirc.json'), JSON.stringify(config));
+  }
+  git(dir, 'add', '-A');
+  git(dir, 'commit', '-q', '-m', '🎉 init: start');
+  return dir;
+}
+
+/**
+ * Write a file in a repository and stage it
+ */
+export async function stageFile(dir: string, file: string, content: string): Promise<void> {
+  await mkdir(path.dirname(path.join(dir, file)), { recursive: true });
+  await writeFile(path.join(dir, file), content);
+  git(dir, 'add', '--', file);
+}
+
+export async function removeRepo(dir: string): Promise<void> {
+  await rm(dir, { recursive: true, force: true });
+}
+
+/**
+ * Connect a client to a server in memory. Tool errors are returned by `callTool`, not thrown.
+ */
+export async function connectServer(): Promise<{
+  client: Client;
+  callTool: (name: string, args: Record<string, unknown>) => Promise<any>;
+}> {
+  const [serverTransport, clientTransport] = InMemoryTransport.createLinkedPair();
+  await new GitmojiCommitServer()['server'].connect(serverTransport);
+
+  const client = new Client({ name: 'test', version: '1.0.0' });
+  await client.connect(clientTransport);
+
+  return { client, callTool: (name, args) => client.callTool({ name, arguments: args }) };
+}
@@ -0,0 +1,52 @@
+import { execFileSync } from 'node:child_process';
+import { stat, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { installHooks, uninstallHooks } from '../src/hooks.js';
+import { createRepo, git, removeRepo } from './helpers.js';
+
+describe('chained hooks', () => {
+  let repo: string;
+  let hookPath: string;
+
+  beforeEach(async () => {
+    // Ignore git config passed through the environment, such as core.hooksPath=/dev/null
+    vi.stubEnv('GIT_CONFIG_COUNT', '0');
+    repo = await createRepo();
+    hookPath = path.join(repo, '.git', 'hooks', 'prepare-commit-msg');
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    await removeRepo(repo);
+  });
+
+  // As for `git commit -m`, which the hook leaves alone
+  const runHook = () => execFileSync('sh', [hookPath, '.git/COMMIT_EDITMSG', 'message'], { cwd: repo, encoding: 'utf8' });
+  const mode = async (file: string) => (await stat(file)).mode & 0o777;
+
+  it('runs an executable hook before its own', async () => {
+    await writeFile(hookPath, '#!/bin/sh\necho previous\n', { mode: 0o755 });
+
+    const [change] = await installHooks(['prepare-commit-msg'], { repoPath: repo });
+    expect(change.action).toBe('chained');
+    expect(runHook()).toContain('previous');
+
+    await uninstallHooks(['prepare-commit-msg'], { repoPath: repo });
+    expect(await mode(hookPath)).toBe(0o755);
+  });
+
+  it('leaves a hook that was not executable disabled and restores its mode', async () => {
+    await writeFile(hookPath, '#!/bin/sh\necho previous\nexit 1\n', { mode: 0o644 });
+
+    const [change] = await installHooks(['prepare-commit-msg'], { repoPath: repo });
+    expect(change.detail).toContain('not executable');
+    expect(await mode(`${hookPath}.gitmoji-chained`)).toBe(0o644);
+    expect(runHook()).not.toContain('previous');
+
+    const [restored] = await uninstallHooks(['prepare-commit-msg'], { repoPath: repo });
+    expect(restored.action).toBe('restored');
+    expect(await mode(hookPath)).toBe(0o644);
+    expect(git(repo, 'status', '--porcelain')).toBe('');
+  });
+});
@@ -0,0 +1,83 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { DEFAULT_CONFIG } from '../src/config.js';
+import { getCommitKind, lintCommits, lintRange } from '../src/lint.js';
+import { CommitInfo } from '../src/types.js';
+import { createRepo, git, removeRepo, stageFile } from './helpers.js';
+
+function commit(message: string, parents: string[] = ['p']): CommitInfo {
+  return { hash: message, shortHash: message.substring(0, 7), parents, message, author: 'Test', date: '' };
+}
+
+describe('getCommitKind', () => {
+  it('tells merges, fixups and git reverts apart', () => {
+    expect(getCommitKind(commit('✨ feat: add login'))).toBe('normal');
+    expect(getCommitKind(commit("Merge branch 'main'", ['a', 'b']))).toBe('merge');
+    expect(getCommitKind(commit('fixup! ✨ feat: add login'))).toBe('fixup');
+    expect(getCommitKind(commit('squash! ✨ feat: add login'))).toBe('fixup');
+    expect(getCommitKind(commit('Revert "✨ feat: add login"'))).toBe('revert');
+  });
+});
+
+describe('lintCommits', () => {
+  const commits = [
+    commit('✨ feat: add login'),
+    commit('added stuff'),
+    commit("Merge branch 'main'", ['a', 'b']),
+    commit('fixup! ✨ feat: add login'),
+    commit('Revert "✨ feat: add login"'),
+  ];
+
+  it('validates normal commits and handles the others as configured', () => {
+    const result = lintCommits(commits, 'main..HEAD', DEFAULT_CONFIG);
+
+    expect(result.commits.map(report => `${report.kind} ${report.status}`)).toEqual([
+      'normal passed',
+      'normal failed',
+      'merge skipped',
+      'fixup failed',
+      'revert skipped',
+    ]);
+    expect(result.commits[3].issues).toEqual(['Fixup/squash commits must be squashed before merging']);
+    expect(result.passed).toBe(false);
+    expect(result.summary).toEqual({ total: 5, passed: 1, failed: 2, skipped: 2, withWarnings: 0 });
+  });
+
+  it('can validate or refuse special commits instead', () => {
+    const result = lintCommits(commits.slice(2), 'main..HEAD', DEFAULT_CONFIG, {
+      merges: 'fail',
+      fixups: 'skip',
+      reverts: 'validate',
+    });
+
+    expect(result.commits.map(report => report.status)).toEqual(['failed', 'skipped', 'failed']);
+    expect(result.commits[0].issues).toEqual(['Merge commits are not allowed in this range']);
+    expect(result.commits[2].issues[0]).toMatch(/Commit message must/);
+  });
+});
+
+describe('lintRange', () => {
+  let repo: string;
+
+  beforeEach(async () => {
+    repo = await createRepo();
+  });
+
+  afterEach(async () => {
+    await removeRepo(repo);
+  });
+
+  it('lints the commits of a branch, merges included', async () => {
+    git(repo, 'checkout', '-q', '-b', 'feature');
+    await stageFile(repo, 'a.txt', 'a\n');
+    git(repo, 'commit', '-q', '-m', '✨ feat: add a');
+    git(repo, 'checkout', '-q', 'main');
+    await stageFile(repo, 'b.txt', 'b\n');
+    git(repo, 'commit', '-q', '-m', 'b');
+    git(repo, 'checkout', '-q', 'feature');
+    git(repo, 'merge', '-q', '--no-edit', 'main');
+
+    const result = await lintRange('main..feature', DEFAULT_CONFIG, { merges: 'fail' }, { repoPath: repo });
+    expect(result.commits.map(report => `${report.kind} ${report.status}`)).toEqual(['merge failed', 'normal passed']);
+    expect(result.passed).toBe(false);
+  });
+});
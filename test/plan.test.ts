@@ -0,0 +1,113 @@
+import { writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_CONFIG } from '../src/config.js';
+import { executePlan, planCommits } from '../src/plan.js';
+import { createRepo, git, removeRepo, stageFile } from './helpers.js';
+
+describe('commit plans', () => {
+  let repo: string;
+
+  beforeEach(async () => {
+    repo = await createRepo();
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    await removeRepo(repo);
+  });
+
+  const gitOptions = () => ({ repoPath: repo });
+  const log = () => git(repo, 'log', '--format=%s').trim().split('\n');
+  const staged = () => git(repo, 'diff', '--staged', '--name-status').trim();
+
+  async function stageChanges() {
+    await stageFile(repo, 'package.json', JSON.stringify({ name: 'app', workspaces: [] }, null, 2));
+    git(repo, 'commit', '-q', '-m', '🎉 init: add package');
+    await stageFile(repo, 'src/auth/login.ts', 'export function login() {}\n');
+    await stageFile(repo, 'src/auth/login.test.ts', "it('logs in', () => {});\n");
+    await stageFile(repo, 'docs/guide.md', '# Guide\n');
+    await stageFile(repo, '.github/workflows/ci.yml', 'on: push\n');
+  }
+
+  it('groups staged files by type and scope, with tests joining their source', async () => {
+    await stageChanges();
+
+    const { commits } = await planCommits(DEFAULT_CONFIG, gitOptions());
+    expect(commits.map(commit => [commit.type, commit.scope, commit.files])).toEqual([
+      ['feat', 'auth', ['src/auth/login.ts', 'src/auth/login.test.ts']],
+      ['ci', undefined, ['.github/workflows/ci.yml']],
+      ['docs', 'docs', ['docs/guide.md']],
+    ]);
+    expect(commits[0].title).toBe('add login');
+  });
+
+  it('creates one commit per step and leaves files outside the plan staged', async () => {
+    await stageChanges();
+
+    const result = await executePlan(
+      [
+        { type: 'feat', scope: 'auth', title: 'add login', files: ['src/auth/login.ts', 'src/auth/login.test.ts'] },
+        { type: 'docs', title: 'add a guide', files: ['docs/guide.md'] },
+      ],
+      DEFAULT_CONFIG,
+      gitOptions()
+    );
+
+    expect(result.commits.map(commit => commit.message)).toEqual(['✨ feat(auth): add login', '📝 docs: add a guide']);
+    expect(result.remaining).toEqual(['.github/workflows/ci.yml']);
+    expect(log().slice(0, 2)).toEqual(['📝 docs: add a guide', '✨ feat(auth): add login']);
+    expect(git(repo, 'show', '--name-only', '--format=', 'HEAD~1').trim().split('\n')).toEqual([
+      'src/auth/login.test.ts',
+      'src/auth/login.ts',
+    ]);
+    expect(staged()).toBe('A\t.github/workflows/ci.yml');
+  });
+
+  it('refuses plans that do not match the staged files before committing anything', async () => {
+    await stageChanges();
+    const before = log();
+
+    await expect(
+      executePlan([{ type: 'feat', title: 'add x', files: ['src/missing.ts'] }], DEFAULT_CONFIG, gitOptions())
+    ).rejects.toThrow('src/missing.ts is not staged');
+    await expect(
+      executePlan(
+        [
+          { type: 'feat', title: 'add login', files: ['src/auth/login.ts'] },
+          { type: 'test', title: 'test login', files: ['src/auth/login.ts'] },
+        ],
+        DEFAULT_CONFIG,
+        gitOptions()
+      )
+    ).rejects.toThrow('listed in more than one commit');
+    await expect(
+      executePlan([{ type: 'nope', title: 'add login', files: ['src/auth/login.ts'] }], DEFAULT_CONFIG, gitOptions())
+    ).rejects.toMatchObject({ code: 'INVALID_TYPE' });
+    expect(log()).toEqual(before);
+  });
+
+  it('undoes the commits already created and restores the index when a step fails', async () => {
+    await stageChanges();
+    const before = log();
+    const index = staged();
+
+    // Let the repository's hooks run, and reject the second commit
+    vi.stubEnv('GIT_CONFIG_COUNT', '0');
+    await writeFile(path.join(repo, '.git', 'hooks', 'commit-msg'), '#!/bin/sh\n! grep -q guide "$1"\n', { mode: 0o755 });
+
+    await expect(
+      executePlan(
+        [
+          { type: 'feat', title: 'add login', files: ['src/auth/login.ts'] },
+          { type: 'docs', title: 'add a guide', files: ['docs/guide.md'] },
+        ],
+        DEFAULT_CONFIG,
+        gitOptions()
+      )
+    ).rejects.toThrow(/at commit 2 of 2: .*1 created commit\(s\) were undone/s);
+
+    expect(log()).toEqual(before);
+    expect(staged()).toBe(index);
+  });
+});
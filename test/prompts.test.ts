@@ -0,0 +1,76 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { DEFAULT_CONFIG, mergeConfig } from '../src/config.js';
+import { PROMPTS, getPrompt } from '../src/prompts.js';
+import { createRepo, git, removeRepo, stageFile } from './helpers.js';
+
+describe('prompts', () => {
+  let repo: string;
+
+  beforeEach(async () => {
+    repo = await createRepo();
+  });
+
+  afterEach(async () => {
+    await removeRepo(repo);
+  });
+
+  const text = async (name: string, options: Parameters<typeof getPrompt>[1], config = DEFAULT_CONFIG) => {
+    const result = await getPrompt(name, options, config, { repoPath: repo });
+    const content = result.messages[0]?.content;
+    return content?.type === 'text' ? content.text : '';
+  };
+
+  it('offers the commit, explanation and pull request prompts', () => {
+    expect(PROMPTS.map(prompt => prompt.name)).toEqual(['write-commit-message', 'explain-staged-changes', 'write-pr-description']);
+    expect(PROMPTS.find(prompt => prompt.name === 'write-pr-description')?.arguments?.map(arg => arg.name)).toContain('base');
+  });
+
+  it('embeds the convention, the suggestion and the staged diff', async () => {
+    await stageFile(repo, 'docs/guide.md', '# Guide\n');
+    await stageFile(repo, 'package-lock.json', '{}\n');
+
+    const prompt = await text('write-commit-message', { verbosity: 'short' });
+    expect(prompt).toContain('Header format: <emoji> <type>(<scope>): <title>, e.g. "✨ feat(auth): add token refresh"');
+    expect(prompt).toContain('suggests the type "deps"');
+    expect(prompt).toContain('Write only the header line.');
+    expect(prompt).toContain('- docs/guide.md (added, +1 -0)');
+    expect(prompt).toContain('- package-lock.json (added, lockfile, +1 -0, diff not shown)');
+    expect(prompt).toContain('+# Guide');
+  });
+
+  it('follows the chosen type, scope, language and convention', async () => {
+    await stageFile(repo, 'src/app.ts', 'export const app = 1;\n');
+
+    const prompt = await text(
+      'explain-staged-changes',
+      { type: 'fix', scope: 'app', language: 'French' },
+      mergeConfig({ convention: 'conventional' }, 'test')
+    );
+    expect(prompt).toContain('Use the type "fix".');
+    expect(prompt).toContain('Use the scope "app".');
+    expect(prompt).toContain('Write in French; keep commit types, scopes and footer keys as they are.');
+    expect(prompt).toContain('Do not use emojis.');
+    expect(prompt).not.toContain('suggests the type');
+  });
+
+  it('describes the commits of a branch for a pull request', async () => {
+    git(repo, 'branch', 'base');
+    await stageFile(repo, 'a.txt', 'a\n');
+    git(repo, 'commit', '-q', '-m', '✨ feat: add a');
+
+    const prompt = await text('write-pr-description', { base: 'base' });
+    expect(prompt).toMatch(/Commits since base:\n- ✨ feat: add a \([0-9a-f]+\)/);
+    expect(prompt).not.toContain('Staged diff:');
+
+    await expect(text('write-pr-description', {})).rejects.toMatchObject({ code: 'INVALID_ARGUMENT' });
+  });
+
+  it('rejects unknown prompts, bad arguments and an empty index', async () => {
+    await expect(text('write-poem', {})).rejects.toMatchObject({ code: 'UNKNOWN_PROMPT' });
+    await expect(text('write-commit-message', {})).rejects.toMatchObject({ code: 'NO_STAGED_CHANGES' });
+
+    await stageFile(repo, 'a.txt', 'a\n');
+    await expect(text('write-commit-message', { type: 'nope' })).rejects.toMatchObject({ code: 'INVALID_TYPE' });
+    await expect(text('write-commit-message', { verbosity: 'long' as never })).rejects.toMatchObject({ code: 'INVALID_ARGUMENT' });
+  });
+});
@@ -0,0 +1,79 @@
+import { existsSync } from 'node:fs';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { DEFAULT_CONFIG } from '../src/config.js';
+import { assertRef, getCommits, getCommitsInRange, getLatestTag, revertNoCommit } from '../src/git.js';
+import { lintRange } from '../src/lint.js';
+import { getPrompt } from '../src/prompts.js';
+import { readResource } from '../src/resources.js';
+import { revertCommit } from '../src/revert.js';
+import { createRepo, removeRepo } from './helpers.js';
+
+describe('assertRef', () => {
+  it('accepts refs and ranges', () => {
+    expect(() => assertRef('HEAD~2')).not.toThrow();
+    expect(() => assertRef('v1.0.0..HEAD', 'range')).not.toThrow();
+    expect(() => assertRef('feature/-x')).not.toThrow();
+  });
+
+  it('rejects anything git would read as an option', () => {
+    expect(() => assertRef('--output=/tmp/x')).toThrow(expect.objectContaining({ code: 'INVALID_ARGUMENT' }));
+    expect(() => assertRef('-n1', 'range')).toThrow(/range/);
+  });
+});
+
+describe('revision ranges', () => {
+  let repo: string;
+
+  beforeEach(async () => {
+    repo = await createRepo();
+  });
+
+  afterEach(async () => {
+    await removeRepo(repo);
+  });
+
+  it('reads the commits of a range', async () => {
+    const commits = await getCommitsInRange('HEAD', { repoPath: repo });
+    expect(commits.map(commit => commit.message)).toEqual(['🎉 init: start']);
+  });
+
+  it('rejects a dash-prefixed lint range without running git log on it', async () => {
+    const output = path.join(repo, 'pwned.txt');
+    await expect(lintRange(`--output=${output}`, DEFAULT_CONFIG, {}, { repoPath: repo })).rejects.toMatchObject({
+      code: 'INVALID_ARGUMENT',
+    });
+    expect(existsSync(output)).toBe(false);
+  });
+
+  it('rejects a dash-prefixed range in the log resource', async () => {
+    const output = path.join(repo, 'pwned.txt');
+    await expect(
+      readResource(`gitmoji://repo/log?range=${encodeURIComponent(`--output=${output}`)}`, { repoPath: repo })
+    ).rejects.toMatchObject({ code: 'INVALID_ARGUMENT' });
+    expect(existsSync(output)).toBe(false);
+  });
+
+  it('rejects a dash-prefixed base in the pull request prompt', async () => {
+    const output = path.join(repo, 'pwned.txt');
+    await expect(
+      getPrompt('write-pr-description', { base: `--output=${output}` }, DEFAULT_CONFIG, { repoPath: repo })
+    ).rejects.toMatchObject({ code: 'INVALID_ARGUMENT' });
+    expect(existsSync(output)).toBe(false);
+  });
+
+  it('rejects dash-prefixed changelog refs', async () => {
+    const output = path.join(repo, 'pwned.txt');
+    await expect(getCommits(`--output=${output}`, 'HEAD', { repoPath: repo })).rejects.toThrow(/Invalid from/);
+    await expect(getCommits(undefined, `--output=${output}`, { repoPath: repo })).rejects.toThrow(/Invalid to/);
+    await expect(getLatestTag(`--output=${output}`, { repoPath: repo })).rejects.toMatchObject({ code: 'INVALID_ARGUMENT' });
+    expect(existsSync(output)).toBe(false);
+  });
+
+  it('rejects a dash-prefixed commit to revert', async () => {
+    await expect(revertCommit('--quit', DEFAULT_CONFIG, {}, { repoPath: repo })).rejects.toThrow(/Invalid commit/);
+    await expect(revertNoCommit('--quit', undefined, { repoPath: repo })).rejects.toMatchObject({
+      code: 'INVALID_ARGUMENT',
+    });
+  });
+});
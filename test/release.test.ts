@@ -0,0 +1,77 @@
+import { existsSync } from 'node:fs';
+import { mkdir, symlink } from 'node:fs/promises';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { loadConfig } from '../src/config.js';
+import { runRelease } from '../src/release.js';
+import { createRepo, git, removeRepo, stageFile } from './helpers.js';
+
+describe('runRelease', () => {
+  let repo: string;
+
+  beforeEach(async () => {
+    repo = await createRepo({ guards: { protectedBranches: ['main'] }, release: { manifests: [] } });
+    await stageFile(repo, 'a.txt', 'a\n');
+    git(repo, 'commit', '-q', '-m', '✨ feat: add a');
+  });
+
+  afterEach(async () => {
+    await removeRepo(repo);
+  });
+
+  const release = async (options: Parameters<typeof runRelease>[1] = {}) =>
+    runRelease(await loadConfig(repo), options, { repoPath: repo });
+
+  it('refuses files outside the repository', async () => {
+    const outside = path.join(path.dirname(repo), `${path.basename(repo)}-CHANGELOG.md`);
+
+    await expect(release({ changelogFile: `../${path.basename(outside)}` })).rejects.toMatchObject({
+      code: 'INVALID_ARGUMENT',
+    });
+    await expect(release({ manifests: ['/etc/hostname'] })).rejects.toThrow(/inside the repository/);
+    expect(existsSync(outside)).toBe(false);
+  });
+
+  it('refuses files that leave the repository through a symlink', async () => {
+    const outside = `${repo}-outside`;
+    await mkdir(outside);
+    await symlink(path.join(outside, 'CHANGELOG.md'), path.join(repo, 'CHANGELOG.md'));
+    await symlink(outside, path.join(repo, 'docs'));
+
+    try {
+      await expect(release()).rejects.toThrow(/inside the repository: CHANGELOG.md/);
+      await expect(release({ changelogFile: 'docs/notes/CHANGELOG.md' })).rejects.toMatchObject({
+        code: 'INVALID_ARGUMENT',
+      });
+      expect(existsSync(path.join(outside, 'CHANGELOG.md'))).toBe(false);
+    } finally {
+      await removeRepo(outside);
+    }
+  });
+
+  it('reports unreadable release files with an error code', async () => {
+    await mkdir(path.join(repo, 'manifest.json'));
+
+    await expect(release({ manifests: ['manifest.json'] })).rejects.toMatchObject({
+      code: 'INVALID_ARGUMENT',
+      message: expect.stringContaining('Failed to read'),
+    });
+  });
+
+  it('runs the commit guards before the release commit', async () => {
+    const head = git(repo, 'rev-parse', 'HEAD');
+
+    await expect(release()).rejects.toMatchObject({ code: 'PROTECTED_BRANCH' });
+    expect(git(repo, 'rev-parse', 'HEAD')).toBe(head);
+    expect(git(repo, 'tag')).toBe('');
+    expect(existsSync(path.join(repo, 'CHANGELOG.md'))).toBe(false);
+
+    const result = await release({ overrides: { allowProtectedBranch: true } });
+    expect(result.commitHash).toBe(git(repo, 'rev-parse', 'HEAD').trim());
+  });
+
+  it('lists failing guards on dry run', async () => {
+    const result = await release({ dryRun: true });
+    expect(result.guards.map(finding => finding.code)).toEqual(['PROTECTED_BRANCH']);
+  });
+});
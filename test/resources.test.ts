@@ -0,0 +1,74 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { RESOURCES, RESOURCE_TEMPLATES, readResource } from '../src/resources.js';
+import { createRepo, git, removeRepo, stageFile } from './helpers.js';
+
+describe('resources', () => {
+  let repo: string;
+
+  beforeEach(async () => {
+    repo = await createRepo({ convention: 'conventional', types: { wip: { emoji: '🚧', conventional: 'chore' } } });
+  });
+
+  afterEach(async () => {
+    await removeRepo(repo);
+  });
+
+  it('lists every fixed resource and the log template', () => {
+    expect(RESOURCES.map(resource => resource.uri)).toEqual(['gitmoji://types', 'gitmoji://config', 'gitmoji://repo/staged']);
+    expect(RESOURCE_TEMPLATES.map(template => template.uriTemplate)).toEqual(['gitmoji://repo/log{?range}']);
+  });
+
+  it('reads the catalog and settings of the repository', async () => {
+    const types = (await readResource('gitmoji://types', { repoPath: repo })) as any;
+    expect(types.convention).toBe('conventional');
+    expect(types.types).toContainEqual(expect.objectContaining({ type: 'wip', emoji: '🚧', conventional: 'chore' }));
+
+    const config = (await readResource('gitmoji://config', { repoPath: repo })) as any;
+    expect(config.convention).toBe('conventional');
+    expect(config.types.wip).toMatchObject({ emoji: '🚧' });
+  });
+
+  it('summarizes the staged files with a suggestion', async () => {
+    expect(await readResource('gitmoji://repo/staged', { repoPath: repo })).toEqual({
+      files: [],
+      additions: 0,
+      deletions: 0,
+      suggestion: undefined,
+    });
+
+    await stageFile(repo, 'docs/guide.md', '# Guide\n\nRead me.\n');
+    const staged = (await readResource('gitmoji://repo/staged', { repoPath: repo })) as any;
+    expect(staged).toMatchObject({
+      files: [{ path: 'docs/guide.md', status: 'added', additions: 3, deletions: 0 }],
+      additions: 3,
+      deletions: 0,
+      suggestion: { type: 'docs' },
+    });
+  });
+
+  it('parses the log of a range with the repository convention', async () => {
+    git(repo, 'tag', 'v1.0.0');
+    await stageFile(repo, 'a.txt', 'a\n');
+    git(repo, 'commit', '-q', '-m', 'feat(api)!: add endpoints');
+    await stageFile(repo, 'b.txt', 'b\n');
+    git(repo, 'commit', '-q', '-m', 'not a conventional message');
+
+    const log = (await readResource('gitmoji://repo/log?range=v1.0.0..HEAD', { repoPath: repo })) as any;
+    expect(log.range).toBe('v1.0.0..HEAD');
+    expect(log.commits).toEqual([
+      expect.objectContaining({ subject: 'not a conventional message', type: undefined, breaking: undefined }),
+      expect.objectContaining({ subject: 'feat(api)!: add endpoints', type: 'feat', scope: 'api', title: 'add endpoints', breaking: true }),
+    ]);
+
+    const recent = (await readResource('gitmoji://repo/log', { repoPath: repo })) as any;
+    expect(recent.range).toBeUndefined();
+    expect(recent.commits).toHaveLength(3);
+  });
+
+  it('rejects unknown resources and ranges that look like options', async () => {
+    await expect(readResource('gitmoji://nope', { repoPath: repo })).rejects.toMatchObject({ code: 'UNKNOWN_RESOURCE' });
+    await expect(readResource('gitmoji://repo/log?range=--all', { repoPath: repo })).rejects.toMatchObject({
+      code: 'INVALID_ARGUMENT',
+    });
+  });
+});
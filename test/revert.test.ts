@@ -0,0 +1,113 @@
+import { existsSync } from 'node:fs';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { DEFAULT_CONFIG } from '../src/config.js';
+import { buildRevertMessage, revertCommit } from '../src/revert.js';
+import { createRepo, git, removeRepo, stageFile } from './helpers.js';
+
+const HASH = 'a'.repeat(40);
+
+describe('buildRevertMessage', () => {
+  it('keeps the scope and title of the original commit', () => {
+    const message = buildRevertMessage(
+      { hash: HASH, message: '✨ feat(auth): add OAuth2 authentication', parents: [] },
+      { reason: 'Login broke for SSO users.' },
+      DEFAULT_CONFIG
+    );
+
+    expect(message).toBe(
+      `⏪ revert(auth): add OAuth2 authentication\n\nThis reverts commit ${HASH}.\n\nLogin broke for SSO users.`
+    );
+  });
+
+  it('uses the first line of messages outside the convention and names the kept parent of merges', () => {
+    const message = buildRevertMessage(
+      { hash: HASH, message: 'Merge branch feature\n\ndetails', parents: ['b'.repeat(40), 'c'.repeat(40)] },
+      { mainline: 2 },
+      DEFAULT_CONFIG
+    );
+
+    expect(message.split('\n')[0]).toBe('⏪ revert: Merge branch feature');
+    expect(message.replace(/\s+/g, ' ')).toContain(`, reversing changes made to ${'c'.repeat(40)}.`);
+  });
+});
+
+describe('revertCommit', () => {
+  let repo: string;
+
+  beforeEach(async () => {
+    repo = await createRepo();
+    git(repo, 'checkout', '-q', '-b', 'feature');
+  });
+
+  afterEach(async () => {
+    await removeRepo(repo);
+  });
+
+  const gitOptions = () => ({ repoPath: repo });
+  const head = () => git(repo, 'rev-parse', 'HEAD').trim();
+
+  async function commit(file: string, content: string, message: string) {
+    await stageFile(repo, file, content);
+    git(repo, 'commit', '-q', '-m', message);
+    return head();
+  }
+
+  it('commits the revert with the convention message', async () => {
+    const original = await commit('a.txt', 'a\n', '✨ feat(a): add a');
+
+    const result = await revertCommit('HEAD', DEFAULT_CONFIG, {}, gitOptions());
+    expect(result).toMatchObject({ reverted: original, hash: head(), conflicts: [], guards: [] });
+    expect(git(repo, 'log', '-1', '--format=%s')).toBe('⏪ revert(a): add a\n');
+    expect(existsSync(path.join(repo, 'a.txt'))).toBe(false);
+  });
+
+  it('refuses a dirty working tree and a commit that is already reverted', async () => {
+    await commit('a.txt', 'a\n', '✨ feat(a): add a');
+    await stageFile(repo, 'b.txt', 'b\n');
+    await expect(revertCommit('HEAD', DEFAULT_CONFIG, {}, gitOptions())).rejects.toMatchObject({
+      code: 'DIRTY_WORKING_TREE',
+    });
+
+    git(repo, 'reset', '-q', '--hard');
+    await revertCommit('HEAD', DEFAULT_CONFIG, {}, gitOptions());
+    const before = head();
+    await expect(revertCommit('HEAD~1', DEFAULT_CONFIG, {}, gitOptions())).rejects.toMatchObject({
+      code: 'NOTHING_TO_COMMIT',
+    });
+    expect(head()).toBe(before);
+    expect(existsSync(path.join(repo, '.git', 'REVERT_HEAD'))).toBe(false);
+  });
+
+  it('needs a valid mainline for merge commits', async () => {
+    git(repo, 'checkout', '-q', '-b', 'side');
+    await commit('side.txt', 'side\n', '✨ feat: add side');
+    git(repo, 'checkout', '-q', 'feature');
+    await commit('main.txt', 'main\n', '✨ feat: add main');
+    git(repo, 'merge', '-q', '--no-edit', 'side');
+
+    await expect(revertCommit('HEAD', DEFAULT_CONFIG, {}, gitOptions())).rejects.toThrow(/is a merge; pass mainline/);
+    await expect(revertCommit('HEAD', DEFAULT_CONFIG, { mainline: 3 }, gitOptions())).rejects.toThrow(
+      /Mainline must be between 1 and 2/
+    );
+    await expect(revertCommit('HEAD~1', DEFAULT_CONFIG, { mainline: 1 }, gitOptions())).rejects.toThrow(/is not a merge/);
+
+    const result = await revertCommit('HEAD', DEFAULT_CONFIG, { mainline: 1 }, gitOptions());
+    expect(result.mainline).toBe(1);
+    expect(existsSync(path.join(repo, 'side.txt'))).toBe(false);
+    expect(existsSync(path.join(repo, 'main.txt'))).toBe(true);
+  });
+
+  it('aborts on conflicts and leaves the repository unchanged', async () => {
+    const original = await commit('a.txt', 'one\n', '✨ feat: add a');
+    await commit('a.txt', 'two\n', '♻️ refactor: change a');
+    const before = head();
+
+    const result = await revertCommit(original, DEFAULT_CONFIG, {}, gitOptions());
+    expect(result.hash).toBeUndefined();
+    expect(result.conflicts).toEqual([expect.objectContaining({ path: 'a.txt' })]);
+    expect(head()).toBe(before);
+    expect(git(repo, 'status', '--porcelain')).toBe('');
+    expect(existsSync(path.join(repo, '.git', 'REVERT_HEAD'))).toBe(false);
+  });
+});
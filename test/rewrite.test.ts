@@ -0,0 +1,104 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { DEFAULT_CONFIG } from '../src/config.js';
+import { amendLastCommit, rewordCommit } from '../src/rewrite.js';
+import { createRepo, git, removeRepo, stageFile } from './helpers.js';
+
+describe('history rewrite', () => {
+  let repo: string;
+
+  beforeEach(async () => {
+    repo = await createRepo();
+    for (const [file, message] of [
+      ['a.txt', '✨ feat: add a'],
+      ['b.txt', '✨ feat: add b'],
+      ['c.txt', '🐛 fix: add c'],
+    ]) {
+      await stageFile(repo, file, `${file}\n`);
+      git(repo, 'commit', '-q', '-m', message);
+    }
+  });
+
+  afterEach(async () => {
+    await removeRepo(repo);
+  });
+
+  const gitOptions = () => ({ repoPath: repo });
+  const log = () => git(repo, 'log', '--format=%s').trim().split('\n');
+  const trees = () => git(repo, 'log', '--format=%T').trim().split('\n');
+
+  describe('amendLastCommit', () => {
+    it('replaces the message of the last commit', async () => {
+      const result = await amendLastCommit({ type: 'fix', scope: 'c', title: 'restore c' }, DEFAULT_CONFIG, {}, gitOptions());
+
+      expect(result.message).toBe('🐛 fix(c): restore c');
+      expect(result.newHash).toBe(git(repo, 'rev-parse', 'HEAD').trim());
+      expect(log()[0]).toBe('🐛 fix(c): restore c');
+    });
+
+    it('adds the staged changes and keeps the message without params', async () => {
+      await stageFile(repo, 'd.txt', 'd\n');
+
+      await amendLastCommit(undefined, DEFAULT_CONFIG, {}, gitOptions());
+      expect(log()[0]).toBe('🐛 fix: add c');
+      expect(git(repo, 'show', '--name-only', '--format=', 'HEAD').trim().split('\n')).toEqual(['c.txt', 'd.txt']);
+    });
+
+    it('refuses an amend that changes nothing or breaks the convention', async () => {
+      await expect(amendLastCommit(undefined, DEFAULT_CONFIG, {}, gitOptions())).rejects.toMatchObject({
+        code: 'NOTHING_TO_COMMIT',
+      });
+      expect(log()[0]).toBe('🐛 fix: add c');
+
+      // The kept message is validated too
+      git(repo, 'commit', '-q', '--allow-empty', '-m', 'wip');
+      await stageFile(repo, 'd.txt', 'd\n');
+      await expect(amendLastCommit(undefined, DEFAULT_CONFIG, {}, gitOptions())).rejects.toMatchObject({
+        code: 'INVALID_MESSAGE',
+      });
+      expect(log()[0]).toBe('wip');
+    });
+  });
+
+  describe('rewordCommit', () => {
+    it('rewords an older commit and recreates the later ones with the same content', async () => {
+      const before = trees();
+      await stageFile(repo, 'staged.txt', 'staged\n');
+
+      const result = await rewordCommit('HEAD~1', { type: 'feat', title: 'add b again' }, DEFAULT_CONFIG, {}, gitOptions());
+
+      expect(log()).toEqual(['🐛 fix: add c', '✨ feat: add b again', '✨ feat: add a', '🎉 init: start']);
+      expect(trees()).toEqual(before);
+      expect(result.rebased).toHaveLength(1);
+      expect(result.rebased[0].newHash).toBe(git(repo, 'rev-parse', 'HEAD').trim());
+      expect(git(repo, 'diff', '--staged', '--name-only').trim()).toBe('staged.txt');
+    });
+
+    it('only rewords commits of the current branch', async () => {
+      git(repo, 'checkout', '-q', '-b', 'other', 'HEAD~1');
+      await stageFile(repo, 'other.txt', 'other\n');
+      git(repo, 'commit', '-q', '-m', '✨ feat: add other');
+
+      await expect(rewordCommit('main', { type: 'fix', title: 'add c' }, DEFAULT_CONFIG, {}, gitOptions())).rejects.toThrow(
+        /is not on the current branch/
+      );
+    });
+
+    it('refuses to rewrite published commits unless forced', async () => {
+      git(repo, 'branch', 'published', 'HEAD~1');
+      git(repo, 'branch', '-q', '--set-upstream-to=published');
+
+      await expect(
+        rewordCommit('HEAD~2', { type: 'feat', title: 'add a again' }, DEFAULT_CONFIG, {}, gitOptions())
+      ).rejects.toMatchObject({ code: 'PUBLISHED_COMMIT' });
+      expect(log()[2]).toBe('✨ feat: add a');
+
+      const forced = await rewordCommit('HEAD~2', { type: 'feat', title: 'add a again' }, DEFAULT_CONFIG, { force: true }, gitOptions());
+      expect(forced.upstream).toBe('published');
+      expect(log()[2]).toBe('✨ feat: add a again');
+
+      // The last commit is not published yet
+      await amendLastCommit({ type: 'fix', title: 'restore c' }, DEFAULT_CONFIG, {}, gitOptions());
+      expect(log()[0]).toBe('🐛 fix: restore c');
+    });
+  });
+});
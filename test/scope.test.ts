@@ -0,0 +1,87 @@
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { findWorkspacePackages, inferScope, toScopeName } from '../src/scope.js';
+
+describe('scope inference', () => {
+  let root: string;
+
+  beforeEach(async () => {
+    root = await mkdtemp(path.join(tmpdir(), 'gitmoji-scope-'));
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  async function write(files: Record<string, string>) {
+    for (const [file, content] of Object.entries(files)) {
+      await mkdir(path.dirname(path.join(root, file)), { recursive: true });
+      await writeFile(path.join(root, file), content);
+    }
+  }
+
+  const packageDirs = async () => (await findWorkspacePackages(root)).map(pkg => `${pkg.dir} ${pkg.scope}`).sort();
+
+  it('turns package names into scopes', () => {
+    expect(toScopeName('@acme/Auth')).toBe('auth');
+    expect(toScopeName('github.com/acme/billing')).toBe('billing');
+  });
+
+  it('reads packages from npm workspaces and their manifests', async () => {
+    await write({
+      'package.json': JSON.stringify({ workspaces: ['packages/*'] }),
+      'packages/auth/package.json': JSON.stringify({ name: '@acme/auth' }),
+      'packages/ui/README.md': '',
+      'packages/.cache/package.json': '{}',
+    });
+
+    expect(await packageDirs()).toEqual(['packages/auth auth', 'packages/ui ui']);
+  });
+
+  it('matches ** at any depth, keeping directories with a manifest', async () => {
+    await write({
+      'pnpm-workspace.yaml': 'packages:\n  - "libs/**"\n',
+      'libs/core/package.json': JSON.stringify({ name: 'core' }),
+      'libs/core/src/index.ts': '',
+      'libs/group/nested/deep/Cargo.toml': '[package]\nname = "deep-crate"\n',
+      'libs/group/nested/deep/node_modules/dep/package.json': '{}',
+    });
+
+    expect(await packageDirs()).toEqual(['libs/core core', 'libs/group/nested/deep deep-crate']);
+  });
+
+  it('scopes files by workspace package, nested packages first', async () => {
+    await write({
+      'package.json': JSON.stringify({ workspaces: ['packages/*', 'packages/auth/plugins/*'] }),
+      'packages/auth/package.json': JSON.stringify({ name: 'auth' }),
+      'packages/auth/plugins/oauth/package.json': JSON.stringify({ name: 'oauth' }),
+      'packages/ui/package.json': JSON.stringify({ name: 'ui' }),
+    });
+
+    expect(await inferScope(root, ['packages/auth/plugins/oauth/index.ts', 'package-lock.json'])).toMatchObject({
+      scope: 'oauth',
+      source: 'workspace',
+      files: [
+        { path: 'packages/auth/plugins/oauth/index.ts', scope: 'oauth' },
+        { path: 'package-lock.json', scope: undefined },
+      ],
+    });
+
+    const conflict = await inferScope(root, ['packages/auth/a.ts', 'packages/ui/b.ts']);
+    expect(conflict.scope).toBeUndefined();
+    expect(conflict.conflicts).toEqual([
+      { scope: 'auth', files: ['packages/auth/a.ts'] },
+      { scope: 'ui', files: ['packages/ui/b.ts'] },
+    ]);
+  });
+
+  it('falls back to the top-level module directory, skipping source roots', async () => {
+    expect(await inferScope(root, ['src/parser/lexer.ts', 'src/parser/tokens.ts'])).toMatchObject({
+      scope: 'parser',
+      source: 'directory',
+    });
+    expect((await inferScope(root, ['README.md'])).scope).toBeUndefined();
+  });
+});
@@ -0,0 +1,84 @@
+import { writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { connectServer, createRepo, git, removeRepo, stageFile } from './helpers.js';
+
+describe('server with a broken repository config', () => {
+  let repo: string;
+
+  beforeEach(async () => {
+    repo = await createRepo();
+    await writeFile(path.join(repo, '.gitmojirc.json'), '{ "preset": "nope" }');
+    vi.stubEnv('GITMOJI_REPO_PATH', repo);
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    await removeRepo(repo);
+  });
+
+  it('still lists the tools, built from the default catalog', async () => {
+    const { client } = await connectServer();
+
+    const { tools } = await client.listTools();
+    const commit = tools.find(tool => tool.name === 'git_commit');
+    expect(commit?.inputSchema.properties?.type).toMatchObject({ enum: expect.arrayContaining(['feat', 'fix']) });
+  });
+
+  it('reports the config error from tool calls', async () => {
+    const { callTool } = await connectServer();
+
+    const result = await callTool('git_validate_message', { message: '✨ feat: add login', repo_path: repo });
+    expect(result.isError).toBe(true);
+    expect(result.structuredContent.error.code).toBe('INVALID_CONFIG');
+  });
+});
+
+describe('commit dry runs', () => {
+  let repo: string;
+
+  beforeEach(async () => {
+    repo = await createRepo();
+  });
+
+  afterEach(async () => {
+    await removeRepo(repo);
+  });
+
+  const head = () => git(repo, 'rev-parse', 'HEAD').trim();
+
+  it('previews without committing, then commits exactly the preview', async () => {
+    const { callTool } = await connectServer();
+    await stageFile(repo, 'src/login.ts', 'export const login = 1;\n');
+    const before = head();
+
+    const preview = await callTool('git_commit', { type: 'feat', title: 'add login', dry_run: true, repo_path: repo });
+    expect(preview.structuredContent).toMatchObject({
+      dryRun: true,
+      message: '✨ feat: add login',
+      preview: { branch: 'main', head: before, files: [{ path: 'src/login.ts', additions: 1 }] },
+    });
+    expect(head()).toBe(before);
+
+    const token = preview.structuredContent.preview.confirmToken;
+    const result = await callTool('git_commit', { type: 'feat', title: 'add login', confirm_token: token, repo_path: repo });
+    expect(result.isError).toBeFalsy();
+    expect(git(repo, 'log', '-1', '--format=%s')).toBe('✨ feat: add login\n');
+  });
+
+  it('refuses the token once the staged changes or the message differ', async () => {
+    const { callTool } = await connectServer();
+    await stageFile(repo, 'a.txt', 'a\n');
+
+    const preview = await callTool('git_commit', { type: 'feat', title: 'add a', dry_run: true, repo_path: repo });
+    const token = preview.structuredContent.preview.confirmToken;
+
+    const renamed = await callTool('git_commit', { type: 'feat', title: 'add b', confirm_token: token, repo_path: repo });
+    expect(renamed.structuredContent.error.code).toBe('CONFIRMATION_MISMATCH');
+
+    await stageFile(repo, 'b.txt', 'b\n');
+    const restaged = await callTool('git_commit', { type: 'feat', title: 'add a', confirm_token: token, repo_path: repo });
+    expect(restaged.structuredContent.error.code).toBe('CONFIRMATION_MISMATCH');
+    expect(git(repo, 'rev-list', '--count', 'HEAD')).toBe('1\n');
+  });
+});
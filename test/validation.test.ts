@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { mergeConfig } from '../src/config.js';
+import { parseConventionalCommit } from '../src/parser.js';
+import { formatCommitMessage, validateCommitMessage } from '../src/utils.js';
+
+const codes = (message: string) => (validateCommitMessage(message).diagnostics ?? []).map(d => d.code);
+
+describe('parseConventionalCommit', () => {
+  it('splits header, body and footers with offsets', () => {
+    const message = '✨ feat(auth)!: add token refresh\n\nRefresh tokens before they expire.\n\nCloses: #12\nBREAKING CHANGE: sessions are shorter';
+    const parsed = parseConventionalCommit(message);
+
+    expect(parsed.header).toMatchObject({ emoji: '✨', type: 'feat', scope: 'auth', breaking: true, title: 'add token refresh' });
+    expect(parsed.body?.text).toBe('Refresh tokens before they expire.');
+    expect(parsed.footers.map(footer => footer.token)).toEqual(['Closes', 'BREAKING CHANGE']);
+    expect(parsed.breakingNote).toBe('sessions are shorter');
+    expect(message.substring(parsed.header.scopeSpan!.start, parsed.header.scopeSpan!.end)).toBe('auth');
+  });
+
+  it('accepts shortcodes and emoji without a variation selector', () => {
+    expect(validateCommitMessage(':sparkles: feat: add token refresh').valid).toBe(true);
+    expect(validateCommitMessage('♻ refactor: split the parser').valid).toBe(true);
+  });
+});
+
+describe('validateCommitMessage', () => {
+  it('accepts a well-formed message', () => {
+    expect(validateCommitMessage('🐛 fix(api): handle empty token')).toMatchObject({ valid: true, issues: [] });
+  });
+
+  it('reports unknown types, mismatched emoji and a missing colon', () => {
+    expect(codes('✨ nope: add x')).toContain('invalid-type');
+    expect(codes('🐛 feat: add x')).toContain('emoji-mismatch');
+    expect(validateCommitMessage('✨ feat add x').valid).toBe(false);
+  });
+
+  it('warns about a second line that is not blank', () => {
+    const result = validateCommitMessage('✨ feat: add x\nmore text');
+    expect(result.valid).toBe(true);
+    expect(codes('✨ feat: add x\nmore text')).toContain('missing-blank-line');
+  });
+
+  it('rejects an empty message without throwing', () => {
+    expect(validateCommitMessage('').valid).toBe(false);
+  });
+
+  it.each(['constructor', 'toString', 'hasOwnProperty', 'valueOf', '__proto__'])(
+    'rejects the Object.prototype name %s as a type instead of crashing',
+    type => {
+      const result = validateCommitMessage(`✨ ${type}: add x`);
+      expect(result.valid).toBe(false);
+    }
+  );
+
+  it('rejects Object.prototype names when formatting', () => {
+    expect(() => formatCommitMessage({ type: 'constructor', title: 'add x' })).toThrow(
+      expect.objectContaining({ code: 'INVALID_TYPE' })
+    );
+  });
+});
+
+describe('mergeConfig', () => {
+  it('treats Object.prototype names as new types', () => {
+    expect(() => mergeConfig({ types: { constructor: { title: 'Constructor' } } }, 'test')).toThrow(/must define an "emoji"/);
+    expect(() => mergeConfig({ types: { wip: { emoji: '🚧', conventional: 'toString' } } }, 'test')).toThrow(
+      /"conventional" must be one of/
+    );
+  });
+
+  it('rejects Object.prototype names as presets', () => {
+    for (const preset of ['toString', 'constructor', '__proto__']) {
+      expect(() => mergeConfig({ preset }, 'test')).toThrow(/"preset" must be one of/);
+    }
+  });
+});
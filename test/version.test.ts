@@ -0,0 +1,120 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { DEFAULT_CONFIG } from '../src/config.js';
+import {
+  compareVersions,
+  formatVersion,
+  getCommitBump,
+  incrementVersion,
+  parseVersion,
+  recommendNextVersion,
+} from '../src/version.js';
+import { createRepo, git, removeRepo, stageFile } from './helpers.js';
+
+const { versioning } = DEFAULT_CONFIG;
+
+function next(current: string, bump: Parameters<typeof incrementVersion>[1], options = {}) {
+  const result = incrementVersion(parseVersion(current)!, bump, options);
+  return `${formatVersion(result.version)} (${result.bump})`;
+}
+
+describe('parseVersion', () => {
+  it('ignores tag prefixes and reads prerelease identifiers', () => {
+    expect(parseVersion('release-1.2.3-rc.4+build.5')).toEqual({
+      major: 1,
+      minor: 2,
+      patch: 3,
+      prerelease: ['rc', 4],
+      build: ['build', '5'],
+    });
+    expect(parseVersion('v1.2')).toBeNull();
+    expect(parseVersion('v01.2.3')).toBeNull();
+  });
+
+  it('orders versions by semver precedence', () => {
+    const sorted = ['1.0.0', '1.0.0-rc.1', '1.0.0-alpha', '1.0.0-alpha.1', '0.9.9', '1.0.0-1']
+      .map(version => parseVersion(version)!)
+      .sort(compareVersions)
+      .map(formatVersion);
+    expect(sorted).toEqual(['0.9.9', '1.0.0-1', '1.0.0-alpha', '1.0.0-alpha.1', '1.0.0-rc.1', '1.0.0']);
+  });
+});
+
+describe('getCommitBump', () => {
+  it('reads the bump from the type, its conventional type and breaking markers', () => {
+    expect(getCommitBump('✨ feat: add login', versioning)).toBe('minor');
+    expect(getCommitBump('🐛 fix: handle nulls', versioning)).toBe('patch');
+    expect(getCommitBump('✨ feat!: drop the old login', versioning)).toBe('major');
+    expect(getCommitBump('🐛 fix: handle nulls\n\nBREAKING CHANGE: nulls throw', versioning)).toBe('major');
+    expect(getCommitBump('not a gitmoji commit', versioning)).toBe('patch');
+  });
+
+  it('falls back to the default bump for Object.prototype names', () => {
+    for (const type of ['constructor', 'toString', 'hasOwnProperty', '__proto__']) {
+      expect(getCommitBump(`✨ ${type}: sneak in`, versioning)).toBe('patch');
+    }
+  });
+});
+
+describe('incrementVersion', () => {
+  it('bumps stable versions', () => {
+    expect(next('1.2.3', 'major')).toBe('2.0.0 (major)');
+    expect(next('1.2.3', 'minor')).toBe('1.3.0 (minor)');
+    expect(next('1.2.3', 'none')).toBe('1.2.3 (none)');
+  });
+
+  it('applies 0.x semantics unless disabled', () => {
+    expect(next('0.4.1', 'major')).toBe('0.5.0 (minor)');
+    expect(next('0.4.1', 'minor')).toBe('0.4.2 (patch)');
+    expect(next('0.4.1', 'major', { initialDevelopment: false })).toBe('1.0.0 (major)');
+  });
+
+  it('continues prereleases and only moves past their pending bump when asked for more', () => {
+    expect(next('1.2.3', 'minor', { prerelease: 'rc' })).toBe('1.3.0-rc.0 (minor)');
+    expect(next('1.3.0-rc.0', 'patch', { prerelease: 'rc' })).toBe('1.3.0-rc.1 (patch)');
+    expect(next('1.3.0-rc.1', 'minor')).toBe('1.3.0 (minor)');
+    expect(next('1.3.0-rc.1', 'major', { prerelease: 'rc' })).toBe('2.0.0-rc.0 (major)');
+    expect(next('1.3.0-beta.2', 'patch', { prerelease: 'rc' })).toBe('1.3.0-rc.0 (patch)');
+  });
+});
+
+describe('recommendNextVersion', () => {
+  let repo: string;
+
+  beforeEach(async () => {
+    repo = await createRepo();
+  });
+
+  afterEach(async () => {
+    await removeRepo(repo);
+  });
+
+  async function commit(message: string) {
+    await stageFile(repo, 'file.txt', message);
+    git(repo, 'commit', '-q', '-m', message);
+  }
+
+  it('recommends from the commits since the latest version tag', async () => {
+    await commit('✨ feat: add login');
+    git(repo, 'tag', 'v1.0.0');
+    await commit('🐛 fix: handle nulls');
+    await commit('✨ feat: add logout');
+
+    const recommendation = await recommendNextVersion(DEFAULT_CONFIG, {}, { repoPath: repo });
+    expect(recommendation).toMatchObject({
+      currentTag: 'v1.0.0',
+      nextTag: 'v1.1.0',
+      commitBump: 'minor',
+      triggers: [expect.objectContaining({ subject: '✨ feat: add logout', bump: 'minor' })],
+    });
+    expect(recommendation.commits).toHaveLength(2);
+  });
+
+  it('is not corrupted by commit types named after Object.prototype members', async () => {
+    await commit('🐛 fix: handle nulls');
+    git(repo, 'tag', 'v1.0.0');
+    await commit('✨ constructor: sneak in');
+
+    const recommendation = await recommendNextVersion(DEFAULT_CONFIG, {}, { repoPath: repo });
+    expect(recommendation).toMatchObject({ commitBump: 'patch', nextTag: 'v1.0.1' });
+  });
+});